@@ -34,6 +34,7 @@ import {
 } from './src/screens';
 import { useEffect, useState, useCallback, useRef } from 'react';
 import {
+  CustomSplitDay,
   PlanPreferences,
   PrimaryGoal,
   User,
@@ -41,15 +42,27 @@ import {
 import { AuthProvider, useAuth } from './src/contexts/AuthContext';
 import { fetchUserProfile, saveUserProfile, getSignedAvatarUrl } from './src/services/userProfileService';
 import { fetchHomeData } from './src/services/dashboardService';
-import { formatLocalDateYMD } from './src/utils/date';
+import { formatLocalDateYMD, parseYMDToDate } from './src/utils/date';
 import { hasRequiredPlanInputs } from './src/utils/planReadiness';
+import { getLongestStreak, isPhaseComplete } from './src/utils';
 import { 
   createPhase,
   completePhase as completeRemotePhase 
 } from './src/services/phaseService';
-import { generatePlanDaysForPlan, linkPlanToMatchedTemplates } from './src/services/planRuntimeService';
+import {
+  clearGeneratedPlanDaysFrom,
+  generatePlanDaysForPlan,
+  linkPlanToMatchedTemplates,
+} from './src/services/planRuntimeService';
 import { supabase } from './src/lib/supabaseClient';
 import { deleteAccount as deleteAccountService } from './src/services/accountService';
+import { setRestTimerRecorder } from './src/services/restTimerService';
+import {
+  REST_SPLIT_TAG,
+  normalizeTrainingDays,
+  resolveCustomSplitDaysPerWeek,
+  resolveTrainingDayIndex,
+} from './src/services/planningRules';
 
 type RootTabParamList = {
   Today:    undefined;
@@ -98,7 +111,14 @@ const mapDaysPerWeekToSplit = (daysPerWeek: number): User['trainingSplit'] => {
   return 'full_body';
 };
 
-const mapSplitToPattern = (split: User['trainingSplit']): string[] => {
+const mapSplitToPattern = (
+  split: User['trainingSplit'],
+  customSplit?: CustomSplitDay[]
+): string[] => {
+  if (split === 'custom' && customSplit?.length) {
+    // The generator takes one tag per day, so each custom day sends its lead tag
+    return customSplit.map((day) => day.templateTags[0] ?? day.bodyParts[0] ?? 'full_body');
+  }
   switch (split) {
     case 'push_pull_legs':
       return ['push', 'pull', 'legs'];
@@ -113,6 +133,36 @@ const mapSplitToPattern = (split: User['trainingSplit']): string[] => {
   }
 };
 
+const getScheduleKey = (user: User): string =>
+  [
+    user.trainingSplit,
+    user.planPreferences?.daysPerWeek ?? '',
+    normalizeTrainingDays(user.planPreferences?.trainingDays).join(','),
+  ].join('|');
+
+const greatestCommonDivisor = (a: number, b: number): number => (b ? greatestCommonDivisor(b, a % b) : a);
+
+// Chosen weekdays are sent as one entry per day (Sunday first from the start
+// week), rest on off days. Enough weeks go out for the split to come back to
+// its first day, so the rotation runs on across weeks as the runtime counts it.
+const alignPatternToWeekdays = (
+  pattern: string[],
+  trainingDays: number[],
+  startDate: string
+): string[] => {
+  const weeks = pattern.length / greatestCommonDivisor(pattern.length, trainingDays.length);
+  const start = parseYMDToDate(startDate);
+  const weekStart = addDays(start, -start.getDay());
+  return Array.from({ length: weeks * 7 }, (_, offset) => {
+    const date = addDays(weekStart, offset);
+    if (!trainingDays.includes(date.getDay())) return REST_SPLIT_TAG;
+    // Days before the start stand in for the same day one cycle later
+    const counted = date.getTime() < start.getTime() ? addDays(date, weeks * 7) : date;
+    const index = resolveTrainingDayIndex(startDate, formatLocalDateYMD(counted), trainingDays);
+    return pattern[(index ?? 0) % pattern.length];
+  });
+};
+
 const mapPrimaryGoalToTemplateTag = (goal?: PrimaryGoal): string => {
   switch (goal) {
     case 'build_muscle':
@@ -353,8 +403,18 @@ function AppContent() {
     deleteWorkoutExercise,
     replaceSessionWithTemplate,
     appendExercisesToSession,
-    canUndoWorkoutSwap,
-    undoLastWorkoutSwap,
+    getPlanEditHistory,
+    undoPlanEdit,
+    redoPlanEdit,
+    recordSetRest,
+    addPhotoCheckin,
+    toggleHabit,
+    logBodyWeight,
+    dailyConsistency,
+    completePhase,
+    missedWorkout,
+    resolveMissedWorkout,
+    dismissMissedWorkout,
   } = useAppState();
   
   const [isProfileVisible, setProfileVisible] = useState(false);
@@ -394,6 +454,8 @@ function AppContent() {
   const [tempPlanPreferences, setTempPlanPreferences] = useState<PlanPreferences | null>(null);
   const [tempPrimaryGoal, setTempPrimaryGoal] = useState<PrimaryGoal>('general_fitness');
   const [startPlanConfirmVisible, setStartPlanConfirmVisible] = useState(false);
+  const [dismissedCompletePhaseId, setDismissedCompletePhaseId] = useState<string | null>(null);
+  const [isFinishingPhase, setIsFinishingPhase] = useState(false);
 
   const closeProfileSheet = () => {
     setProfileVisible(false);
@@ -425,6 +487,39 @@ function AppContent() {
     setOnboardingStep('current_physique');
   };
 
+  const phaseCompleteVisible =
+    onboardingStep === 'complete' &&
+    !!state?.currentPhase &&
+    state.currentPhase.status === 'active' &&
+    dismissedCompletePhaseId !== state.currentPhase.id &&
+    isPhaseComplete(state.currentPhase, state.progressEstimate);
+
+  const dismissPhaseComplete = () => {
+    setDismissedCompletePhaseId(state?.currentPhase?.id ?? null);
+  };
+
+  const finishPhaseAndStartNext = async () => {
+    const phase = state?.currentPhase;
+    if (!phase || isFinishingPhase) return;
+    setIsFinishingPhase(true);
+    try {
+      await completeRemotePhase(phase.id);
+      completePhase();
+      setDismissedCompletePhaseId(phase.id);
+      confirmStartNewPlan();
+    } catch (error) {
+      console.error('Failed to complete phase', error);
+      Alert.alert('Could not complete phase', 'Please check your connection and try again.');
+    } finally {
+      setIsFinishingPhase(false);
+    }
+  };
+
+
+  useEffect(() => {
+    setRestTimerRecorder(recordSetRest);
+    return () => setRestTimerRecorder(null);
+  }, [recordSetRest]);
 
   useEffect(() => {
     if (!navigationRef.isReady()) return;
@@ -550,12 +645,27 @@ function AppContent() {
   }, [state?.user, tempPrimaryGoal]);
 
   const handleProfileSave = async (profile: User) => {
+    const previousSchedule = state?.user ? getScheduleKey(state.user) : null;
     await updateUser(profile);
     try {
       await saveUserProfile(profile);
     } catch (err) {
       console.error('Failed to persist profile', err);
     }
+    // Plan days generated for the old weekdays would keep the old rotation
+    const phase = state?.currentPhase;
+    if (authUser && phase && previousSchedule !== null && previousSchedule !== getScheduleKey(profile)) {
+      try {
+        await clearGeneratedPlanDaysFrom(
+          authUser.id,
+          phase.id,
+          formatLocalDateYMD(addDays(new Date(), 1))
+        );
+        await loadPlannedWorkoutsFromSupabase(authUser.id, phase.id);
+      } catch (err) {
+        console.warn('Unable to reschedule upcoming plan days:', err);
+      }
+    }
   };
 
   const handleStartNewArc = async (targetLevelId: number, goalType?: string) => {
@@ -598,10 +708,16 @@ function AppContent() {
         console.warn('Unable to persist plan template map (fallback matching will be used):', linkError);
       }
       try {
-        const daysPerWeek =
-          state.user.planPreferences?.daysPerWeek ??
-          tempPlanPreferences?.daysPerWeek ??
-          DEFAULT_DAYS_PER_WEEK;
+        const customSplit = state.user.planPreferences?.customSplit;
+        const trainingDays = normalizeTrainingDays(state.user.planPreferences?.trainingDays);
+        const splitPattern = mapSplitToPattern(state.user.trainingSplit, customSplit);
+        const daysPerWeek = trainingDays.length
+          ? resolveCustomSplitDaysPerWeek(trainingDays.length)
+          : state.user.planPreferences?.daysPerWeek ??
+            tempPlanPreferences?.daysPerWeek ??
+            (state.user.trainingSplit === 'custom' && customSplit?.length
+              ? resolveCustomSplitDaysPerWeek(customSplit.length)
+              : DEFAULT_DAYS_PER_WEEK);
         await generatePlanDaysForPlan({
           planId: remotePhase.id,
           userId: authUser.id,
@@ -615,7 +731,9 @@ function AppContent() {
             state.user.planPreferences?.equipmentLevel ??
             tempPlanPreferences?.equipmentLevel ??
             'full_gym',
-          splitPattern: mapSplitToPattern(state.user.trainingSplit),
+          splitPattern: trainingDays.length
+            ? alignPatternToWeekdays(splitPattern, trainingDays, startDate)
+            : splitPattern,
           daysPerWeek,
         });
       } catch (planDaysError) {
@@ -722,6 +840,8 @@ function AppContent() {
           await hydrateFromRemote({
             phase: homeData.phase ?? null,
             workoutSessions: homeData.recentSessions,
+            habitLogs: homeData.habitLogs,
+            bodyWeightLogs: homeData.bodyWeightLogs,
           });
 
           if (homeData.phase?.id) {
@@ -1002,16 +1122,23 @@ function AppContent() {
                   phase={state.currentPhase}
                   workoutSessions={state.workoutSessions}
                   plannedWorkouts={state.plannedWorkouts}
+                  habitLogs={state.habitLogs}
+                  onToggleHabit={toggleHabit}
+                  missedWorkout={missedWorkout?.missed ?? null}
+                  onResolveMissedWorkout={resolveMissedWorkout}
+                  onDismissMissedWorkout={dismissMissedWorkout}
                   onStartPhase={handleStartPhaseFromDashboard}
                   onToggleWorkoutExercise={toggleWorkoutExercise}
                   onMarkAllWorkoutsComplete={markAllWorkoutsComplete}
                   onSaveCustomSession={saveCustomWorkoutSession}
                   onAddExercise={addWorkoutExercise}
                   onDeleteExercise={deleteWorkoutExercise}
-                  canUndoWorkoutSwap={canUndoWorkoutSwap}
-                  onUndoLastWorkoutSwap={undoLastWorkoutSwap}
+                  getPlanEditHistory={getPlanEditHistory}
+                  onUndoPlanEdit={undoPlanEdit}
+                  onRedoPlanEdit={redoPlanEdit}
                   onReplaceSessionWithTemplate={replaceSessionWithTemplate}
                   onAppendExercisesToSession={appendExercisesToSession}
+                  personalRecords={state.personalRecords}
                 />
               ) : (
                 <TabPlaceholder title="Welcome to FitArc" subtitle="Complete onboarding to get started." />
@@ -1028,6 +1155,10 @@ function AppContent() {
                   workoutSessions={state.workoutSessions}
                   workoutLogs={state.workoutLogs}
                   strengthSnapshots={state.strengthSnapshots}
+                  personalRecords={state.personalRecords}
+                  bodyWeightLogs={state.bodyWeightLogs}
+                  onLogBodyWeight={logBodyWeight}
+                  onPhotoCheckinAdded={addPhotoCheckin}
                 />
               ) : (
                 <View style={styles.container} />
@@ -1155,6 +1286,40 @@ function AppContent() {
           </Pressable>
         </Pressable>
       </Modal>
+      <Modal
+        transparent
+        animationType="fade"
+        visible={phaseCompleteVisible}
+        onRequestClose={dismissPhaseComplete}
+      >
+        <Pressable style={styles.confirmOverlay} onPress={dismissPhaseComplete}>
+          <Pressable style={styles.confirmCard} onPress={() => {}}>
+            <Text style={styles.confirmTitle}>Phase complete 🎉</Text>
+            <Text style={styles.confirmBody}>
+              {`${state?.currentPhase?.name ?? 'This phase'} is ${state?.progressEstimate?.progressPercent ?? 0}% done, with ${state?.progressEstimate?.daysLogged ?? 0} consistent days out of ${state?.progressEstimate?.daysActive ?? 0}. Longest streak: ${getLongestStreak(dailyConsistency)} days.`}
+            </Text>
+            <Text style={[styles.confirmBody, styles.phaseCompleteHint]}>
+              Wrap it up and set a new target, or keep training on this plan.
+            </Text>
+            <View style={styles.confirmActions}>
+              <TouchableOpacity style={styles.confirmCancel} onPress={dismissPhaseComplete}>
+                <Text style={styles.confirmCancelText}>Keep training</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.confirmPrimary}
+                onPress={finishPhaseAndStartNext}
+                disabled={isFinishingPhase}
+              >
+                {isFinishingPhase ? (
+                  <ActivityIndicator color="#0A0E27" />
+                ) : (
+                  <Text style={styles.confirmPrimaryText}>Start next phase</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
       <StatusBar style="light" />
     </View>
   );
@@ -1454,4 +1619,7 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#0A0E27',
   },
+  phaseCompleteHint: {
+    marginTop: 8,
+  },
 });
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { BodyPart, CustomSplitDay } from '../types/domain';
+
+const C = {
+  surface:   '#151932',
+  surface2:  '#1A1F3A',
+  primary:   '#6C63FF',
+  text:      '#FFFFFF',
+  textSec:   '#8B93B0',
+  textMuted: '#5A6178',
+  border:    '#2A2F4F',
+  danger:    '#FF6B6B',
+  rowBorder: 'rgba(255,255,255,0.06)',
+} as const;
+
+const BODY_PARTS: { value: BodyPart; label: string }[] = [
+  { value: 'chest',     label: 'Chest' },
+  { value: 'back',      label: 'Back' },
+  { value: 'legs',      label: 'Legs' },
+  { value: 'shoulders', label: 'Shoulders' },
+  { value: 'arms',      label: 'Arms' },
+  { value: 'core',      label: 'Core' },
+];
+
+const MAX_SPLIT_DAYS = 7;
+
+type DraftDay = {
+  id: string;
+  name: string;
+  bodyParts: BodyPart[];
+  tagsText: string;
+};
+
+type CustomSplitBuilderProps = {
+  visible: boolean;
+  days: CustomSplitDay[];
+  onSave: (days: CustomSplitDay[]) => void;
+  onClose: () => void;
+};
+
+const toDraft = (day: CustomSplitDay): DraftDay => ({
+  id: day.id,
+  name: day.name,
+  bodyParts: [...day.bodyParts],
+  tagsText: day.templateTags.join(', '),
+});
+
+const parseTags = (text: string): string[] =>
+  Array.from(
+    new Set(
+      text
+        .split(',')
+        .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '_'))
+        .filter(Boolean)
+    )
+  );
+
+/**
+ * Editor for an ordered list of split days. Days rotate across the week's
+ * training slots in the order shown here.
+ */
+export const CustomSplitBuilder: React.FC<CustomSplitBuilderProps> = ({
+  visible,
+  days,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<DraftDay[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(days.map(toDraft));
+    setError(null);
+  }, [visible, days]);
+
+  const updateDay = (id: string, patch: Partial<DraftDay>) => {
+    setDraft((prev) => prev.map((day) => (day.id === id ? { ...day, ...patch } : day)));
+  };
+
+  const toggleBodyPart = (id: string, part: BodyPart) => {
+    setDraft((prev) =>
+      prev.map((day) => {
+        if (day.id !== id) return day;
+        const bodyParts = day.bodyParts.includes(part)
+          ? day.bodyParts.filter((entry) => entry !== part)
+          : [...day.bodyParts, part];
+        return { ...day, bodyParts };
+      })
+    );
+  };
+
+  const moveDay = (index: number, offset: -1 | 1) => {
+    setDraft((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addDay = () => {
+    setDraft((prev) =>
+      prev.length >= MAX_SPLIT_DAYS
+        ? prev
+        : [
+            ...prev,
+            { id: `day-${Date.now()}-${prev.length}`, name: `Day ${prev.length + 1}`, bodyParts: [], tagsText: '' },
+          ]
+    );
+  };
+
+  const removeDay = (id: string) => {
+    setDraft((prev) => prev.filter((day) => day.id !== id));
+  };
+
+  const handleSave = () => {
+    if (!draft.length) {
+      setError('Add at least one day.');
+      return;
+    }
+    const invalid = draft.find((day) => !day.name.trim() || !day.bodyParts.length);
+    if (invalid) {
+      setError('Every day needs a name and at least one body part.');
+      return;
+    }
+    onSave(
+      draft.map((day) => ({
+        id: day.id,
+        name: day.name.trim(),
+        bodyParts: day.bodyParts,
+        templateTags: parseTags(day.tagsText),
+      }))
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={s.overlay}>
+        <Pressable style={StyleSheet.absoluteFillObject} onPress={onClose} />
+        <View style={s.sheet}>
+          <View style={s.handle} />
+          <View style={s.headerRow}>
+            <Text style={s.title}>Custom Split</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Text style={s.closeX}>✕</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={s.hint}>
+            Days run in this order on your training days. Tags are optional and match workout templates.
+          </Text>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {draft.map((day, index) => (
+              <View key={day.id} style={s.dayCard}>
+                <View style={s.dayHeader}>
+                  <Text style={s.dayIndex}>{index + 1}</Text>
+                  <TextInput
+                    style={s.nameInput}
+                    value={day.name}
+                    onChangeText={(text) => updateDay(day.id, { name: text })}
+                    placeholder="Day name"
+                    placeholderTextColor={C.textMuted}
+                  />
+                  <TouchableOpacity
+                    style={s.iconBtn}
+                    onPress={() => moveDay(index, -1)}
+                    disabled={index === 0}
+                  >
+                    <Text style={[s.iconBtnText, index === 0 && s.iconBtnDisabled]}>↑</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={s.iconBtn}
+                    onPress={() => moveDay(index, 1)}
+                    disabled={index === draft.length - 1}
+                  >
+                    <Text style={[s.iconBtnText, index === draft.length - 1 && s.iconBtnDisabled]}>↓</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={s.iconBtn} onPress={() => removeDay(day.id)}>
+                    <Text style={[s.iconBtnText, s.removeText]}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={s.chipRow}>
+                  {BODY_PARTS.map((part) => {
+                    const isActive = day.bodyParts.includes(part.value);
+                    return (
+                      <TouchableOpacity
+                        key={part.value}
+                        style={[s.chip, isActive && s.chipActive]}
+                        onPress={() => toggleBodyPart(day.id, part.value)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[s.chipText, isActive && s.chipTextActive]}>{part.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <TextInput
+                  style={s.tagsInput}
+                  value={day.tagsText}
+                  onChangeText={(text) => updateDay(day.id, { tagsText: text })}
+                  placeholder="Template tags, e.g. push, upper"
+                  placeholderTextColor={C.textMuted}
+                  autoCapitalize="none"
+                />
+              </View>
+            ))}
+
+            {draft.length < MAX_SPLIT_DAYS && (
+              <TouchableOpacity style={s.addBtn} onPress={addDay} activeOpacity={0.7}>
+                <Text style={s.addBtnText}>+ Add day</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          {error && <Text style={s.errorText}>{error}</Text>}
+          <View style={s.actions}>
+            <TouchableOpacity style={s.cancelBtn} onPress={onClose}>
+              <Text style={s.cancelBtnText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={s.saveBtn} onPress={handleSave}>
+              <Text style={s.saveBtnText}>Save Split</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const s = StyleSheet.create({
+  overlay:        { flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' },
+  sheet:          { maxHeight: '88%', backgroundColor: C.surface, borderTopLeftRadius: 20, borderTopRightRadius: 20, paddingHorizontal: 20, paddingTop: 8, paddingBottom: 28 },
+  handle:         { alignSelf: 'center', width: 36, height: 4, borderRadius: 2, backgroundColor: 'rgba(255,255,255,0.15)', marginBottom: 16 },
+  headerRow:      { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 },
+  title:          { fontSize: 16, fontWeight: '700', color: C.text },
+  closeX:         { fontSize: 14, color: C.textMuted, fontWeight: '600' },
+  hint:           { fontSize: 12, color: C.textMuted, lineHeight: 17, marginBottom: 12 },
+  dayCard:        { backgroundColor: C.surface2, borderRadius: 12, borderWidth: 1, borderColor: C.border, padding: 12, marginBottom: 10 },
+  dayHeader:      { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  dayIndex:       { width: 20, fontSize: 13, fontWeight: '800', color: C.primary },
+  nameInput:      { flex: 1, fontSize: 14, color: C.text, paddingVertical: 6, paddingHorizontal: 8, borderRadius: 8, borderWidth: 1, borderColor: C.border },
+  iconBtn:        { width: 28, height: 28, alignItems: 'center', justifyContent: 'center' },
+  iconBtnText:    { fontSize: 15, fontWeight: '700', color: C.textSec },
+  iconBtnDisabled:{ color: C.textMuted, opacity: 0.4 },
+  removeText:     { color: C.danger, fontSize: 13 },
+  chipRow:        { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 10 },
+  chip:           { paddingVertical: 5, paddingHorizontal: 10, borderRadius: 14, borderWidth: 1, borderColor: C.border },
+  chipActive:     { backgroundColor: 'rgba(108,99,255,0.16)', borderColor: C.primary },
+  chipText:       { fontSize: 12, color: C.textSec, fontWeight: '600' },
+  chipTextActive: { color: C.primary },
+  tagsInput:      { marginTop: 10, fontSize: 13, color: C.text, paddingVertical: 6, paddingHorizontal: 8, borderRadius: 8, borderWidth: 1, borderColor: C.rowBorder },
+  addBtn:         { paddingVertical: 12, alignItems: 'center', borderRadius: 12, borderWidth: 1, borderStyle: 'dashed', borderColor: C.border, marginBottom: 8 },
+  addBtnText:     { fontSize: 14, color: C.primary, fontWeight: '700' },
+  errorText:      { fontSize: 12, color: C.danger, marginTop: 8 },
+  actions:        { flexDirection: 'row', gap: 10, marginTop: 12 },
+  cancelBtn:      { flex: 1, paddingVertical: 12, alignItems: 'center', borderRadius: 10, borderWidth: 1, borderColor: C.border },
+  cancelBtnText:  { fontSize: 14, color: C.textSec, fontWeight: '600' },
+  saveBtn:        { flex: 1, paddingVertical: 12, alignItems: 'center', borderRadius: 10, backgroundColor: C.primary },
+  saveBtnText:    { fontSize: 14, color: C.text, fontWeight: '700' },
+});
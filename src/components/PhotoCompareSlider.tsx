@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import {
+  Image,
+  LayoutChangeEvent,
+  PanResponder,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+const C = {
+  card:      '#0E1225',
+  accent:    '#6C63FF',
+  text:      '#FFFFFF',
+  scrim:     'rgba(7,9,28,0.72)',
+} as const;
+
+const HANDLE_SIZE = 32;
+
+type PhotoCompareSliderProps = {
+  beforeUri: string;
+  afterUri: string;
+  beforeLabel: string;
+  afterLabel: string;
+  /** Width / height of the photos; check-ins are cropped to 3:4. */
+  aspectRatio?: number;
+  /** Lets a parent ScrollView stop scrolling while the handle is dragged. */
+  onDragStateChange?: (dragging: boolean) => void;
+};
+
+/**
+ * Before/after overlay: the "after" photo fills the frame and the "before"
+ * photo is revealed from the left up to the draggable divider.
+ */
+export const PhotoCompareSlider: React.FC<PhotoCompareSliderProps> = ({
+  beforeUri,
+  afterUri,
+  beforeLabel,
+  afterLabel,
+  aspectRatio = 3 / 4,
+  onDragStateChange,
+}) => {
+  const [width, setWidth] = useState(0);
+  const [position, setPosition] = useState(0.5);
+  const widthRef = useRef(0);
+  const startRef = useRef(0.5);
+  const positionRef = useRef(0.5);
+  const dragRef = useRef(onDragStateChange);
+  dragRef.current = onDragStateChange;
+
+  const updatePosition = (next: number) => {
+    const clamped = Math.min(1, Math.max(0, next));
+    positionRef.current = clamped;
+    setPosition(clamped);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: (_, gs) => Math.abs(gs.dx) > Math.abs(gs.dy),
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (evt) => {
+        dragRef.current?.(true);
+        const w = widthRef.current;
+        // Tapping jumps the divider; dragging continues from there
+        const next = w > 0 ? evt.nativeEvent.locationX / w : positionRef.current;
+        updatePosition(next);
+        startRef.current = positionRef.current;
+      },
+      onPanResponderMove: (_, gs) => {
+        const w = widthRef.current;
+        if (w <= 0) return;
+        updatePosition(startRef.current + gs.dx / w);
+      },
+      onPanResponderRelease: () => dragRef.current?.(false),
+      onPanResponderTerminate: () => dragRef.current?.(false),
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const nextWidth = event.nativeEvent.layout.width;
+    widthRef.current = nextWidth;
+    setWidth(nextWidth);
+  };
+
+  const height = width > 0 ? width / aspectRatio : 0;
+  const dividerX = width * position;
+
+  return (
+    <View style={[s.frame, { height }]} onLayout={handleLayout} {...panResponder.panHandlers}>
+      {width > 0 && (
+        <>
+          <Image source={{ uri: afterUri }} style={{ width, height }} resizeMode="cover" />
+          <View style={[s.beforeClip, { width: dividerX, height }]}>
+            <Image source={{ uri: beforeUri }} style={{ width, height }} resizeMode="cover" />
+          </View>
+          <View style={[s.divider, { left: dividerX - 1, height }]} />
+          <View style={[s.handle, { left: dividerX - HANDLE_SIZE / 2, top: height / 2 - HANDLE_SIZE / 2 }]}>
+            <Text style={s.handleText}>‹ ›</Text>
+          </View>
+          <View style={[s.tag, s.tagLeft]}>
+            <Text style={s.tagText}>{beforeLabel}</Text>
+          </View>
+          <View style={[s.tag, s.tagRight]}>
+            <Text style={s.tagText}>{afterLabel}</Text>
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const s = StyleSheet.create({
+  frame: {
+    width: '100%',
+    backgroundColor: C.card,
+    overflow: 'hidden',
+  },
+  beforeClip: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    overflow: 'hidden',
+  },
+  divider: {
+    position: 'absolute',
+    top: 0,
+    width: 2,
+    backgroundColor: C.text,
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: C.accent,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  handleText: {
+    fontSize: 13,
+    fontWeight: '800',
+    color: C.text,
+  },
+  tag: {
+    position: 'absolute',
+    top: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: C.scrim,
+  },
+  tagLeft: { left: 10 },
+  tagRight: { right: 10 },
+  tagText: {
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.6,
+    color: C.text,
+  },
+});
@@ -0,0 +1,149 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useRestTimer } from '../hooks/useRestTimer';
+
+const C = {
+  card:        '#131728',
+  accent:      '#6C63FF',
+  accentDim:   'rgba(108,99,255,0.14)',
+  accentBorder:'rgba(108,99,255,0.3)',
+  success:     '#00F5A0',
+  successBorder:'rgba(0,245,160,0.25)',
+  text:        '#FFFFFF',
+  textMuted:   '#6B7194',
+} as const;
+
+const EXTEND_SECONDS = 15;
+
+const formatClock = (totalSeconds: number) => {
+  const abs = Math.abs(totalSeconds);
+  const minutes = Math.floor(abs / 60);
+  const seconds = abs % 60;
+  return `${totalSeconds < 0 ? '+' : ''}${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+type RestTimerBannerProps = {
+  /** Distance from the bottom edge, so the banner clears the tab bar. */
+  bottomOffset?: number;
+};
+
+export const RestTimerBanner: React.FC<RestTimerBannerProps> = ({ bottomOffset = 108 }) => {
+  const { timer, remainingSeconds, isOvertime, addTime, finish } = useRestTimer();
+  if (!timer) return null;
+
+  const progress = timer.targetSeconds > 0
+    ? Math.min(1, Math.max(0, 1 - remainingSeconds / timer.targetSeconds))
+    : 1;
+
+  return (
+    <View pointerEvents="box-none" style={[s.wrap, { bottom: bottomOffset }]}>
+      <View style={[s.banner, isOvertime && s.bannerOvertime]}>
+        <View style={s.info}>
+          <Text style={s.label}>{isOvertime ? 'Rest over' : 'Resting'}</Text>
+          <Text style={s.exercise} numberOfLines={1}>
+            {timer.exerciseName} · after set {timer.setIndex + 1}
+          </Text>
+        </View>
+        <Text style={[s.clock, isOvertime && s.clockOvertime]}>{formatClock(remainingSeconds)}</Text>
+        <TouchableOpacity style={s.action} onPress={() => addTime(EXTEND_SECONDS)} activeOpacity={0.7}>
+          <Text style={s.actionText}>+{EXTEND_SECONDS}s</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[s.action, s.actionPrimary]}
+          onPress={() => {
+            finish().catch((err) => console.error('Failed to finish rest timer', err));
+          }}
+          activeOpacity={0.7}
+        >
+          <Text style={[s.actionText, s.actionPrimaryText]}>{isOvertime ? 'Done' : 'Skip'}</Text>
+        </TouchableOpacity>
+        <View style={s.track}>
+          <View
+            style={[s.fill, isOvertime && s.fillOvertime, { width: `${Math.round(progress * 100)}%` }]}
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const s = StyleSheet.create({
+  wrap: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 14,
+    paddingTop: 12,
+    paddingBottom: 14,
+    borderRadius: 16,
+    backgroundColor: C.card,
+    borderWidth: 1,
+    borderColor: C.accentBorder,
+    overflow: 'hidden',
+  },
+  bannerOvertime: {
+    borderColor: C.successBorder,
+  },
+  info: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.6,
+    textTransform: 'uppercase',
+    color: C.textMuted,
+  },
+  exercise: {
+    marginTop: 2,
+    fontSize: 13,
+    fontWeight: '600',
+    color: C.text,
+  },
+  clock: {
+    fontSize: 20,
+    fontWeight: '800',
+    fontVariant: ['tabular-nums'],
+    color: C.text,
+  },
+  clockOvertime: {
+    color: C.success,
+  },
+  action: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: C.accentDim,
+  },
+  actionPrimary: {
+    backgroundColor: C.accent,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: C.accent,
+  },
+  actionPrimaryText: {
+    color: C.text,
+  },
+  track: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 3,
+    backgroundColor: C.accentDim,
+  },
+  fill: {
+    height: 3,
+    backgroundColor: C.accent,
+  },
+  fillOvertime: {
+    backgroundColor: C.success,
+  },
+});
@@ -3,3 +3,4 @@ export { useSupabaseExercises } from './useSupabaseExercises';
 export { useHomeScreenData } from './useHomeScreenData';
 export { useWorkoutSessions } from './useWorkoutSessions';
 export { useWorkoutTemplates } from './useWorkoutTemplates';
+export { usePhotoCheckins } from './usePhotoCheckins';
@@ -1,4 +1,5 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AppState as RNAppState } from 'react-native';
 import {
   AppState,
   User,
@@ -8,9 +9,14 @@ import {
   createEmptyAppState,
   WorkoutSessionEntry,
   WorkoutSessionExercise,
+  WorkoutSetEntry,
   PlanDay,
+  HabitLog,
+  HabitType,
+  BodyWeightEntry,
 } from '../types/domain';
 import { buildWorkoutAnalytics } from '../utils/workoutAnalytics';
+import { updatePersonalRecordHistory } from '../utils/personalRecords';
 import {
   fetchWorkoutSessionEntries,
   createSessionFromPlanWorkout,
@@ -19,10 +25,10 @@ import {
   markAllExercisesComplete,
   ensureSetsForExercises,
   sessionHasLoggedProgress,
-  addExerciseToSession,
   upsertWorkoutSessionWithExercises,
 } from '../services/workoutService';
 import { getAppTimeZone } from '../utils/time';
+import { areAllSetsLogged, isSameExercise } from '../utils/setLogging';
 import { formatLocalDateYMD } from '../utils/date';
 import {
   arePlanExerciseValuesEqual,
@@ -36,31 +42,170 @@ import {
   deletePlanExercise,
   ensurePlanWorkoutForDate,
   swapPlanExerciseForDate,
+  PlanExerciseInput,
+  toPlanExerciseInputs,
+  movePlanDay as moveRemotePlanDay,
+  copyPlanDay as copyRemotePlanDay,
 } from '../services/planRuntimeService';
+import {
+  AppStateSnapshotResult,
+  clearAppStateSnapshot,
+  loadAppStateSnapshot,
+  saveAppStateSnapshot,
+} from '../services/appStateStorage';
+import {
+  PendingMutation,
+  clearMutationQueue,
+  enqueueMutation,
+  isNetworkError,
+  loadMutationQueue,
+  replayMutationQueue,
+  runOrQueueMutation,
+} from '../services/mutationQueue';
+import { getCurrentUser } from '../services/authService';
+import { fetchUserProfile } from '../services/userProfileService';
+import { fetchHomeData } from '../services/dashboardService';
+import type { RestTimerRecord } from '../services/restTimerService';
+import { createEmptyHabits } from '../services/habitService';
+import type { BodyWeightLogValues } from '../services/bodyWeightService';
+import { createBodyWeightLookup } from '../utils/bodyWeightTrend';
+import { ProgressionTarget, buildProgressedPlanExercises } from '../utils/progressionEngine';
+import { getUnitSystem } from '../utils/units';
+import {
+  buildDeloadPlanExercises,
+  collectDeloadedWeeks,
+  getPhaseWeekDates,
+  getPhaseWeekIndex,
+  isRecoverySignalSpike,
+  resolveDeloadWeeks,
+} from '../utils/deloadSchedule';
+import { fetchSwapReasonSignals } from '../services/progressService';
+import { buildDailyConsistencyLogs } from '../utils/consistencyLogs';
+import {
+  EMPTY_PLAN_EDIT_HISTORY,
+  PlanEditHistory,
+  PlanEditKind,
+  classifyPlanEdit,
+  pushPlanEdit,
+} from '../utils/planEditHistory';
+import { calculateProgress } from '../utils/progressCalculator';
+import {
+  MissedWorkout,
+  MissedWorkoutOption,
+  fetchMissedWorkout,
+  resolveMissedWorkout as resolveRemoteMissedWorkout,
+} from '../services/missedWorkoutService';
+
+const SNAPSHOT_DEBOUNCE_MS = 500;
+const MUTATION_RETRY_INTERVAL_MS = 30000;
+
+// Re-key a plan day and its template exercise ids for another date
+const relocatePlanDay = (day: PlanDay, date: string): PlanDay => {
+  const dayId = `virtual:${day.planId}:${date}`;
+  return {
+    ...day,
+    id: dayId,
+    date,
+    workout: day.workout && {
+      ...day.workout,
+      id: dayId,
+      planDayId: dayId,
+      exercises: day.workout.exercises.map((exercise) => {
+        const templateExerciseId = exercise.id.startsWith('tpl:') ? exercise.id.split(':').pop() : null;
+        return {
+          ...exercise,
+          id: templateExerciseId ? `tpl:${day.planId}:${date}:${templateExerciseId}` : exercise.id,
+          planWorkoutId: dayId,
+        };
+      }),
+    },
+  };
+};
+
+const relocatePlannedDays = (
+  days: PlanDay[],
+  planId: string,
+  fromDate: string,
+  toDate: string,
+  mode: 'move' | 'copy'
+): PlanDay[] => {
+  const source = days.find((day) => day.planId === planId && day.date === fromDate);
+  if (!source) return days;
+  const target = days.find((day) => day.planId === planId && day.date === toDate);
+  const next = days.filter((day) => day !== source && day !== target);
+  next.push(relocatePlanDay(source, toDate));
+  if (mode === 'copy') {
+    next.push(source);
+  } else if (target) {
+    next.push(relocatePlanDay(target, fromDate));
+  }
+  return next.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Plan inputs for exercises built as session entries, numbered from
+ * `firstDisplayOrder` where unordered. Callers have already checked that
+ * each one has an exerciseId.
+ */
+const sessionExercisesToPlanInputs = (
+  exercises: WorkoutSessionExercise[],
+  firstDisplayOrder = 1
+): PlanExerciseInput[] =>
+  toPlanExerciseInputs(
+    exercises.map((exercise, index) => ({
+      ...exercise,
+      exerciseId: exercise.exerciseId!,
+      bodyParts: exercise.bodyParts ?? [],
+      displayOrder: exercise.displayOrder ?? firstDisplayOrder + index,
+    }))
+  );
+
+const getPlannedInputs = (state: AppState, planId: string, date: string): PlanExerciseInput[] =>
+  toPlanExerciseInputs(
+    state.plannedWorkouts.find((day) => day.planId === planId && day.date === date)?.workout
+      ?.exercises ?? []
+  );
+
+/**
+ * Session-derived state: logs and snapshots under the user's 1RM formula,
+ * plus the record history with newly detected PRs merged in. Bodyweight
+ * lifts are scored against the trend weight on each session's date.
+ */
+const deriveSessionAnalytics = (
+  prev: AppState,
+  sessions: WorkoutSessionEntry[],
+  user: User | null = prev.user,
+  bodyWeightLogs: BodyWeightEntry[] = prev.bodyWeightLogs
+): Pick<AppState, 'workoutSessions' | 'workoutLogs' | 'strengthSnapshots' | 'personalRecords'> => {
+  const analytics = buildWorkoutAnalytics(
+    sessions,
+    undefined,
+    user?.trackingPreferences?.oneRepMaxFormula,
+    createBodyWeightLookup(bodyWeightLogs, user?.weightKg)
+  );
+  return {
+    workoutSessions: sessions,
+    workoutLogs: analytics.workoutLogs,
+    strengthSnapshots: analytics.strengthSnapshots,
+    personalRecords: updatePersonalRecordHistory(prev.personalRecords, analytics.strengthSnapshots),
+  };
+};
 
 export const useAppState = () => {
   const [state, setState] = useState<AppState | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const stateRef = useRef<AppState | null>(null);
-  const lastWorkoutSwapRef = useRef<{
-    userId: string;
-    planId: string;
-    date: string;
-    targetPlanExerciseId: string;
-    previous: {
-      exerciseId: string;
-      name: string;
-      bodyParts: string[];
-      movementPattern?: string | null;
-      sets?: number | null;
-      reps?: string | null;
-      displayOrder?: number | null;
-      notes?: string | null;
-      sourceTemplateExerciseId?: string | null;
-    };
-  } | null>(null);
-  const [lastWorkoutSwapVersion, setLastWorkoutSwapVersion] = useState(0);
+  const planEditHistoryRef = useRef<Record<string, PlanEditHistory>>({});
+  const [planEditHistoryVersion, setPlanEditHistoryVersion] = useState(0);
+  const [pendingMutationCount, setPendingMutationCount] = useState(0);
+  const [needsRemoteRehydrate, setNeedsRemoteRehydrate] = useState(false);
+  const progressedSessionIdsRef = useRef<Set<string> | null>(null);
+  const deloadCheckedWeekRef = useRef<string | null>(null);
+  // Plan whose days have been fetched this run; cached days may be stale
+  const [plannedWorkoutsPlanId, setPlannedWorkoutsPlanId] = useState<string | null>(null);
+  const missedCheckedKeyRef = useRef<string | null>(null);
+  const [missedWorkout, setMissedWorkout] = useState<MissedWorkout | null>(null);
   const nextWorkoutVersion = (base?: AppState | null) =>
     (base?.workoutDataVersion ?? 0) + 1;
 
@@ -95,15 +240,46 @@ export const useAppState = () => {
   }, [state]);
 
   useEffect(() => {
-    // Initialize with empty state - no persistent storage
-    setState(createEmptyAppState());
-    setIsLoading(false);
+    let cancelled = false;
+    // Restore the last local snapshot so offline edits survive a cold start
+    const restore = async () => {
+      let snapshot: AppStateSnapshotResult = { status: 'empty' };
+      try {
+        snapshot = await loadAppStateSnapshot();
+      } catch (err) {
+        console.warn('Failed to restore app state snapshot:', err);
+      }
+      if (cancelled) return;
+      if (snapshot.status === 'restored') {
+        setState(snapshot.state);
+      } else {
+        setState(createEmptyAppState());
+        setNeedsRemoteRehydrate(snapshot.status === 'unrecoverable');
+      }
+      setIsLoading(false);
+    };
+    void restore();
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
+  useEffect(() => {
+    if (!state) return;
+    const timer = setTimeout(() => {
+      saveAppStateSnapshot(state).catch((err) => {
+        console.warn('Failed to persist app state snapshot:', err);
+      });
+    }, SNAPSHOT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [state]);
+
   const updateState = useCallback((updater: (prev: AppState) => AppState) => {
     setState((prev) => {
       const base = prev ?? createEmptyAppState();
-      return updater(base);
+      const next = updater(base);
+      if (next === base) return base;
+      return { ...next, lastModified: new Date().toISOString() };
     });
   }, []);
 
@@ -111,12 +287,9 @@ export const useAppState = () => {
     (updater: (sessions: WorkoutSessionEntry[]) => WorkoutSessionEntry[]) => {
       updateState((prev) => {
         const nextSessions = updater(prev.workoutSessions);
-        const analytics = buildWorkoutAnalytics(nextSessions);
         return {
           ...prev,
-          workoutSessions: nextSessions,
-          workoutLogs: analytics.workoutLogs,
-          strengthSnapshots: analytics.strengthSnapshots,
+          ...deriveSessionAnalytics(prev, nextSessions),
           workoutDataVersion: nextWorkoutVersion(prev),
         };
       });
@@ -130,6 +303,8 @@ export const useAppState = () => {
       phase?: PhasePlan | null;
       workoutSessions?: WorkoutSessionEntry[];
       plannedWorkouts?: PlanDay[];
+      habitLogs?: HabitLog[];
+      bodyWeightLogs?: BodyWeightEntry[];
     }) => {
       updateState((prev) => {
         const nextPhase = payload.phase !== undefined ? payload.phase : prev.currentPhase;
@@ -141,16 +316,22 @@ export const useAppState = () => {
                 (session) => !nextPhaseId || session.phasePlanId === nextPhaseId
               )
             : prev.workoutSessions;
-        const analytics = buildWorkoutAnalytics(nextSessions);
+        const nextUser = payload.user !== undefined ? payload.user : prev.user;
+        const nextBodyWeightLogs = payload.bodyWeightLogs ?? prev.bodyWeightLogs;
         return {
           ...prev,
-          user: payload.user !== undefined ? payload.user : prev.user,
+          ...deriveSessionAnalytics(prev, nextSessions, nextUser, nextBodyWeightLogs),
+          user: nextUser,
+          bodyWeightLogs: nextBodyWeightLogs,
           currentPhase: nextPhase,
-          workoutSessions: nextSessions,
           plannedWorkouts:
             payload.plannedWorkouts !== undefined ? payload.plannedWorkouts : prev.plannedWorkouts,
-          workoutLogs: analytics.workoutLogs,
-          strengthSnapshots: analytics.strengthSnapshots,
+          habitLogs:
+            payload.habitLogs !== undefined
+              ? payload.habitLogs
+              : phaseChanged
+                ? []
+                : prev.habitLogs,
           workoutDataVersion:
             payload.workoutSessions !== undefined || phaseChanged
               ? nextWorkoutVersion(prev)
@@ -161,11 +342,53 @@ export const useAppState = () => {
     [updateState]
   );
 
+  // A snapshot that could not be migrated is discarded; rebuild from Supabase
+  useEffect(() => {
+    if (!needsRemoteRehydrate) return;
+    let cancelled = false;
+    const rehydrate = async () => {
+      try {
+        const authUser = await getCurrentUser();
+        if (!authUser || cancelled) return;
+        const [profile, homeData] = await Promise.all([
+          fetchUserProfile(authUser.id),
+          fetchHomeData(authUser.id),
+        ]);
+        if (cancelled) return;
+        hydrateFromRemote({
+          user: profile ?? undefined,
+          phase: homeData.phase ?? null,
+          workoutSessions: homeData.recentSessions,
+          habitLogs: homeData.habitLogs,
+          bodyWeightLogs: homeData.bodyWeightLogs,
+        });
+      } catch (err) {
+        console.error('Failed to rehydrate app state from Supabase:', err);
+      } finally {
+        if (!cancelled) setNeedsRemoteRehydrate(false);
+      }
+    };
+    void rehydrate();
+    return () => {
+      cancelled = true;
+    };
+  }, [hydrateFromRemote, needsRemoteRehydrate]);
+
   const updateUser = useCallback((user: User) => {
-    updateState((prev) => ({
-      ...prev,
-      user,
-    }));
+    updateState((prev) => {
+      const formulaChanged =
+        user.trackingPreferences?.oneRepMaxFormula !== prev.user?.trackingPreferences?.oneRepMaxFormula;
+      // Profile weight stands in for bodyweight lifts logged before the first weigh-in
+      const weightChanged = (user.weightKg ?? null) !== (prev.user?.weightKg ?? null);
+      if (!formulaChanged && !weightChanged) return { ...prev, user };
+      // Estimated maxes and the records built on them follow the new formula or weight
+      return {
+        ...prev,
+        ...deriveSessionAnalytics(prev, prev.workoutSessions, user),
+        user,
+        workoutDataVersion: nextWorkoutVersion(prev),
+      };
+    });
   }, [updateState]);
 
   const startPhase = useCallback((phase: PhasePlan) => {
@@ -174,6 +397,7 @@ export const useAppState = () => {
       currentPhase: phase,
       workoutSessions: [],
       plannedWorkouts: [],
+      habitLogs: [],
       workoutLogs: [],
       strengthSnapshots: [],
       workoutDataVersion: nextWorkoutVersion(prev),
@@ -194,6 +418,36 @@ export const useAppState = () => {
     }));
   }, [updateState]);
 
+  const dailyConsistency = useMemo(() => {
+    if (!state?.currentPhase) return [];
+    return buildDailyConsistencyLogs({
+      phase: state.currentPhase,
+      sessions: state.workoutSessions,
+      plannedWorkouts: state.plannedWorkouts,
+      habitLogs: state.habitLogs,
+      user: state.user,
+    });
+  }, [state?.currentPhase, state?.habitLogs, state?.plannedWorkouts, state?.workoutSessions, state?.user]);
+
+  // Keep the stored estimate in step with the consistency logs; only a
+  // changed figure is written so lastUpdated doesn't churn the snapshot.
+  useEffect(() => {
+    const phase = state?.currentPhase;
+    if (isLoading || !phase || phase.status !== 'active') return;
+    const estimate = calculateProgress(phase, dailyConsistency);
+    const previous = state?.progressEstimate;
+    if (
+      previous &&
+      previous.phasePlanId === estimate.phasePlanId &&
+      previous.progressPercent === estimate.progressPercent &&
+      previous.daysActive === estimate.daysActive &&
+      previous.daysLogged === estimate.daysLogged
+    ) {
+      return;
+    }
+    updateProgress(estimate);
+  }, [dailyConsistency, isLoading, state?.currentPhase, state?.progressEstimate, updateProgress]);
+
   const completePhase = useCallback(() => {
     updateState((prev) => {
       if (!prev.currentPhase) return prev;
@@ -213,14 +467,11 @@ export const useAppState = () => {
         planId,
         getAppTimeZone()
       );
-      const analytics = buildWorkoutAnalytics(remoteSessions);
       setState((prev) => {
         if (!prev) return prev;
         return {
           ...prev,
-          workoutSessions: remoteSessions,
-          workoutLogs: analytics.workoutLogs,
-          strengthSnapshots: analytics.strengthSnapshots,
+          ...deriveSessionAnalytics(prev, remoteSessions),
           workoutDataVersion: nextWorkoutVersion(prev),
         };
       });
@@ -260,6 +511,7 @@ export const useAppState = () => {
             plannedWorkouts: planned,
           };
         });
+        setPlannedWorkoutsPlanId(planId);
         return planned;
       } catch (err) {
         console.error('Failed to load planned workouts from Supabase:', err);
@@ -269,6 +521,234 @@ export const useAppState = () => {
     []
   );
 
+  const refreshPendingMutationCount = useCallback(async () => {
+    const queue = await loadMutationQueue();
+    setPendingMutationCount(queue.length);
+  }, []);
+
+  /** Flips one habit for a day; the whole day's flags are written together. */
+  const toggleHabit = useCallback(
+    async (date: string, habit: HabitType) => {
+      const current = stateRef.current;
+      if (!current?.user || !current.currentPhase) return;
+      const userId = current.user.id;
+      const planId = current.currentPhase.id;
+      const existing = current.habitLogs.find(
+        (log) => log.phasePlanId === planId && log.date === date
+      );
+      const habits = {
+        ...(existing?.habits ?? createEmptyHabits()),
+        [habit]: !(existing?.habits[habit] ?? false),
+      };
+      const nextLog: HabitLog = {
+        id: existing?.id ?? `local:${planId}:${date}`,
+        date,
+        phasePlanId: planId,
+        habits,
+      };
+      const writeLog = (log: HabitLog) =>
+        updateState((prev) => ({
+          ...prev,
+          habitLogs: [
+            ...prev.habitLogs.filter(
+              (entry) => !(entry.phasePlanId === planId && entry.date === date)
+            ),
+            log,
+          ].sort((a, b) => a.date.localeCompare(b.date)),
+        }));
+
+      writeLog(nextLog);
+      try {
+        const outcome = await runOrQueueMutation({
+          kind: 'upsert_habit_log',
+          userId,
+          planId,
+          date,
+          habits,
+        });
+        if (outcome === 'queued') {
+          await refreshPendingMutationCount();
+        }
+      } catch (err) {
+        if (existing) {
+          writeLog(existing);
+        } else {
+          updateState((prev) => ({
+            ...prev,
+            habitLogs: prev.habitLogs.filter((entry) => entry.id !== nextLog.id),
+          }));
+        }
+        throw err;
+      }
+    },
+    [refreshPendingMutationCount, updateState]
+  );
+
+  /**
+   * Records the day's weigh-in and/or intake, keeping whichever field is not
+   * given, and rescores bodyweight lifts against the new trend.
+   */
+  const logBodyWeight = useCallback(
+    async (date: string, values: BodyWeightLogValues) => {
+      const current = stateRef.current;
+      if (!current?.user) return;
+      const userId = current.user.id;
+      const existing = current.bodyWeightLogs.find((entry) => entry.date === date);
+      const nextEntry: BodyWeightEntry = {
+        id: existing?.id ?? `local:${userId}:${date}`,
+        date,
+        weightKg: values.weightKg ?? existing?.weightKg ?? null,
+        intakeKcal: values.intakeKcal ?? existing?.intakeKcal ?? null,
+      };
+      const writeEntries = (update: (entries: BodyWeightEntry[]) => BodyWeightEntry[]) =>
+        updateState((prev) => {
+          const bodyWeightLogs = update(prev.bodyWeightLogs);
+          return {
+            ...prev,
+            ...deriveSessionAnalytics(prev, prev.workoutSessions, prev.user, bodyWeightLogs),
+            bodyWeightLogs,
+            workoutDataVersion: nextWorkoutVersion(prev),
+          };
+        });
+      const replaceDay = (entry: BodyWeightEntry) => (entries: BodyWeightEntry[]) =>
+        [...entries.filter((item) => item.date !== date), entry].sort((a, b) =>
+          a.date.localeCompare(b.date)
+        );
+
+      writeEntries(replaceDay(nextEntry));
+      try {
+        const outcome = await runOrQueueMutation({
+          kind: 'upsert_body_weight',
+          userId,
+          date,
+          ...values,
+        });
+        if (outcome === 'queued') {
+          await refreshPendingMutationCount();
+        }
+      } catch (err) {
+        writeEntries(
+          existing
+            ? replaceDay(existing)
+            : (entries) => entries.filter((item) => item.id !== nextEntry.id)
+        );
+        throw err;
+      }
+    },
+    [refreshPendingMutationCount, updateState]
+  );
+
+  const queueMutation = useCallback(
+    async (mutation: PendingMutation) => {
+      const queue = await enqueueMutation(mutation);
+      setPendingMutationCount(queue.length);
+    },
+    []
+  );
+
+  /**
+   * Replays queued offline mutations and, once nothing is left pending,
+   * pulls fresh sessions and plan days so server-side ids replace local ones.
+   */
+  const syncPendingMutations = useCallback(
+    async (forceRefresh = false) => {
+      let applied = 0;
+      try {
+        const result = await replayMutationQueue();
+        setPendingMutationCount(result.remaining);
+        if (result.remaining > 0) return;
+        applied = result.applied + result.dropped;
+      } catch (err) {
+        console.warn('Failed to replay pending mutations:', err);
+        return;
+      }
+      if (!applied && !forceRefresh) return;
+      const current = stateRef.current;
+      if (!current?.user || !current.currentPhase) return;
+      await Promise.all([
+        loadWorkoutSessionsFromSupabase(current.user.id, current.currentPhase.id),
+        loadPlannedWorkoutsFromSupabase(current.user.id, current.currentPhase.id),
+      ]);
+    },
+    [loadPlannedWorkoutsFromSupabase, loadWorkoutSessionsFromSupabase]
+  );
+
+  useEffect(() => {
+    if (isLoading) return;
+    void syncPendingMutations(true);
+    const subscription = RNAppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') {
+        void syncPendingMutations();
+      }
+    });
+    return () => {
+      subscription.remove();
+    };
+  }, [isLoading, syncPendingMutations]);
+
+  useEffect(() => {
+    if (!pendingMutationCount) return;
+    const interval = setInterval(() => {
+      void syncPendingMutations();
+    }, MUTATION_RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingMutationCount, syncPendingMutations]);
+
+  const applyOptimisticPlanExercises = useCallback(
+    (planId: string, date: string, inputs: PlanExerciseInput[], mode: 'replace' | 'append') => {
+      updateState((prev) => {
+        const existingDay = prev.plannedWorkouts.find(
+          (day) => day.planId === planId && day.date === date
+        );
+        const workoutId = existingDay?.workout?.id ?? `virtual:${planId}:${date}`;
+        const baseExercises = mode === 'append' ? existingDay?.workout?.exercises ?? [] : [];
+        const nextExercises = [
+          ...baseExercises,
+          ...inputs.map((input, index) => ({
+            id: input.sourceTemplateExerciseId
+              ? `tpl:${planId}:${date}:${input.sourceTemplateExerciseId}`
+              : `local:${planId}:${date}:${input.exerciseId}:${baseExercises.length + index}`,
+            planWorkoutId: workoutId,
+            exerciseId: input.exerciseId,
+            name: input.name,
+            bodyParts: input.bodyParts ?? [],
+            movementPattern: input.movementPattern ?? undefined,
+            sets: input.sets ?? undefined,
+            reps: input.reps ?? undefined,
+            displayOrder: input.displayOrder ?? baseExercises.length + index + 1,
+            notes: input.notes ?? undefined,
+            sourceTemplateExerciseId: input.sourceTemplateExerciseId ?? null,
+            group: input.group ?? null,
+            repTarget: input.repTarget ?? null,
+            measurementType: input.measurementType ?? null,
+            loadMode: input.loadMode ?? null,
+          })),
+        ];
+        const nextDay: PlanDay = {
+          id: existingDay?.id ?? `virtual:${planId}:${date}`,
+          planId,
+          userId: existingDay?.userId ?? prev.user?.id ?? '',
+          date,
+          workout: {
+            id: workoutId,
+            planDayId: existingDay?.workout?.planDayId ?? `virtual:${planId}:${date}`,
+            title: existingDay?.workout?.title ?? null,
+            sourceTemplateId: existingDay?.workout?.sourceTemplateId ?? null,
+            sourceType: existingDay?.workout?.sourceType ?? 'template',
+            exercises: nextExercises,
+          },
+        };
+        return {
+          ...prev,
+          plannedWorkouts: existingDay
+            ? prev.plannedWorkouts.map((day) => (day === existingDay ? nextDay : day))
+            : [...prev.plannedWorkouts, nextDay],
+        };
+      });
+    },
+    [updateState]
+  );
+
   const buildSourceExercisesForDate = useCallback(
     (
       current: AppState,
@@ -293,6 +773,10 @@ export const useAppState = () => {
             completed: false,
             displayOrder: exercise.displayOrder,
             notes: exercise.notes,
+            group: exercise.group ?? null,
+            repTarget: exercise.repTarget ?? null,
+            measurementType: exercise.measurementType ?? null,
+            loadMode: exercise.loadMode ?? null,
           }));
     },
     []
@@ -443,6 +927,47 @@ export const useAppState = () => {
 
       let exercise = findExercise(session);
 
+      // Optimistic sessions have no server rows yet: write an explicit
+      // completion state that can be replayed later if we are offline
+      if (session.id.startsWith('local:') && exercise) {
+        const localSession = session;
+        const target = exercise;
+        const willComplete = !(target.completed ?? false);
+        applyOptimisticWorkoutSessions((sessions) =>
+          sessions.map((entry) =>
+            entry.id !== localSession.id
+              ? entry
+              : {
+                  ...entry,
+                  exercises: entry.exercises.map((entryExercise) =>
+                    entryExercise.id !== target.id
+                      ? entryExercise
+                      : { ...entryExercise, completed: willComplete }
+                  ),
+                }
+          )
+        );
+        const outcome = await runOrQueueMutation({
+          kind: 'set_exercise_completion',
+          userId: current.user.id,
+          planId: phaseId,
+          date,
+          exerciseId: target.exerciseId ?? null,
+          exerciseName: target.name,
+          completed: willComplete,
+          exercises: localSession.exercises.map((entryExercise) => ({
+            ...entryExercise,
+            id: undefined,
+          })),
+        });
+        if (outcome === 'queued') {
+          await refreshPendingMutationCount();
+          return;
+        }
+        await refreshWorkoutSessions(current.user.id, phaseId);
+        return;
+      }
+
       // If session has no exercises, upsert and re-fetch
       if ((!exercise || !exercise.id) && session.exercises.length === 0) {
         const sourceExercises = buildSourceExercises();
@@ -478,8 +1003,19 @@ export const useAppState = () => {
       }
       if (!session) return;
 
+      const willComplete = !(exercise.completed ?? false);
+      const completionMutation: PendingMutation = {
+        kind: 'set_exercise_completion',
+        userId: current.user.id,
+        planId: phaseId,
+        date,
+        exerciseId: exercise.exerciseId ?? null,
+        exerciseName: exercise.name,
+        completed: willComplete,
+        exercises: session.exercises,
+      };
+
       try {
-        const willComplete = !(exercise.completed ?? false);
         applyOptimisticWorkoutSessions((sessions) =>
           sessions.map((entry) =>
             entry.id !== session.id
@@ -498,6 +1034,13 @@ export const useAppState = () => {
           )
         );
 
+        // Earlier offline edits must land first; queue behind them
+        const pending = await loadMutationQueue();
+        if (pending.length) {
+          await queueMutation(completionMutation);
+          return;
+        }
+
         if (willComplete) {
           await ensureSetsForExercises([exercise]);
         }
@@ -509,6 +1052,10 @@ export const useAppState = () => {
 
         await refreshWorkoutSessions(current.user.id, current.currentPhase.id);
       } catch (error) {
+        if (isNetworkError(error)) {
+          await queueMutation(completionMutation);
+          return;
+        }
         console.error('Failed to toggle exercise:', error);
         await refreshWorkoutSessions(current.user.id, current.currentPhase.id);
         throw error;
@@ -518,6 +1065,8 @@ export const useAppState = () => {
       buildSourceExercisesForDate,
       ensurePersistedSessionForDate,
       findSessionForDate,
+      queueMutation,
+      refreshPendingMutationCount,
       refreshWorkoutSessions
     ]);
 
@@ -562,6 +1111,385 @@ export const useAppState = () => {
     },
     [applyOptimisticWorkoutSessions, ensurePersistedSessionForDate, refreshWorkoutSessions]);
 
+  /**
+   * Writes per-set results for one exercise. The exercise is marked completed
+   * once every prescribed set has been logged; warm-up sets are kept as they
+   * are unless new ones are passed.
+   */
+  const logExerciseSets = useCallback(
+    async (
+      date: string,
+      target: Pick<WorkoutSessionExercise, 'exerciseId' | 'name'>,
+      setDetails: WorkoutSetEntry[],
+      warmupSets?: WorkoutSetEntry[]
+    ) => {
+      const current = stateRef.current;
+      if (!current || !current.currentPhase || !current.user) return;
+      const todayKey = formatLocalDateYMD(new Date());
+      if (date > todayKey) {
+        console.warn('Blocked set logging for future workout date:', date);
+        return;
+      }
+      const phaseId = current.currentPhase.id;
+      const session = findSessionForDate(current.workoutSessions, phaseId, date);
+      const baseExercises = session?.exercises.length
+        ? session.exercises
+        : buildSourceExercisesForDate(current, phaseId, date);
+      if (!baseExercises.some((exercise) => isSameExercise(exercise, target))) {
+        console.error('Exercise not found for set logging:', target.name, target.exerciseId);
+        return;
+      }
+
+      const allLogged = areAllSetsLogged(setDetails);
+      const nextExercises = baseExercises.map((exercise) =>
+        isSameExercise(exercise, target)
+          ? {
+              ...exercise,
+              setDetails,
+              warmupSets: warmupSets ?? exercise.warmupSets,
+              completed: allLogged ? true : exercise.completed ?? false,
+            }
+          : exercise
+      );
+      const sessionId = session?.id ?? `local:${phaseId}:${date}`;
+
+      applyOptimisticWorkoutSessions((sessions) => [
+        ...sessions.filter((entry) => !(entry.phasePlanId === phaseId && entry.date === date)),
+        {
+          id: sessionId,
+          phasePlanId: phaseId,
+          date,
+          exercises: nextExercises.map((exercise, index) => ({
+            ...exercise,
+            id: exercise.id ?? `local:${phaseId}:${date}:${exercise.exerciseId ?? exercise.name}:${index}`,
+          })),
+          notes: session?.notes,
+          completed: nextExercises.every((exercise) => exercise.completed === true),
+        },
+      ]);
+
+      const outcome = await runOrQueueMutation({
+        kind: 'upsert_session',
+        userId: current.user.id,
+        planId: phaseId,
+        date,
+        exercises: nextExercises.map((exercise) => ({ ...exercise, id: undefined })),
+      });
+      if (outcome === 'queued') {
+        await refreshPendingMutationCount();
+        return;
+      }
+      await refreshWorkoutSessions(current.user.id, phaseId);
+    },
+    [
+      applyOptimisticWorkoutSessions,
+      buildSourceExercisesForDate,
+      findSessionForDate,
+      refreshPendingMutationCount,
+      refreshWorkoutSessions,
+    ]
+  );
+
+  /**
+   * Stores the measured rest after a logged set. Only that set's row is
+   * written, so it never overlaps a whole-session write of sets logged since;
+   * later session writes carry the rest from state.
+   */
+  const recordSetRest = useCallback(
+    async (record: RestTimerRecord) => {
+      const current = stateRef.current;
+      if (!current?.currentPhase || !current.user) return;
+      const phaseId = current.currentPhase.id;
+      const session = findSessionForDate(current.workoutSessions, phaseId, record.date);
+      const target = { exerciseId: record.exerciseId ?? undefined, name: record.exerciseName };
+      const exercise = session?.exercises.find((entry) => isSameExercise(entry, target));
+      const set = exercise?.setDetails?.[record.setIndex];
+      if (!session || !set) return;
+
+      applyOptimisticWorkoutSessions((sessions) =>
+        sessions.map((entry) =>
+          entry.id === session.id
+            ? {
+                ...entry,
+                exercises: entry.exercises.map((item) =>
+                  isSameExercise(item, target)
+                    ? {
+                        ...item,
+                        setDetails: item.setDetails?.map((detail, index) =>
+                          index === record.setIndex ? { ...detail, restSeconds: record.restSeconds } : detail
+                        ),
+                      }
+                    : item
+                ),
+              }
+            : entry
+        )
+      );
+
+      const outcome = await runOrQueueMutation({
+        kind: 'record_set_rest',
+        userId: current.user.id,
+        planId: phaseId,
+        date: record.date,
+        exerciseId: record.exerciseId ?? null,
+        exerciseName: record.exerciseName,
+        setNumber: set.setNumber ?? record.setIndex + 1,
+        restSeconds: record.restSeconds,
+      });
+      if (outcome === 'queued') {
+        await refreshPendingMutationCount();
+      }
+    },
+    [applyOptimisticWorkoutSessions, findSessionForDate, refreshPendingMutationCount]
+  );
+
+  /**
+   * Rewrites a planned day's sets, reps and notes with progression targets
+   * derived from logged history, following the user's adaptation mode.
+   */
+  const applyProgressionForDate = useCallback(
+    async (date: string): Promise<ProgressionTarget[]> => {
+      const current = stateRef.current;
+      if (!current?.user || !current.currentPhase) return [];
+      const userId = current.user.id;
+      const planId = current.currentPhase.id;
+      const planned = current.plannedWorkouts.find(
+        (day) => day.planId === planId && day.date === date
+      );
+      const exercises = planned?.workout?.exercises ?? [];
+      if (!exercises.length) return [];
+
+      const progressed = buildProgressedPlanExercises(exercises, {
+        snapshots: current.strengthSnapshots,
+        sessions: current.workoutSessions,
+        date,
+        mode: current.user.planPreferences?.adaptationMode ?? 'balanced',
+        unitSystem: getUnitSystem(current.user),
+      });
+      if (!progressed) return [];
+
+      const inputs = toPlanExerciseInputs(progressed.exercises);
+      const outcome = await runOrQueueMutation({
+        kind: 'replace_plan_exercises',
+        userId,
+        planId,
+        date,
+        exercises: inputs,
+      });
+      if (outcome === 'queued') {
+        applyOptimisticPlanExercises(planId, date, inputs, 'replace');
+        await refreshPendingMutationCount();
+      } else {
+        await loadPlannedWorkoutsFromSupabase(userId, planId);
+      }
+      return progressed.targets;
+    },
+    [applyOptimisticPlanExercises, loadPlannedWorkoutsFromSupabase, refreshPendingMutationCount]
+  );
+
+  // Once a session is completed, progress the next planned day that repeats
+  // any of its exercises. Sessions already complete at load are skipped.
+  useEffect(() => {
+    const phaseId = state?.currentPhase?.id;
+    if (isLoading || !state || !phaseId) return;
+    const completed = state.workoutSessions.filter(
+      (session) =>
+        session.phasePlanId === phaseId && session.completed && !session.id.startsWith('local:')
+    );
+    if (!progressedSessionIdsRef.current) {
+      progressedSessionIdsRef.current = new Set(completed.map((session) => session.id));
+      return;
+    }
+    const seen = progressedSessionIdsRef.current;
+    const newlyCompleted = completed.filter((session) => !seen.has(session.id));
+    if (!newlyCompleted.length) return;
+    newlyCompleted.forEach((session) => seen.add(session.id));
+
+    const latest = newlyCompleted.reduce((a, b) => (b.date > a.date ? b : a));
+    const todayKey = formatLocalDateYMD(new Date());
+    const nextDay = state.plannedWorkouts
+      .filter(
+        (day) =>
+          day.planId === phaseId &&
+          day.date > latest.date &&
+          day.date >= todayKey &&
+          (day.workout?.exercises ?? []).some((exercise) =>
+            latest.exercises.some((done) => isSameExercise(done, exercise))
+          )
+      )
+      .sort((a, b) => a.date.localeCompare(b.date))[0];
+    if (!nextDay) return;
+    applyProgressionForDate(nextDay.date).catch((err) => {
+      console.error('Failed to apply progression targets:', err);
+    });
+  }, [applyProgressionForDate, isLoading, state]);
+
+  /**
+   * Cuts sets on the remaining planned days of a phase week through plan
+   * overrides. Days already deloaded or in the past are left alone.
+   */
+  const applyDeloadWeek = useCallback(
+    async (weekIndex: number): Promise<number> => {
+      const current = stateRef.current;
+      if (!current?.user || !current.currentPhase) return 0;
+      const userId = current.user.id;
+      const planId = current.currentPhase.id;
+      const todayKey = formatLocalDateYMD(new Date());
+      const weekDates = new Set(getPhaseWeekDates(current.currentPhase.startDate, weekIndex));
+
+      let updated = 0;
+      let queued = false;
+      for (const day of current.plannedWorkouts) {
+        if (day.planId !== planId || !weekDates.has(day.date) || day.date < todayKey) continue;
+        const deloaded = buildDeloadPlanExercises(day.workout?.exercises ?? []);
+        if (!deloaded) continue;
+        const inputs = toPlanExerciseInputs(deloaded);
+        const outcome = await runOrQueueMutation({
+          kind: 'replace_plan_exercises',
+          userId,
+          planId,
+          date: day.date,
+          exercises: inputs,
+        });
+        if (outcome === 'queued') {
+          applyOptimisticPlanExercises(planId, day.date, inputs, 'replace');
+          queued = true;
+        }
+        updated += 1;
+      }
+
+      if (queued) {
+        await refreshPendingMutationCount();
+      } else if (updated) {
+        await loadPlannedWorkoutsFromSupabase(userId, planId);
+      }
+      return updated;
+    },
+    [applyOptimisticPlanExercises, loadPlannedWorkoutsFromSupabase, refreshPendingMutationCount]
+  );
+
+  // Once per phase week: deload on the experience-based cadence, or pull the
+  // next deload forward to next week when recovery-related swaps spike.
+  useEffect(() => {
+    const phase = state?.currentPhase;
+    const user = state?.user;
+    if (isLoading || !phase || !user || phase.status !== 'active') return;
+    if (plannedWorkoutsPlanId !== phase.id) return;
+    const todayKey = formatLocalDateYMD(new Date());
+    if (todayKey < phase.startDate || todayKey > phase.expectedEndDate) return;
+    const weekIndex = getPhaseWeekIndex(phase.startDate, todayKey);
+    const checkKey = `${phase.id}:${weekIndex}`;
+    if (deloadCheckedWeekRef.current === checkKey) return;
+    deloadCheckedWeekRef.current = checkKey;
+
+    const phaseDays = state.plannedWorkouts.filter((day) => day.planId === phase.id);
+    const deloadWeeks = resolveDeloadWeeks({
+      startDate: phase.startDate,
+      endDate: phase.expectedEndDate,
+      experienceLevel: user.experienceLevel,
+      appliedWeeks: collectDeloadedWeeks(phase.startDate, phaseDays),
+    });
+
+    // A due deload that touched no day is checked again on the next change
+    const releaseIfUnapplied = (updated: number) => {
+      if (!updated && deloadCheckedWeekRef.current === checkKey) deloadCheckedWeekRef.current = null;
+    };
+    const run = async () => {
+      if (deloadWeeks.has(weekIndex)) {
+        releaseIfUnapplied(await applyDeloadWeek(weekIndex));
+        return;
+      }
+      const nextWeek = weekIndex + 1;
+      if (deloadWeeks.has(nextWeek) || deloadWeeks.has(weekIndex - 1)) return;
+      if (getPhaseWeekIndex(phase.startDate, phase.expectedEndDate) < nextWeek) return;
+      const signals = await fetchSwapReasonSignals(user.id, phase.id);
+      if (isRecoverySignalSpike(signals)) {
+        await applyDeloadWeek(nextWeek);
+      }
+    };
+    run().catch((err) => {
+      // Allow a retry on the next state change, e.g. once back online
+      deloadCheckedWeekRef.current = null;
+      console.error('Failed to schedule deload week:', err);
+    });
+  }, [applyDeloadWeek, isLoading, plannedWorkoutsPlanId, state]);
+
+  const relocatePlannedWorkout = useCallback(
+    async (fromDate: string, toDate: string, mode: 'move' | 'copy') => {
+      const current = stateRef.current;
+      if (!current?.user || !current.currentPhase || fromDate === toDate) return;
+      const userId = current.user.id;
+      const planId = current.currentPhase.id;
+      const previous = current.plannedWorkouts;
+      updateState((prev) => ({
+        ...prev,
+        plannedWorkouts: relocatePlannedDays(prev.plannedWorkouts, planId, fromDate, toDate, mode),
+      }));
+      try {
+        if (mode === 'move') {
+          await moveRemotePlanDay(userId, planId, fromDate, toDate);
+        } else {
+          await copyRemotePlanDay(userId, planId, fromDate, toDate);
+        }
+      } catch (err) {
+        updateState((prev) => ({ ...prev, plannedWorkouts: previous }));
+        throw err;
+      }
+      await loadPlannedWorkoutsFromSupabase(userId, planId);
+    },
+    [loadPlannedWorkoutsFromSupabase, updateState]
+  );
+
+  const movePlanDay = useCallback(
+    (fromDate: string, toDate: string) => relocatePlannedWorkout(fromDate, toDate, 'move'),
+    [relocatePlannedWorkout]
+  );
+
+  const copyPlanDay = useCallback(
+    (fromDate: string, toDate: string) => relocatePlannedWorkout(fromDate, toDate, 'copy'),
+    [relocatePlannedWorkout]
+  );
+
+  const refreshMissedWorkout = useCallback(async () => {
+    const current = stateRef.current;
+    if (!current?.user || !current.currentPhase || current.currentPhase.status !== 'active') {
+      setMissedWorkout(null);
+      return;
+    }
+    setMissedWorkout(await fetchMissedWorkout(current.user.id, current.currentPhase.id));
+  }, []);
+
+  // Once per phase per day: look back for a training day that passed unlogged
+  useEffect(() => {
+    const phase = state?.currentPhase;
+    if (isLoading || !phase || !state?.user || phase.status !== 'active') return;
+    const checkKey = `${phase.id}:${formatLocalDateYMD(new Date())}`;
+    if (missedCheckedKeyRef.current === checkKey) return;
+    missedCheckedKeyRef.current = checkKey;
+    refreshMissedWorkout().catch((err) => {
+      missedCheckedKeyRef.current = null;
+      console.error('Failed to check for missed workouts:', err);
+    });
+  }, [isLoading, refreshMissedWorkout, state?.currentPhase, state?.user]);
+
+  const resolveMissedWorkout = useCallback(
+    async (option: MissedWorkoutOption) => {
+      const current = stateRef.current;
+      if (!current?.user || !current.currentPhase || !missedWorkout) return;
+      const userId = current.user.id;
+      const planId = current.currentPhase.id;
+      await resolveRemoteMissedWorkout(userId, planId, option, missedWorkout);
+      await loadPlannedWorkoutsFromSupabase(userId, planId);
+      // Several days may have been missed; surface the next one
+      await refreshMissedWorkout();
+    },
+    [loadPlannedWorkoutsFromSupabase, missedWorkout, refreshMissedWorkout]
+  );
+
+  const dismissMissedWorkout = useCallback(() => {
+    setMissedWorkout(null);
+  }, []);
+
   const schedulePhotoReminder = useCallback(
     async (date: string) => {
       updateState((prev) => ({
@@ -572,6 +1500,33 @@ export const useAppState = () => {
     [updateState]
   );
 
+  const recordPlanEdit = useCallback(
+    (
+      planId: string,
+      date: string,
+      before: PlanExerciseInput[],
+      after: PlanExerciseInput[],
+      kind?: PlanEditKind
+    ) => {
+      const classified = classifyPlanEdit(before, after);
+      const key = `${planId}:${date}`;
+      planEditHistoryRef.current[key] = pushPlanEdit(
+        planEditHistoryRef.current[key] ?? EMPTY_PLAN_EDIT_HISTORY,
+        {
+          id: `${key}:${Date.now()}`,
+          date,
+          kind: kind ?? classified.kind,
+          label: kind === 'template' ? 'Applied template' : classified.label,
+          before,
+          after,
+          createdAt: new Date().toISOString(),
+        }
+      );
+      setPlanEditHistoryVersion((value) => value + 1);
+    },
+    []
+  );
+
   const saveCustomWorkoutSession = useCallback(
     async (date: string, exercises: WorkoutSessionExercise[]) => {
       const current = stateRef.current;
@@ -591,22 +1546,7 @@ export const useAppState = () => {
         );
         return;
       }
-      const nextInputs = normalizedExercises.map((exercise) => {
-        const templateId = exercise.id?.startsWith('tpl:')
-          ? exercise.id.split(':').pop() ?? null
-          : null;
-        return {
-          exerciseId: exercise.exerciseId!,
-          name: exercise.name,
-          bodyParts: exercise.bodyParts,
-          movementPattern: exercise.movementPattern ?? null,
-          sets: exercise.sets ?? null,
-          reps: exercise.reps ?? null,
-          displayOrder: exercise.displayOrder ?? null,
-          notes: exercise.notes ?? null,
-          sourceTemplateExerciseId: templateId,
-        };
-      });
+      const nextInputs = sessionExercisesToPlanInputs(normalizedExercises);
 
       const currentPlanDay = current.plannedWorkouts.find(
         (day) => day.planId === current.currentPhase!.id && day.date === date
@@ -624,43 +1564,38 @@ export const useAppState = () => {
         }
       }
 
+      const userId = current.user.id;
+      const planId = current.currentPhase.id;
+      const persistReplacement = async () => {
+        return runOrQueueMutation({
+          kind: 'replace_plan_exercises',
+          userId,
+          planId,
+          date,
+          exercises: nextInputs,
+        });
+      };
+
       const shouldUseGuardedSwap = sameLength && changedIndices.length === 1;
-      if (shouldUseGuardedSwap) {
-        const changedIndex = changedIndices[0];
-        const targetExercise = existingExercises[changedIndex];
-        const replacement = nextInputs[changedIndex];
-        if (targetExercise?.id?.startsWith('tpl:') && replacement) {
-          const previousTemplateExerciseId = targetExercise.id.split(':').pop() ?? null;
-          const swapReason = classifyWorkoutSwapReason(targetExercise, replacement);
-          try {
-            await swapPlanExerciseForDate({
-              userId: current.user.id,
-              planId: current.currentPhase.id,
-              date,
-              targetPlanExerciseId: targetExercise.id,
-              replacement,
-              reason: swapReason,
-              enforceGuardrails: true,
-            });
-            lastWorkoutSwapRef.current = {
-              userId: current.user.id,
-              planId: current.currentPhase.id,
-              date,
-              targetPlanExerciseId: targetExercise.id,
-              previous: {
-                exerciseId: targetExercise.exerciseId,
-                name: targetExercise.name,
-                bodyParts: targetExercise.bodyParts,
-                movementPattern: targetExercise.movementPattern ?? null,
-                sets: targetExercise.sets ?? null,
-                reps: targetExercise.reps ?? null,
-                displayOrder: targetExercise.displayOrder ?? null,
-                notes: targetExercise.notes ?? null,
-                sourceTemplateExerciseId: previousTemplateExerciseId,
-              },
-            };
-            setLastWorkoutSwapVersion((value) => value + 1);
-          } catch (err: unknown) {
+      const targetExercise = shouldUseGuardedSwap ? existingExercises[changedIndices[0]] : undefined;
+      const replacement = shouldUseGuardedSwap ? nextInputs[changedIndices[0]] : undefined;
+      const hasPendingMutations = (await loadMutationQueue()).length > 0;
+      let outcome: 'applied' | 'queued' = 'applied';
+
+      if (targetExercise?.id?.startsWith('tpl:') && replacement && !hasPendingMutations) {
+        const swapReason = classifyWorkoutSwapReason(targetExercise, replacement);
+        try {
+          await swapPlanExerciseForDate({
+            userId,
+            planId,
+            date,
+            targetPlanExerciseId: targetExercise.id,
+            replacement,
+            reason: swapReason,
+            enforceGuardrails: true,
+          });
+        } catch (err: unknown) {
+          if (!isNetworkError(err)) {
             const message = err instanceof Error ? err.message : 'swap_failed';
             const mappedMessage = mapSwapGuardrailError(message);
             if (mappedMessage) {
@@ -668,49 +1603,96 @@ export const useAppState = () => {
             }
             throw err;
           }
-        } else {
-          await replacePlanExercisesForDate(current.user.id, current.currentPhase.id, date, nextInputs);
-          lastWorkoutSwapRef.current = null;
-          setLastWorkoutSwapVersion((value) => value + 1);
+          outcome = await persistReplacement();
         }
       } else {
-        await replacePlanExercisesForDate(current.user.id, current.currentPhase.id, date, nextInputs);
-        lastWorkoutSwapRef.current = null;
-        setLastWorkoutSwapVersion((value) => value + 1);
+        outcome = await persistReplacement();
       }
-      await loadPlannedWorkoutsFromSupabase(current.user.id, current.currentPhase.id);
+      recordPlanEdit(planId, date, toPlanExerciseInputs(existingExercises), nextInputs);
+
+      if (outcome === 'queued') {
+        applyOptimisticPlanExercises(planId, date, nextInputs, 'replace');
+        await refreshPendingMutationCount();
+        return;
+      }
+      await loadPlannedWorkoutsFromSupabase(userId, planId);
     },
-    [loadPlannedWorkoutsFromSupabase]
+    [
+      applyOptimisticPlanExercises,
+      loadPlannedWorkoutsFromSupabase,
+      recordPlanEdit,
+      refreshPendingMutationCount,
+    ]
   );
 
-  const canUndoWorkoutSwap = useCallback(
-    (date: string): boolean => {
-      const last = lastWorkoutSwapRef.current;
-      if (!last) return false;
-      return last.date === date;
+  const getPlanEditHistory = useCallback(
+    (date: string): PlanEditHistory => {
+      const planId = stateRef.current?.currentPhase?.id;
+      if (!planId) return EMPTY_PLAN_EDIT_HISTORY;
+      return planEditHistoryRef.current[`${planId}:${date}`] ?? EMPTY_PLAN_EDIT_HISTORY;
     },
-    [lastWorkoutSwapVersion]
+    [planEditHistoryVersion]
   );
 
-  const undoLastWorkoutSwap = useCallback(
-    async (date: string): Promise<boolean> => {
-      const last = lastWorkoutSwapRef.current;
-      if (!last || last.date !== date) return false;
-      await swapPlanExerciseForDate({
-        userId: last.userId,
-        planId: last.planId,
-        date: last.date,
-        targetPlanExerciseId: last.targetPlanExerciseId,
-        replacement: last.previous,
-        reason: 'undo_last_swap',
-        enforceGuardrails: false,
+  const canUndoPlanEdit = useCallback(
+    (date: string): boolean => getPlanEditHistory(date).undo.length > 0,
+    [getPlanEditHistory]
+  );
+
+  const canRedoPlanEdit = useCallback(
+    (date: string): boolean => getPlanEditHistory(date).redo.length > 0,
+    [getPlanEditHistory]
+  );
+
+  /**
+   * Writes the snapshot on one side of the newest undo (or redo) entry back
+   * as the day's full exercise list, then moves the entry to the other stack.
+   */
+  const stepPlanEditHistory = useCallback(
+    async (date: string, direction: 'undo' | 'redo'): Promise<boolean> => {
+      const current = stateRef.current;
+      if (!current || !current.currentPhase || !current.user) return false;
+      const userId = current.user.id;
+      const planId = current.currentPhase.id;
+      const key = `${planId}:${date}`;
+      const history = planEditHistoryRef.current[key] ?? EMPTY_PLAN_EDIT_HISTORY;
+      const stack = direction === 'undo' ? history.undo : history.redo;
+      const entry = stack[stack.length - 1];
+      if (!entry) return false;
+
+      const exercises = direction === 'undo' ? entry.before : entry.after;
+      const outcome = await runOrQueueMutation({
+        kind: 'replace_plan_exercises',
+        userId,
+        planId,
+        date,
+        exercises,
       });
-      lastWorkoutSwapRef.current = null;
-      setLastWorkoutSwapVersion((value) => value + 1);
-      await loadPlannedWorkoutsFromSupabase(last.userId, last.planId);
+      planEditHistoryRef.current[key] =
+        direction === 'undo'
+          ? { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] }
+          : { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) };
+      setPlanEditHistoryVersion((value) => value + 1);
+
+      if (outcome === 'queued') {
+        applyOptimisticPlanExercises(planId, date, exercises, 'replace');
+        await refreshPendingMutationCount();
+        return true;
+      }
+      await loadPlannedWorkoutsFromSupabase(userId, planId);
       return true;
     },
-    [loadPlannedWorkoutsFromSupabase]
+    [applyOptimisticPlanExercises, loadPlannedWorkoutsFromSupabase, refreshPendingMutationCount]
+  );
+
+  const undoPlanEdit = useCallback(
+    (date: string) => stepPlanEditHistory(date, 'undo'),
+    [stepPlanEditHistory]
+  );
+
+  const redoPlanEdit = useCallback(
+    (date: string) => stepPlanEditHistory(date, 'redo'),
+    [stepPlanEditHistory]
   );
 
   const createWorkoutSessionForDate = useCallback(
@@ -743,6 +1725,10 @@ export const useAppState = () => {
         completed: false,
         displayOrder: exercise.displayOrder,
         notes: exercise.notes,
+        group: exercise.group ?? null,
+        repTarget: exercise.repTarget ?? null,
+        measurementType: exercise.measurementType ?? null,
+        loadMode: exercise.loadMode ?? null,
       }));
 
       await createSessionFromPlanWorkout({
@@ -774,31 +1760,39 @@ export const useAppState = () => {
         formatLocalDateYMD(new Date());
       const resolvedPlanId = virtualPlanId ?? current.currentPhase.id;
 
-      await appendPlanExercisesForDate(current.user.id, resolvedPlanId, resolvedDate, [
-        {
-          exerciseId: exercise.exerciseId,
-          name: exercise.name,
-          bodyParts: exercise.bodyParts ?? [],
-          movementPattern: exercise.movementPattern ?? null,
-          sets: exercise.sets ?? null,
-          reps: exercise.reps ?? null,
-          displayOrder: exercise.displayOrder ?? 1,
-          notes: exercise.notes ?? null,
-        },
-      ]);
+      const [input] = sessionExercisesToPlanInputs([exercise]).map((entry) => ({
+        ...entry,
+        sourceTemplateExerciseId: null,
+      }));
+      const before = getPlannedInputs(current, resolvedPlanId, resolvedDate);
+      await appendPlanExercisesForDate(current.user.id, resolvedPlanId, resolvedDate, [input]);
+      recordPlanEdit(resolvedPlanId, resolvedDate, before, [...before, input]);
       await loadPlannedWorkoutsFromSupabase(current.user.id, current.currentPhase.id);
     },
-    [loadPlannedWorkoutsFromSupabase]
+    [loadPlannedWorkoutsFromSupabase, recordPlanEdit]
   );
 
   const deleteWorkoutExercise = useCallback(
     async (_planWorkoutId: string, planExerciseId: string) => {
       const current = stateRef.current;
       if (!current || !current.currentPhase || !current.user) return;
+      const planDay = current.plannedWorkouts.find((day) =>
+        day.workout?.exercises.some((exercise) => exercise.id === planExerciseId)
+      );
       await deletePlanExercise(planExerciseId);
+      if (planDay?.workout) {
+        recordPlanEdit(
+          planDay.planId,
+          planDay.date,
+          toPlanExerciseInputs(planDay.workout.exercises),
+          toPlanExerciseInputs(
+            planDay.workout.exercises.filter((exercise) => exercise.id !== planExerciseId)
+          )
+        );
+      }
       await loadPlannedWorkoutsFromSupabase(current.user.id, current.currentPhase.id);
     },
-    [loadPlannedWorkoutsFromSupabase]
+    [loadPlannedWorkoutsFromSupabase, recordPlanEdit]
   );
 
   const deleteWorkoutSession = useCallback(
@@ -861,25 +1855,20 @@ export const useAppState = () => {
         date,
       });
 
-      const normalizedExercises = sanitizedExercises.map((ex, idx) => ({
-        exerciseId: ex.exerciseId!,
-        name: ex.name,
-        bodyParts: ex.bodyParts ?? [],
-        movementPattern: ex.movementPattern ?? null,
-        sets: ex.sets ?? null,
-        reps: ex.reps ?? null,
-        displayOrder: ex.displayOrder ?? idx + 1,
-        notes: ex.notes ?? null,
+      const normalizedExercises = sessionExercisesToPlanInputs(sanitizedExercises).map((input) => ({
+        ...input,
         sourceTemplateExerciseId: null,
       }));
 
       // Replace plan overrides
+      const previousInputs = getPlannedInputs(current, current.currentPhase.id, date);
       await replacePlanExercisesForDate(
         current.user.id,
         current.currentPhase.id,
         date,
         normalizedExercises
       );
+      recordPlanEdit(current.currentPhase.id, date, previousInputs, normalizedExercises, 'template');
 
       // Create new session with template exercises
       await createSessionFromPlanWorkout({
@@ -897,6 +1886,10 @@ export const useAppState = () => {
           completed: false,
           displayOrder: ex.displayOrder ?? idx + 1,
           notes: ex.notes,
+          group: ex.group ?? null,
+          repTarget: ex.repTarget ?? null,
+          measurementType: ex.measurementType ?? null,
+          loadMode: ex.loadMode ?? null,
         })),
       });
 
@@ -912,7 +1905,13 @@ export const useAppState = () => {
 
       return { hasProgress: false };
     },
-    [loadPlannedWorkoutsFromSupabase, refreshWorkoutSessions, sanitizeTemplateExercises, updateState]
+    [
+      loadPlannedWorkoutsFromSupabase,
+      recordPlanEdit,
+      refreshWorkoutSessions,
+      sanitizeTemplateExercises,
+      updateState,
+    ]
   );
 
   /**
@@ -937,49 +1936,78 @@ export const useAppState = () => {
         return;
       }
 
-      const planExerciseInputs = uniqueExercises.map((ex, idx) => ({
-        exerciseId: ex.exerciseId!,
-        name: ex.name,
-        bodyParts: ex.bodyParts ?? [],
-        movementPattern: ex.movementPattern ?? null,
-        sets: ex.sets ?? null,
-        reps: ex.reps ?? null,
-        displayOrder: ex.displayOrder ?? idx + 1,
-        notes: ex.notes ?? null,
+      const planExerciseInputs = sessionExercisesToPlanInputs(uniqueExercises).map((input) => ({
+        ...input,
+        sourceTemplateExerciseId: null,
       }));
 
+      const userId = current.user.id;
+      const planId = current.currentPhase.id;
+
       // Append to plan overrides
-      await appendPlanExercisesForDate(
-        current.user.id,
-        current.currentPhase.id,
+      const planOutcome = await runOrQueueMutation({
+        kind: 'append_plan_exercises',
+        userId,
+        planId,
         date,
-        planExerciseInputs
-      );
+        exercises: planExerciseInputs,
+      });
+      const previousInputs = toPlanExerciseInputs(existingPlanDay?.workout?.exercises ?? []);
+      recordPlanEdit(planId, date, previousInputs, [...previousInputs, ...planExerciseInputs]);
 
       // If session already exists, also append to session exercises
       const existingSession = current.workoutSessions.find(
-        (s) => s.phasePlanId === current.currentPhase!.id && s.date === date
+        (s) => s.phasePlanId === planId && s.date === date
       );
+      let sessionOutcome: 'applied' | 'queued' = 'applied';
       if (existingSession?.id) {
         const currentCount = existingSession.exercises.length;
-        for (let i = 0; i < uniqueExercises.length; i++) {
-          const ex = uniqueExercises[i];
-          try {
-            await addExerciseToSession({
-              sessionId: existingSession.id,
-              exercise: ex,
-              displayOrder: currentCount + i + 1,
-            });
-          } catch (err: unknown) {
-            if (err instanceof Error && err.message === 'duplicate_exercise') continue;
-            throw err;
-          }
+        const additions = uniqueExercises.map((exercise, i) => ({
+          exercise,
+          displayOrder: currentCount + i + 1,
+        }));
+        if (existingSession.id.startsWith('local:')) {
+          sessionOutcome = 'queued';
+        } else {
+          sessionOutcome = await runOrQueueMutation({
+            kind: 'add_session_exercises',
+            sessionId: existingSession.id,
+            exercises: additions,
+          });
+        }
+        if (sessionOutcome === 'queued') {
+          applyOptimisticWorkoutSessions((sessions) =>
+            sessions.map((entry) =>
+              entry.id !== existingSession.id
+                ? entry
+                : {
+                    ...entry,
+                    exercises: [
+                      ...entry.exercises,
+                      ...additions.map(({ exercise, displayOrder }) => ({
+                        ...exercise,
+                        id: `local:${planId}:${date}:${exercise.exerciseId ?? exercise.name}:${displayOrder}`,
+                        completed: false,
+                        displayOrder,
+                      })),
+                    ],
+                  }
+            )
+          );
         }
       }
 
+      if (planOutcome === 'queued' || sessionOutcome === 'queued') {
+        if (planOutcome === 'queued') {
+          applyOptimisticPlanExercises(planId, date, planExerciseInputs, 'append');
+        }
+        await refreshPendingMutationCount();
+        return;
+      }
+
       await Promise.all([
-        loadPlannedWorkoutsFromSupabase(current.user.id, current.currentPhase.id),
-        refreshWorkoutSessions(current.user.id, current.currentPhase.id),
+        loadPlannedWorkoutsFromSupabase(userId, planId),
+        refreshWorkoutSessions(userId, planId),
       ]);
 
       updateState((prev) => ({
@@ -987,12 +2015,29 @@ export const useAppState = () => {
         workoutDataVersion: nextWorkoutVersion(prev),
       }));
     },
-    [loadPlannedWorkoutsFromSupabase, refreshWorkoutSessions, sanitizeTemplateExercises, updateState]
+    [
+      applyOptimisticPlanExercises,
+      applyOptimisticWorkoutSessions,
+      loadPlannedWorkoutsFromSupabase,
+      recordPlanEdit,
+      refreshPendingMutationCount,
+      refreshWorkoutSessions,
+      sanitizeTemplateExercises,
+      updateState,
+    ]
   );
 
   const clearAllData = useCallback(async () => {
-    // Simply reset to empty state (no AsyncStorage to clear)
+    // Drop the local snapshot and any queued offline edits with the state
     setState(createEmptyAppState());
+    setPendingMutationCount(0);
+    progressedSessionIdsRef.current = null;
+    deloadCheckedWeekRef.current = null;
+    missedCheckedKeyRef.current = null;
+    setMissedWorkout(null);
+    planEditHistoryRef.current = {};
+    setPlanEditHistoryVersion((value) => value + 1);
+    await Promise.all([clearAppStateSnapshot(), clearMutationQueue()]);
   }, []);
 
   const resetWorkoutData = useCallback(() => {
@@ -1013,7 +2058,10 @@ export const useAppState = () => {
     updateUser,
     startPhase,
     addPhotoCheckin,
+    toggleHabit,
+    logBodyWeight,
     updateProgress,
+    dailyConsistency,
     completePhase,
     clearAllData,
     toggleWorkoutExercise,
@@ -1027,10 +2075,24 @@ export const useAppState = () => {
     deleteWorkoutSession,
     replaceSessionWithTemplate,
     appendExercisesToSession,
-    canUndoWorkoutSwap,
-    undoLastWorkoutSwap,
+    getPlanEditHistory,
+    canUndoPlanEdit,
+    canRedoPlanEdit,
+    undoPlanEdit,
+    redoPlanEdit,
     hydrateFromRemote,
     markAllWorkoutsComplete,
+    logExerciseSets,
+    recordSetRest,
+    applyProgressionForDate,
+    applyDeloadWeek,
+    movePlanDay,
+    copyPlanDay,
+    missedWorkout,
+    resolveMissedWorkout,
+    dismissMissedWorkout,
     resetWorkoutData,
+    pendingMutationCount,
+    syncPendingMutations,
   };
 };
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  CreatePhotoCheckinInput,
+  createPhotoCheckin,
+  fetchPhotoCheckins,
+} from '../services/photoCheckinService';
+import { PhotoCheckin } from '../types/domain';
+
+// Signed URLs expire, so check-ins are refetched on mount rather than cached.
+export const usePhotoCheckins = (userId?: string, planId?: string) => {
+  const [checkins, setCheckins] = useState<PhotoCheckin[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(!!userId && !!planId);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!userId || !planId) return;
+    try {
+      setIsLoading(true);
+      setError(null);
+      setCheckins(await fetchPhotoCheckins(userId, planId));
+    } catch (err: any) {
+      setError(err?.message || 'Unable to load photo check-ins');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, planId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const addCheckin = useCallback(
+    async (input: Omit<CreatePhotoCheckinInput, 'userId' | 'planId'>) => {
+      if (!userId || !planId) throw new Error('plan_not_found_or_not_owned');
+      setIsUploading(true);
+      try {
+        const created = await createPhotoCheckin({ ...input, userId, planId });
+        setCheckins((prev) =>
+          [...prev, created].sort(
+            (a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+          )
+        );
+        return created;
+      } finally {
+        setIsUploading(false);
+      }
+    },
+    [userId, planId]
+  );
+
+  return useMemo(
+    () => ({
+      checkins,
+      isLoading,
+      isUploading,
+      error,
+      refresh: load,
+      addCheckin,
+    }),
+    [checkins, isLoading, isUploading, error, load, addCheckin]
+  );
+};
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AppState as RNAppState } from 'react-native';
+import {
+  RestTimer,
+  extendRestTimer,
+  getRestElapsedSeconds,
+  getRestTimer,
+  restoreRestTimer,
+  stopRestTimer,
+  subscribeToRestTimer,
+} from '../services/restTimerService';
+
+const TICK_MS = 1000;
+
+export type UseRestTimerResult = {
+  timer: RestTimer | null;
+  elapsedSeconds: number;
+  remainingSeconds: number;
+  isOvertime: boolean;
+  addTime: (seconds: number) => void;
+  finish: () => Promise<void>;
+};
+
+export const useRestTimer = (): UseRestTimerResult => {
+  const [timer, setTimer] = useState<RestTimer | null>(getRestTimer());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const unsubscribe = subscribeToRestTimer((next) => {
+      setTimer(next);
+      setNow(Date.now());
+    });
+    restoreRestTimer().catch((err) => console.error('Failed to restore rest timer', err));
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    // Intervals pause in the background; resync immediately on return.
+    const subscription = RNAppState.addEventListener('change', (status) => {
+      if (status === 'active') setNow(Date.now());
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [timer]);
+
+  const addTime = useCallback((seconds: number) => {
+    extendRestTimer(seconds);
+  }, []);
+
+  const finish = useCallback(async () => {
+    await stopRestTimer();
+  }, []);
+
+  return useMemo(() => {
+    const elapsedSeconds = timer ? getRestElapsedSeconds(timer, now) : 0;
+    const remainingSeconds = timer ? timer.targetSeconds - elapsedSeconds : 0;
+    return {
+      timer,
+      elapsedSeconds,
+      remainingSeconds,
+      isOvertime: !!timer && remainingSeconds < 0,
+      addTime,
+      finish,
+    };
+  }, [timer, now, addTime, finish]);
+};
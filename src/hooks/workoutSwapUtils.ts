@@ -1,9 +1,21 @@
+import { ExerciseGroup } from '../types/domain';
+import { areExerciseGroupsEqual } from '../utils/exerciseGroups';
+import { areRepPrescriptionsEqual, parseRepPrescription } from '../utils/repPrescription';
+
 const normalizeTextValue = (value?: string | null): string =>
   (value ?? '').trim().toLowerCase();
 
 const normalizeBodyPartsValue = (parts?: string[] | null): string[] =>
   (parts ?? []).map((part) => normalizeTextValue(part)).filter(Boolean).sort();
 
+/** "8-12" and "8 to 12" are the same target; unparseable text compares as written. */
+const isSameRepTarget = (current?: string | null, next?: string | null): boolean => {
+  const currentTarget = parseRepPrescription(current);
+  const nextTarget = parseRepPrescription(next);
+  if (currentTarget && nextTarget) return areRepPrescriptionsEqual(currentTarget, nextTarget);
+  return normalizeTextValue(current) === normalizeTextValue(next);
+};
+
 export const arePlanExerciseValuesEqual = (
   current: {
     exerciseId?: string | null;
@@ -14,6 +26,7 @@ export const arePlanExerciseValuesEqual = (
     reps?: string | null;
     displayOrder?: number | null;
     notes?: string | null;
+    group?: ExerciseGroup | null;
   },
   next: {
     exerciseId?: string | null;
@@ -24,6 +37,7 @@ export const arePlanExerciseValuesEqual = (
     reps?: string | null;
     displayOrder?: number | null;
     notes?: string | null;
+    group?: ExerciseGroup | null;
   }
 ): boolean =>
   (current.exerciseId ?? null) === (next.exerciseId ?? null) &&
@@ -34,7 +48,8 @@ export const arePlanExerciseValuesEqual = (
   (current.sets ?? null) === (next.sets ?? null) &&
   normalizeTextValue(current.reps) === normalizeTextValue(next.reps) &&
   (current.displayOrder ?? null) === (next.displayOrder ?? null) &&
-  normalizeTextValue(current.notes) === normalizeTextValue(next.notes);
+  normalizeTextValue(current.notes) === normalizeTextValue(next.notes) &&
+  areExerciseGroupsEqual(current.group, next.group);
 
 export const mapSwapGuardrailError = (message: string): string | null => {
   if (message === 'swap_guardrail_failed_movement_pattern') {
@@ -46,6 +61,9 @@ export const mapSwapGuardrailError = (message: string): string | null => {
   if (message === 'swap_guardrail_failed_volume_range') {
     return 'Swap blocked: sets must stay within an acceptable volume range.';
   }
+  if (message === 'swap_guardrail_failed_rep_scheme') {
+    return 'Swap blocked: replacement must keep a similar rep scheme.';
+  }
   return null;
 };
 
@@ -77,7 +95,7 @@ export const classifyWorkoutSwapReason = (
   if ((current.sets ?? null) !== (next.sets ?? null)) {
     return 'swap_reason:volume_adjustment';
   }
-  if (normalizeTextValue(current.reps) !== normalizeTextValue(next.reps)) {
+  if (!isSameRepTarget(current.reps, next.reps)) {
     return 'swap_reason:rep_adjustment';
   }
   if (normalizeTextValue(current.notes) !== normalizeTextValue(next.notes)) {
@@ -22,6 +22,9 @@ import {
   WorkoutSessionExercise,
   PlanDay,
   PlanWorkoutExercise,
+  HabitLog,
+  HabitType,
+  PersonalRecord,
 } from '../types/domain';
 import { useHomeScreenData } from '../hooks/useHomeScreenData';
 import { useWorkoutSessions } from '../hooks/useWorkoutSessions';
@@ -29,7 +32,15 @@ import { useFabAction } from '../contexts/FabActionContext';
 import { useScreenAnimation } from '../hooks/useScreenAnimation';
 import { formatLocalDateYMD } from '../utils/date';
 import { PLAN_INPUT_LABELS, getMissingPlanInputs } from '../utils/planReadiness';
+import { collectDeloadedWeeks, isDeloadPlanDay, resolveDeloadWeeks } from '../utils/deloadSchedule';
+import { buildConsistencySummary } from '../utils/homeDataUtils';
+import { normalizeTrainingDays } from '../services/planningRules';
+import type { MissedWorkoutOption } from '../services/missedWorkoutService';
+import type { PlanEditHistory } from '../utils/planEditHistory';
+import { PERSONAL_RECORD_LABELS, formatPersonalRecordValue } from '../utils/personalRecords';
+import { getUnitSystem } from '../utils/units';
 import { LibraryScreen } from './LibraryScreen';
+import { RestTimerBanner } from '../components/RestTimerBanner';
 
 // ─── Colours ─────────────────────────────────────────────────────────────────
 
@@ -50,6 +61,7 @@ const C = {
   dangerDim:   'rgba(255,107,107,0.1)',
   warn:        '#FFC442',
   warnDim:     'rgba(255,196,66,0.08)',
+  warnBorder:  'rgba(255,196,66,0.3)',
   rest:        '#3A3F5C',
   restDim:     'rgba(58,63,92,0.3)',
   text:        '#FFFFFF',
@@ -82,6 +94,7 @@ type TWeek = {
   workCount: number;
   isCurrent: boolean;
   isDone:    boolean;
+  isDeload:  boolean;  // scheduled deload, or days already cut by one
 };
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -94,6 +107,16 @@ const dayOrder  = (d: Date) => MON_FIRST.indexOf(d.getDay() as typeof MON_FIRST[
 
 const DAYS   = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const fmtDate = (d: Date) => `${d.getDate()}`;
+const HABITS: Array<{ key: HabitType; icon: string; label: string; hint: string }> = [
+  { key: 'steps',     icon: '👟', label: 'Steps',     hint: '8k+ steps' },
+  { key: 'sleep',     icon: '😴', label: 'Sleep',     hint: '7h+ sleep' },
+  { key: 'hydration', icon: '💧', label: 'Hydration', hint: '2.5L water' },
+];
+const MISSED_WORKOUT_OPTIONS: Array<{ key: MissedWorkoutOption; label: string; hint: string }> = [
+  { key: 'shift', label: 'Shift week', hint: 'Push days back' },
+  { key: 'merge', label: 'Merge',      hint: 'Add to next day' },
+  { key: 'skip',  label: 'Skip',       hint: 'Move on' },
+];
 const UUID_LIKE_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 // Return the Monday on or before `d`
@@ -150,6 +173,8 @@ const buildTimeline = (
   planDays: PlanDay[],
   sessions: WorkoutSessionEntry[],
   todayStr: string,
+  experienceLevel: User['experienceLevel'],
+  trainingDays: number[],
 ): TWeek[] => {
   const start     = parseYMD(phase.startDate);
   const end       = parseYMD(phase.expectedEndDate);
@@ -177,7 +202,10 @@ const buildTimeline = (
       session,
       isToday:   dateStr === todayStr,
       isPast:    dateStr < todayStr,
-      planIsRest: !planDay?.workout || planDay.workout.exercises.length === 0,
+      // Days outside the loaded plan range fall back to the chosen weekdays
+      planIsRest: planDay || !trainingDays.length
+        ? !planDay?.workout || planDay.workout.exercises.length === 0
+        : !trainingDays.includes(date.getDay()),
     });
   }
 
@@ -191,6 +219,14 @@ const buildTimeline = (
     weekMap.get(wIdx)!.push(day);
   });
 
+  const phaseDays   = planDays.filter((d) => d.planId === phase.id);
+  const deloadWeeks = resolveDeloadWeeks({
+    startDate:       phase.startDate,
+    endDate:         phase.expectedEndDate,
+    experienceLevel,
+    appliedWeeks:    collectDeloadedWeeks(phase.startDate, phaseDays),
+  });
+
   // Sort weeks; within each week sort Mon → Sun
   return Array.from(weekMap.entries())
     .sort(([a], [b]) => a - b)
@@ -201,6 +237,7 @@ const buildTimeline = (
       const doneCount = sorted.filter((d) => !d.planIsRest && d.session && isSessionDone(d.session)).length;
       const isCurrent = sorted.some((d) => d.isToday);
       const isDone    = workCount > 0 && doneCount >= workCount && !isCurrent;
+      const isDeload  = deloadWeeks.has(idx) || sorted.some((d) => isDeloadPlanDay(d.planDay));
 
       return {
         weekIdx: idx,
@@ -210,6 +247,7 @@ const buildTimeline = (
         doneCount,
         isCurrent,
         isDone,
+        isDeload,
       };
     });
 };
@@ -287,6 +325,11 @@ type DashboardScreenProps = {
   phase:            PhasePlan | null;
   workoutSessions:  WorkoutSessionEntry[];
   plannedWorkouts:  PlanDay[];
+  habitLogs?:       HabitLog[];
+  onToggleHabit?:   (date: string, habit: HabitType) => Promise<void>;
+  missedWorkout?:   PlanDay | null;
+  onResolveMissedWorkout?: (option: MissedWorkoutOption) => Promise<void>;
+  onDismissMissedWorkout?: () => void;
   onProfilePress?:  () => void;
   onStartPhase?:    () => void;
   onToggleWorkoutExercise?: (
@@ -296,12 +339,14 @@ type DashboardScreenProps = {
   onSaveCustomSession?:       (date: string, exercises: WorkoutSessionExercise[]) => void;
   onAddExercise?:             (planWorkoutId: string, exercise: WorkoutSessionExercise) => Promise<string | void>;
   onDeleteExercise?:          (planWorkoutId: string, planExerciseId: string) => Promise<void>;
-  canUndoWorkoutSwap?:        (date: string) => boolean;
-  onUndoLastWorkoutSwap?:     (date: string) => Promise<boolean>;
+  getPlanEditHistory?:        (date: string) => PlanEditHistory;
+  onUndoPlanEdit?:            (date: string) => Promise<boolean>;
+  onRedoPlanEdit?:            (date: string) => Promise<boolean>;
   onReplaceSessionWithTemplate?: (
     date: string, exercises: WorkoutSessionExercise[], force?: boolean
   ) => Promise<{ hasProgress: boolean }>;
   onAppendExercisesToSession?: (date: string, exercises: WorkoutSessionExercise[]) => Promise<void>;
+  personalRecords?:           PersonalRecord[];
 };
 
 // ─── Component ────────────────────────────────────────────────────────────────
@@ -311,6 +356,11 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
   phase,
   workoutSessions,
   plannedWorkouts,
+  habitLogs = [],
+  onToggleHabit,
+  missedWorkout = null,
+  onResolveMissedWorkout,
+  onDismissMissedWorkout,
   onProfilePress,
   onStartPhase,
   onToggleWorkoutExercise,
@@ -319,6 +369,7 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
   onDeleteExercise,
   onReplaceSessionWithTemplate,
   onAppendExercisesToSession,
+  personalRecords = [],
 }) => {
   if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
     UIManager.setLayoutAnimationEnabledExperimental(true);
@@ -428,8 +479,52 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
   // ── Timeline ────────────────────────────────────────────────────────────────
   const weeks = useMemo<TWeek[]>(() => {
     if (!resolvedPhase || !hasActivePlan) return [];
-    return buildTimeline(resolvedPhase, resolvedPlannedWorkouts, resolvedSessions, todayStr);
-  }, [resolvedPhase, hasActivePlan, resolvedPlannedWorkouts, resolvedSessions, todayStr]);
+    return buildTimeline(
+      resolvedPhase,
+      resolvedPlannedWorkouts,
+      resolvedSessions,
+      todayStr,
+      user.experienceLevel,
+      normalizeTrainingDays(user.planPreferences?.trainingDays),
+    );
+  }, [
+    resolvedPhase,
+    hasActivePlan,
+    resolvedPlannedWorkouts,
+    resolvedSessions,
+    todayStr,
+    user.experienceLevel,
+    user.planPreferences?.trainingDays,
+  ]);
+
+  const phaseHabitLogs = useMemo(
+    () => habitLogs.filter((log) => !derivedPhaseId || log.phasePlanId === derivedPhaseId),
+    [derivedPhaseId, habitLogs],
+  );
+  const todayHabits = phaseHabitLogs.find((log) => log.date === todayStr)?.habits ?? null;
+  const habitAdherencePercent = useMemo(
+    () =>
+      buildConsistencySummary(resolvedSessions, resolvedPhase?.startDate ?? null, phaseHabitLogs)
+        .habitAdherencePercent,
+    [phaseHabitLogs, resolvedPhase?.startDate, resolvedSessions],
+  );
+
+  const [resolvingMissed, setResolvingMissed] = useState(false);
+  const handleResolveMissed = useCallback((option: MissedWorkoutOption) => {
+    if (!onResolveMissedWorkout) return;
+    setResolvingMissed(true);
+    onResolveMissedWorkout(option)
+      .catch((err) => {
+        console.error('Failed to reschedule missed workout:', err);
+      })
+      .finally(() => setResolvingMissed(false));
+  }, [onResolveMissedWorkout]);
+
+  const handleToggleHabit = useCallback((habit: HabitType) => {
+    onToggleHabit?.(todayStr, habit).catch((err) => {
+      console.error('Failed to save habit', err);
+    });
+  }, [onToggleHabit, todayStr]);
 
   const { completedSessions, totalWorkouts } = useMemo(() => {
     let done = 0, total = 0;
@@ -622,6 +717,10 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
       completed: false,
       displayOrder: exercise.displayOrder,
       notes: exercise.notes,
+      group: exercise.group ?? null,
+      repTarget: exercise.repTarget ?? null,
+      measurementType: exercise.measurementType ?? null,
+      loadMode: exercise.loadMode ?? null,
     }));
   }, []);
 
@@ -669,6 +768,7 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
     const allDone = exercises.length > 0 && exercises.every((ex) =>
       isExDone(day, ex.name, 'completed' in ex ? ex.completed : undefined)
     );
+    const dayRecords = allDone ? personalRecords.filter((record) => record.date === day.date) : [];
 
     return (
       <View style={s.exSection}>
@@ -678,7 +778,16 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
             <Text style={s.completionBannerIcon}>✓</Text>
             <View style={{ flex: 1 }}>
               <Text style={s.completionBannerText}>Workout complete!</Text>
-              <Text style={s.completionBannerSub}>Rest up — see you tomorrow</Text>
+              <Text style={s.completionBannerSub}>
+                {dayRecords.length
+                  ? `${dayRecords.length} new personal record${dayRecords.length === 1 ? '' : 's'} 🏆`
+                  : 'Rest up — see you tomorrow'}
+              </Text>
+              {dayRecords.map((record) => (
+                <Text key={record.id} style={s.completionRecord}>
+                  {record.exerciseName} · {PERSONAL_RECORD_LABELS[record.type]} {formatPersonalRecordValue(record, getUnitSystem(user))}
+                </Text>
+              ))}
             </View>
           </View>
         )}
@@ -845,6 +954,11 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
           <Text style={[s.weekLabel, week.isCurrent && s.weekLabelCurrent]}>
             {week.label}
           </Text>
+          {week.isDeload && (
+            <View style={s.weekDeloadBadge}>
+              <Text style={s.weekDeloadTxt}>Deload</Text>
+            </View>
+          )}
           {week.workCount > 0 && (
             <Text style={s.weekProgressTxt}>
               {week.doneCount}/{week.workCount} sessions
@@ -896,6 +1010,74 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
     </LinearGradient>
   );
 
+  // ── Missed workout prompt ────────────────────────────────────────────────────
+
+  const renderMissedWorkoutCard = () => {
+    if (!missedWorkout || !onResolveMissedWorkout) return null;
+    const missedDate = parseYMD(missedWorkout.date);
+    const title = missedWorkout.workout?.title ?? 'Workout';
+    return (
+      <View style={s.missedCard}>
+        <View style={s.missedHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={s.missedTitle}>Missed {DAYS[missedDate.getDay()]}'s session</Text>
+            <Text style={s.missedMeta}>
+              {title} · {missedWorkout.workout?.exercises.length ?? 0} exercises
+            </Text>
+          </View>
+          {onDismissMissedWorkout && (
+            <TouchableOpacity onPress={onDismissMissedWorkout} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Text style={s.missedClose}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={s.missedActions}>
+          {MISSED_WORKOUT_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.key}
+              style={[s.missedBtn, resolvingMissed && s.missedBtnBusy]}
+              onPress={() => handleResolveMissed(option.key)}
+              disabled={resolvingMissed}
+              activeOpacity={0.75}
+            >
+              <Text style={s.missedBtnTxt}>{option.label}</Text>
+              <Text style={s.missedBtnHint}>{option.hint}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  // ── Habit card ───────────────────────────────────────────────────────────────
+
+  const renderHabitCard = () => (
+    <View style={s.habitCard}>
+      <View style={s.habitHeader}>
+        <Text style={s.habitTitle}>Today's habits</Text>
+        <Text style={s.habitMeta}>{Math.round(habitAdherencePercent)}% this phase</Text>
+      </View>
+      <View style={s.habitRow}>
+        {HABITS.map((habit) => {
+          const done = todayHabits?.[habit.key] === true;
+          return (
+            <TouchableOpacity
+              key={habit.key}
+              style={[s.habitChip, done && s.habitChipOn]}
+              onPress={() => handleToggleHabit(habit.key)}
+              disabled={!onToggleHabit}
+              activeOpacity={0.75}
+            >
+              <Text style={s.habitIcon}>{done ? '✓' : habit.icon}</Text>
+              <Text style={[s.habitLabel, done && s.habitLabelOn]}>{habit.label}</Text>
+              <Text style={s.habitHint}>{habit.hint}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
   // ── Template picker modal ────────────────────────────────────────────────────
 
   const renderTemplateModal = () => (
@@ -1100,6 +1282,8 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
           {hasActivePlan && weeks.length > 0 && (
             <>
               {renderPlanCard()}
+              {renderMissedWorkoutCard()}
+              {renderHabitCard()}
               {weeks.map((w, i) => renderWeek(w, i))}
             </>
           )}
@@ -1133,6 +1317,8 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
         </View>
       )}
 
+      <RestTimerBanner />
+
       {renderTemplateModal()}
     </View>
   );
@@ -1228,6 +1414,43 @@ const s = StyleSheet.create({
     borderRadius: 20, padding: 22,
     borderWidth: 1.5, borderColor: C.accentBorder,
   },
+  missedCard: {
+    marginHorizontal: 16, marginBottom: 24,
+    borderRadius: 18, padding: 16,
+    backgroundColor: C.warnDim, borderWidth: 1, borderColor: C.warnBorder,
+  },
+  missedHeader:  { flexDirection: 'row', alignItems: 'flex-start', marginBottom: 12, gap: 10 },
+  missedTitle:   { fontSize: 14, fontWeight: '700', color: C.warn, marginBottom: 3 },
+  missedMeta:    { fontSize: 12, color: C.textSub },
+  missedClose:   { fontSize: 13, fontWeight: '600', color: C.textMuted },
+  missedActions: { flexDirection: 'row', gap: 8 },
+  missedBtn: {
+    flex: 1, alignItems: 'center', gap: 2,
+    paddingVertical: 10, borderRadius: 12,
+    backgroundColor: C.surface, borderWidth: 1, borderColor: C.borderMid,
+  },
+  missedBtnBusy: { opacity: 0.5 },
+  missedBtnTxt:  { fontSize: 12, fontWeight: '700', color: C.text },
+  missedBtnHint: { fontSize: 10, color: C.textMuted },
+  habitCard: {
+    marginHorizontal: 16, marginBottom: 24,
+    borderRadius: 18, padding: 16,
+    backgroundColor: C.card, borderWidth: 1, borderColor: C.border,
+  },
+  habitHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 12 },
+  habitTitle:  { fontSize: 14, fontWeight: '700', color: C.text },
+  habitMeta:   { fontSize: 11, fontWeight: '600', color: C.textMuted },
+  habitRow:    { flexDirection: 'row', gap: 8 },
+  habitChip: {
+    flex: 1, alignItems: 'center', gap: 3,
+    paddingVertical: 12, borderRadius: 14,
+    backgroundColor: C.surface, borderWidth: 1, borderColor: C.borderMid,
+  },
+  habitChipOn:  { backgroundColor: C.successDim, borderColor: C.successBorder },
+  habitIcon:    { fontSize: 18, color: C.success },
+  habitLabel:   { fontSize: 12, fontWeight: '700', color: C.textSub },
+  habitLabelOn: { color: C.success },
+  habitHint:    { fontSize: 10, color: C.textMuted },
   planCardTop: { flexDirection: 'row', alignItems: 'center', marginBottom: 20, gap: 14 },
   planName:    { fontSize: 22, fontWeight: '800', color: C.text, letterSpacing: -0.5, marginBottom: 6 },
   planMeta:    { fontSize: 13, color: C.textMuted, fontWeight: '500', lineHeight: 18 },
@@ -1304,6 +1527,15 @@ const s = StyleSheet.create({
     borderColor: C.successBorder,
   },
   weekStatusDoneTxt:    { fontSize: 9, fontWeight: '700', color: C.success },
+  weekDeloadBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 5,
+    backgroundColor: C.warnDim,
+    borderWidth: 1,
+    borderColor: C.warnBorder,
+  },
+  weekDeloadTxt: { fontSize: 9, fontWeight: '700', color: C.warn, letterSpacing: 0.4 },
   weekStatusCurrent:    { backgroundColor: C.accentDim, borderColor: C.accentBorder },
   weekStatusCurrentTxt: { fontSize: 9, fontWeight: '700', color: C.accent },
   // ── Day card ─────────────────────────────────────────────────────────────
@@ -1671,6 +1903,7 @@ const s = StyleSheet.create({
   completionBannerIcon: { fontSize: 22, color: C.success },
   completionBannerText: { fontSize: 14, fontWeight: '700', color: C.success, marginBottom: 2 },
   completionBannerSub:  { fontSize: 11, color: C.textMuted },
+  completionRecord:     { fontSize: 12, color: C.text, marginTop: 4 },
 
   nextUpBadge:    { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 6, backgroundColor: C.accentDim, borderWidth: 1, borderColor: C.accentBorder },
   nextUpBadgeTxt: { fontSize: 10, fontWeight: '700', color: C.accent },
@@ -13,6 +13,7 @@ import {
   Animated,
   Easing,
   PanResponder,
+  TextInput,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useFocusEffect } from '@react-navigation/native';
@@ -26,14 +27,82 @@ import {
   WorkoutSessionExercise,
   MuscleGroup,
   PlanDay,
+  WorkoutSetEntry,
+  ExerciseGroupType,
+  ExerciseLoadMode,
+  ExerciseMeasurementType,
+  UnitSystem,
 } from '../types/domain';
 import { useSupabaseExercises } from '../hooks/useSupabaseExercises';
+import { useExerciseDefaults } from '../hooks/useExerciseDefaults';
 import { ExerciseCatalogEntry } from '../services/workoutService';
 import { mapMuscleNameToGroup } from '../utils/workoutAnalytics';
-import { getBodyPartLabel } from '../utils';
+import { getBodyPartLabel, isTrainingDay } from '../utils';
 import { formatLocalDateYMD } from '../utils/date';
+import { EMPTY_PLAN_EDIT_HISTORY, PlanEditHistory } from '../utils/planEditHistory';
 import { fetchWorkoutCompletionMap } from '../services/workoutService';
 import { runLayoutAnimation } from '../utils/layoutAnimation';
+import {
+  EXERCISE_GROUP_LABELS,
+  formatExerciseGroupSummary,
+  linkExerciseWithNext,
+  resolveGroupRestSeconds,
+  unlinkExercise,
+  updateExerciseGroup,
+} from '../utils/exerciseGroups';
+import {
+  SetPrefill,
+  buildSetPrefills,
+  findPreviousExerciseSets,
+  findSessionExercise,
+  isSameExercise,
+  isSetLogged,
+  resizeSetDetails,
+} from '../utils/setLogging';
+import {
+  MEASUREMENT_FIELDS,
+  MEASUREMENT_PRIMARY_FIELD,
+  MEASUREMENT_TYPES,
+  MEASUREMENT_TYPE_LABELS,
+  SetMeasureField,
+  formatDuration,
+  inferMeasurementType,
+  isConditioningMeasurement,
+  parseDurationInput,
+  resolveMeasurementType,
+} from '../utils/exerciseMeasurement';
+import { resolveRepPrescription } from '../utils/repPrescription';
+import { LOAD_MODES, LOAD_MODE_LABELS, inferLoadMode, resolveLoadMode } from '../utils/exerciseLoad';
+import {
+  fromDisplayWeight,
+  getUnitSystem,
+  getWeightUnit,
+  toDisplayLoad,
+  toDisplayWeight,
+} from '../utils/units';
+import {
+  DEFAULT_LOADING_SETUP,
+  calculatePlates,
+  findWarmupExerciseIndex,
+  formatPlates,
+  fromLoadingUnit,
+  generateWarmupSets,
+  toLoadingUnit,
+} from '../utils/plateLoading';
+import {
+  getRestTimer,
+  resolveRestTargetSeconds,
+  startRestTimer,
+  stopRestTimer,
+} from '../services/restTimerService';
+import { RestTimerBanner } from '../components/RestTimerBanner';
+import {
+  InjuryAssessment,
+  assessInjuryRisk,
+  findSafeSubstitute,
+  formatInjuryArea,
+  normalizeInjuryAreas,
+} from '../services/injuryRules';
 
 
 type PlansScreenProps = {
@@ -46,8 +115,15 @@ type PlansScreenProps = {
   onDeleteExercise?: (planWorkoutId: string, planExerciseId: string) => Promise<void>;
   onToggleComplete?: (date: string, exerciseName: string, exerciseId?: string, currentExercises?: WorkoutSessionExercise[]) => void | Promise<void>;
   onMarkAllComplete?: (date: string) => void | Promise<void>;
-  canUndoWorkoutSwap?: (date: string) => boolean;
-  onUndoLastWorkoutSwap?: (date: string) => Promise<boolean>;
+  onLogSets?: (
+    date: string,
+    exercise: Pick<WorkoutSessionExercise, 'exerciseId' | 'name'>,
+    setDetails: WorkoutSetEntry[],
+    warmupSets?: WorkoutSetEntry[]
+  ) => Promise<void>;
+  getPlanEditHistory?: (date: string) => PlanEditHistory;
+  onUndoPlanEdit?: (date: string) => Promise<boolean>;
+  onRedoPlanEdit?: (date: string) => Promise<boolean>;
   embedded?: boolean;
   openExercisePickerSignal?: number;
   selectedDateOverride?: string;
@@ -68,9 +144,19 @@ const COLORS = {
   border: 'rgba(255,255,255,0.06)',
   borderStrong: 'rgba(255,255,255,0.12)',
   success: '#00F5A0',
+  warning: '#FFC442',
+  warningDim: 'rgba(255,196,66,0.08)',
+  warningBorder: 'rgba(255,196,66,0.3)',
 };
 const MAX_LIBRARY_ITEMS = 30;
+
+type CatalogPickerItem = {
+  entry: ExerciseCatalogEntry;
+  assessment: InjuryAssessment | null;
+};
 const REP_PRESETS = ['5-8', '8-12', '12-15'] as const;
+const GROUP_TYPES: ExerciseGroupType[] = ['superset', 'circuit', 'giant_set'];
+const GROUP_REST_PRESETS = [30, 60, 90, 120] as const;
 
 const KNOWN_BODY_PARTS = new Set(['chest', 'back', 'legs', 'shoulders', 'arms', 'core']);
 
@@ -118,6 +204,224 @@ const getPhaseWeek = (phase: PhasePlan) => {
   return Math.max(1, Math.min(phase.expectedWeeks || week, week));
 };
 
+type SetDraftField = SetMeasureField | 'rpe' | 'rest';
+type SetDraft = Record<SetDraftField, string>;
+
+const EMPTY_SET_DRAFT: SetDraft = {
+  weight: '',
+  reps: '',
+  durationSeconds: '',
+  distanceMeters: '',
+  calories: '',
+  rpe: '',
+  rest: '',
+};
+
+const SET_FIELD_HEADERS: Record<SetMeasureField, string> = {
+  weight: 'Weight',
+  reps: 'Reps',
+  durationSeconds: 'Time',
+  distanceMeters: 'Km',
+  calories: 'Cal',
+};
+
+/** Weight column header per load mode; the unit follows. */
+const LOAD_MODE_WEIGHT_HEADERS: Record<ExerciseLoadMode, string> = {
+  external: 'Weight',
+  bodyweight_plus: '+',
+  assisted: 'Assist',
+};
+
+const SET_FIELD_KEYBOARDS: Record<SetMeasureField, 'decimal-pad' | 'number-pad' | 'numbers-and-punctuation'> = {
+  weight: 'decimal-pad',
+  reps: 'number-pad',
+  durationSeconds: 'numbers-and-punctuation',
+  distanceMeters: 'decimal-pad',
+  calories: 'number-pad',
+};
+
+const toDraftValue = (value?: number | null) => (value == null ? '' : String(value));
+
+const parseDraftNumber = (value: string, fallback: number | null): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return fallback;
+  const numeric = Number(trimmed.replace(',', '.'));
+  return Number.isFinite(numeric) ? numeric : fallback;
+};
+
+// Time is typed as m:ss, distance in km and weight in the user's unit; sets
+// store seconds, meters and kg.
+const toFieldDraft = (
+  field: SetMeasureField,
+  value: number | null | undefined,
+  unitSystem: UnitSystem
+): string => {
+  if (value == null) return '';
+  if (field === 'durationSeconds') return formatDuration(value);
+  if (field === 'distanceMeters') return String(Number((value / 1000).toFixed(2)));
+  if (field === 'weight') return String(toDisplayWeight(value, unitSystem));
+  return String(value);
+};
+
+const parseFieldDraft = (
+  field: SetMeasureField,
+  value: string,
+  fallback: number | null,
+  unitSystem: UnitSystem
+): number | null => {
+  if (!value.trim()) return fallback;
+  if (field === 'durationSeconds') return parseDurationInput(value) ?? fallback;
+  if (field === 'weight') {
+    const weight = parseDraftNumber(value, null);
+    return weight === null ? fallback : fromDisplayWeight(weight, unitSystem);
+  }
+  if (field === 'distanceMeters') {
+    const km = parseDraftNumber(value, null);
+    return km === null ? fallback : Math.round(km * 1000);
+  }
+  return parseDraftNumber(value, fallback);
+};
+
+const toSetDraft = (set: WorkoutSetEntry | null | undefined, unitSystem: UnitSystem): SetDraft => ({
+  weight: toFieldDraft('weight', set?.weight, unitSystem),
+  reps: toFieldDraft('reps', set?.reps, unitSystem),
+  durationSeconds: toFieldDraft('durationSeconds', set?.durationSeconds, unitSystem),
+  distanceMeters: toFieldDraft('distanceMeters', set?.distanceMeters, unitSystem),
+  calories: toFieldDraft('calories', set?.calories, unitSystem),
+  rpe: toDraftValue(set?.rpe),
+  rest: toDraftValue(set?.restSeconds),
+});
+
+type SetLoggingGridProps = {
+  loggedSets: WorkoutSetEntry[];
+  prefills: SetPrefill[];
+  measurementType: ExerciseMeasurementType;
+  loadMode: ExerciseLoadMode;
+  unitSystem: UnitSystem;
+  disabled?: boolean;
+  onLogSet: (setIndex: number, entry: WorkoutSetEntry) => void;
+};
+
+const SetLoggingGrid: React.FC<SetLoggingGridProps> = ({
+  loggedSets,
+  prefills,
+  measurementType,
+  loadMode,
+  unitSystem,
+  disabled,
+  onLogSet,
+}) => {
+  const fields = MEASUREMENT_FIELDS[measurementType];
+  const [drafts, setDrafts] = useState<SetDraft[]>(() =>
+    prefills.map((_, index) => toSetDraft(loggedSets[index], unitSystem))
+  );
+
+  // Suggested weights show on a plate increment, and that is what gets logged
+  const getPrefillValue = (prefill: SetPrefill, field: SetMeasureField) =>
+    field === 'weight' && prefill.weight != null
+      ? fromDisplayWeight(toDisplayLoad(prefill.weight, unitSystem), unitSystem)
+      : prefill[field];
+
+  useEffect(() => {
+    setDrafts((prev) => prefills.map((_, index) => prev[index] ?? EMPTY_SET_DRAFT));
+  }, [prefills]);
+
+  const updateDraft = (index: number, field: SetDraftField, value: string) => {
+    setDrafts((prev) => {
+      const next = [...prev];
+      next[index] = { ...next[index], [field]: value };
+      return next;
+    });
+  };
+
+  const handleLog = (index: number) => {
+    const draft = drafts[index];
+    const prefill = prefills[index];
+    if (!draft || !prefill) return;
+    const measured: Partial<Record<SetMeasureField, number | null>> = {};
+    fields.forEach((field) => {
+      measured[field] = parseFieldDraft(field, draft[field], getPrefillValue(prefill, field), unitSystem);
+    });
+    const primary = measured[MEASUREMENT_PRIMARY_FIELD[measurementType]];
+    if (!primary || primary <= 0) return;
+    onLogSet(index, {
+      setNumber: index + 1,
+      weight: measured.weight ?? null,
+      reps: measured.reps != null ? Math.round(measured.reps) : null,
+      durationSeconds: measured.durationSeconds ?? null,
+      distanceMeters: measured.distanceMeters ?? null,
+      calories: measured.calories != null ? Math.round(measured.calories) : null,
+      rpe: parseDraftNumber(draft.rpe, prefill.rpe),
+      restSeconds: parseDraftNumber(draft.rest, prefill.restSeconds),
+    });
+  };
+
+  const renderInput = (
+    index: number,
+    draft: SetDraft,
+    field: SetDraftField,
+    placeholder: string,
+    keyboardType: 'decimal-pad' | 'number-pad' | 'numbers-and-punctuation'
+  ) => (
+    <TextInput
+      key={field}
+      style={styles.setGridInput}
+      value={draft[field]}
+      onChangeText={(value) => updateDraft(index, field, value)}
+      placeholder={placeholder || '–'}
+      placeholderTextColor={COLORS.textTertiary}
+      keyboardType={keyboardType}
+      editable={!disabled}
+    />
+  );
+
+  return (
+    <View style={styles.setGrid}>
+      <View style={styles.setGridHeaderRow}>
+        <Text style={[styles.setGridHeader, styles.setGridIndexCol]}>Set</Text>
+        {fields.map((field) => (
+          <Text key={field} style={styles.setGridHeader}>
+            {field === 'weight'
+              ? `${LOAD_MODE_WEIGHT_HEADERS[loadMode]} ${getWeightUnit(unitSystem)}`
+              : SET_FIELD_HEADERS[field]}
+          </Text>
+        ))}
+        <Text style={styles.setGridHeader}>RPE</Text>
+        <Text style={styles.setGridHeader}>Rest s</Text>
+        <View style={styles.setGridActionCol} />
+      </View>
+      {prefills.map((prefill, index) => {
+        const draft = drafts[index] ?? EMPTY_SET_DRAFT;
+        const logged = isSetLogged(loggedSets[index]);
+        return (
+          <View key={index} style={[styles.setGridRow, logged && styles.setGridRowLogged]}>
+            <Text style={[styles.setGridIndex, styles.setGridIndexCol]}>{index + 1}</Text>
+            {fields.map((field) =>
+              renderInput(
+                index,
+                draft,
+                field,
+                toFieldDraft(field, getPrefillValue(prefill, field), unitSystem),
+                SET_FIELD_KEYBOARDS[field]
+              )
+            )}
+            {renderInput(index, draft, 'rpe', toDraftValue(prefill.rpe), 'decimal-pad')}
+            {renderInput(index, draft, 'rest', toDraftValue(prefill.restSeconds), 'number-pad')}
+            <TouchableOpacity
+              style={[styles.setGridActionCol, styles.setLogButton, logged && styles.setLogButtonDone]}
+              onPress={() => handleLog(index)}
+              disabled={disabled}
+              hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+            >
+              <Text style={[styles.setLogButtonText, logged && styles.setLogButtonTextDone]}>✓</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
 export const PlansScreen: React.FC<PlansScreenProps> = ({
   user,
   phase,
@@ -128,8 +432,10 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
   onDeleteExercise,
   onToggleComplete,
   onMarkAllComplete,
-  canUndoWorkoutSwap,
-  onUndoLastWorkoutSwap,
+  onLogSets,
+  getPlanEditHistory,
+  onUndoPlanEdit,
+  onRedoPlanEdit,
   embedded = false,
   openExercisePickerSignal,
   selectedDateOverride,
@@ -142,13 +448,14 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
     contentDuration: 140,
   });
   const { exercises: exerciseCatalog, isLoading: catalogLoading } = useSupabaseExercises();
+  const { defaults: exerciseDefaults } = useExerciseDefaults(user.id);
   
   const [selectedDate, setSelectedDate] = useState(() => formatLocalDateYMD(new Date()));
   const [exerciseModalVisible, setExerciseModalVisible] = useState(false);
   const [completionMap, setCompletionMap] = useState<Record<string, boolean>>({});
   const [editingExerciseIndex, setEditingExerciseIndex] = useState<number | null>(null);
   const [isBulkCompleting, setIsBulkCompleting] = useState(false);
-  const [isUndoingSwap, setIsUndoingSwap] = useState(false);
+  const [isSteppingHistory, setIsSteppingHistory] = useState(false);
   const autosaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastSaveErrorAtRef = useRef(0);
   const lastSaveErrorMessageRef = useRef<string | null>(null);
@@ -240,12 +547,21 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
       const dateStr = formatLocalDateYMD(date);
       const planDay =
         resolvedPlannedWorkouts.find((entry) => entry.planId === phase.id && entry.date === dateStr) || null;
+      // Without loaded plan data, chosen weekdays still mark the day as scheduled
+      const isScheduled = planDay
+        ? Boolean(planDay.workout?.exercises.length)
+        : Boolean(user.planPreferences?.trainingDays?.length) &&
+          isTrainingDay(user.trainingSplit, date.getDay(), user.planPreferences, {
+            phaseStartDate: phase.startDate,
+            date: dateStr,
+          });
       return {
         dateStr,
         planDay,
+        isScheduled,
       };
     });
-  }, [resolvedPlannedWorkouts, phase?.id, selectedDate]);
+  }, [resolvedPlannedWorkouts, phase?.id, phase?.startDate, selectedDate, user.trainingSplit, user.planPreferences]);
 
   const selectedPlan =
     weekPlans.find((plan) => plan.dateStr === selectedDate) || weekPlans[0];
@@ -267,7 +583,8 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
     selectedPlan?.planDay?.workout?.exercises
       ?.map(
         (exercise) =>
-          `${exercise.name}:${exercise.sets ?? ''}:${exercise.reps ?? ''}:${exercise.displayOrder ?? ''}`
+          `${exercise.name}:${exercise.sets ?? ''}:${exercise.reps ?? ''}:${exercise.displayOrder ?? ''}:${exercise.measurementType ?? ''}` +
+          (exercise.group ? `:${exercise.group.id}:${formatExerciseGroupSummary(exercise.group)}` : '')
       )
       .join('|') ?? '';
 
@@ -346,6 +663,10 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
         movementPattern: exercise.movementPattern,
         exerciseId: exercise.exerciseId ?? undefined,
         displayOrder: exercise.displayOrder,
+        group: exercise.group ?? null,
+        repTarget: exercise.repTarget ?? null,
+        measurementType: exercise.measurementType ?? null,
+        loadMode: exercise.loadMode ?? null,
       }));
       setEditingExercises(mapped);
       setIsDirty(false);
@@ -468,27 +789,42 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
     if (completionMap[selectedPlan.dateStr]) return null;
     return embedded ? null : `${completedCount}/${totalExercises} exercises`;
   }, [selectedPlan, editingExercises, completionMap, todayKey, embedded]);
-  const showDayHeader = Boolean(selectedDayMeta) && !embedded;
-  const canUndoSelectedDaySwap = useMemo(
-    () => (selectedPlan ? Boolean(canUndoWorkoutSwap?.(selectedPlan.dateStr)) : false),
-    [canUndoWorkoutSwap, selectedPlan]
+  const selectedDayHistory = useMemo(
+    () =>
+      selectedPlan && getPlanEditHistory
+        ? getPlanEditHistory(selectedPlan.dateStr)
+        : EMPTY_PLAN_EDIT_HISTORY,
+    [getPlanEditHistory, selectedPlan]
   );
-
-  const handleUndoSwapForDay = useCallback(async () => {
-    if (!selectedPlan || !onUndoLastWorkoutSwap || isUndoingSwap) return;
-    setIsUndoingSwap(true);
-    try {
-      const didUndo = await onUndoLastWorkoutSwap(selectedPlan.dateStr);
-      if (!didUndo) {
-        Alert.alert('Undo unavailable', 'No previous workout swap found for this day.');
+  const hasSelectedDayHistory =
+    selectedDayHistory.undo.length > 0 || selectedDayHistory.redo.length > 0;
+  const showDayHeader = (Boolean(selectedDayMeta) || hasSelectedDayHistory) && !embedded;
+
+  const handleStepHistoryForDay = useCallback(
+    async (direction: 'undo' | 'redo') => {
+      const step = direction === 'undo' ? onUndoPlanEdit : onRedoPlanEdit;
+      if (!selectedPlan || !step || isSteppingHistory) return;
+      setIsSteppingHistory(true);
+      try {
+        const didStep = await step(selectedPlan.dateStr);
+        if (!didStep) {
+          Alert.alert(
+            direction === 'undo' ? 'Undo unavailable' : 'Redo unavailable',
+            'No matching change found for this day.'
+          );
+        }
+      } catch (err) {
+        console.error(`Failed to ${direction} plan edit:`, err);
+        Alert.alert(
+          direction === 'undo' ? 'Undo failed' : 'Redo failed',
+          'Could not update the workout. Please try again.'
+        );
+      } finally {
+        setIsSteppingHistory(false);
       }
-    } catch (err) {
-      console.error('Failed to undo workout swap:', err);
-      Alert.alert('Undo failed', 'Could not restore the previous workout. Please try again.');
-    } finally {
-      setIsUndoingSwap(false);
-    }
-  }, [isUndoingSwap, onUndoLastWorkoutSwap, selectedPlan]);
+    },
+    [isSteppingHistory, onRedoPlanEdit, onUndoPlanEdit, selectedPlan]
+  );
 
   const saveCurrentSession = useCallback(
     async (plan: typeof selectedPlan, exercises: WorkoutSessionExercise[]) => {
@@ -767,6 +1103,11 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
   const handleChangeSets = (index: number, value: string) => {
     const numeric = parseInt(value, 10);
     setEditingExercises((prev) => {
+      // Every exercise in a group runs once per round, so sets move together
+      const group = prev[index]?.group;
+      if (group && Number.isFinite(numeric) && numeric > 0) {
+        return updateExerciseGroup(prev, group.id, { rounds: numeric });
+      }
       const next = [...prev];
       next[index] = { ...next[index], sets: Number.isFinite(numeric) ? numeric : 0 };
       return next;
@@ -789,6 +1130,201 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
     setIsDirty(true);
   };
 
+  const handleEditGroups = (
+    transform: (exercises: WorkoutSessionExercise[]) => WorkoutSessionExercise[]
+  ) => {
+    setEditingExercises((prev) => transform(prev));
+    if (selectedPlan) {
+      localEditsDateRef.current = selectedPlan.dateStr;
+    }
+    setIsDirty(true);
+  };
+
+  const editingExercise =
+    editingExerciseIndex !== null ? editingExercises[editingExerciseIndex] : undefined;
+  const editingMeasurementType = editingExercise ? resolveMeasurementType(editingExercise) : null;
+  const showRepPresets = !editingMeasurementType || !isConditioningMeasurement(editingMeasurementType);
+  const editingLoadMode = editingExercise ? resolveLoadMode(editingExercise) : null;
+
+  const editingLoggedSets = useMemo(() => {
+    if (!editingExercise) return [];
+    const sessionExercise = findSessionExercise(sessionForPlanDate, editingExercise);
+    return resizeSetDetails(sessionExercise?.setDetails ?? [], editingExercise.sets ?? 4);
+  }, [editingExercise, sessionForPlanDate]);
+
+  const editingExerciseDefault = useMemo(
+    () =>
+      editingExercise?.exerciseId
+        ? exerciseDefaults.find((entry) => entry.exerciseId === editingExercise.exerciseId)
+        : undefined,
+    [editingExercise, exerciseDefaults]
+  );
+
+  const editingSetPrefills = useMemo(() => {
+    if (!editingExercise || !selectedPlan) return [];
+    return buildSetPrefills(editingExercise, {
+      previousSets: findPreviousExerciseSets(workoutSessions, editingExercise, selectedPlan.dateStr),
+      exerciseDefault: editingExerciseDefault,
+    });
+  }, [editingExercise, editingExerciseDefault, selectedPlan, workoutSessions]);
+
+  const loadingSetup = user.trackingPreferences?.loading ?? DEFAULT_LOADING_SETUP;
+  const warmupExerciseIndex = useMemo(
+    () => findWarmupExerciseIndex(editingExercises),
+    [editingExercises]
+  );
+  const editingWarmupSets = useMemo(
+    () =>
+      editingExercise
+        ? findSessionExercise(sessionForPlanDate, editingExercise)?.warmupSets ?? []
+        : [],
+    [editingExercise, sessionForPlanDate]
+  );
+  const editingWorkingWeight =
+    editingLoggedSets[0]?.weight ?? editingSetPrefills[0]?.weight ?? null;
+
+  /** Replaces the warm-up ramp; an empty list clears it. Working sets stay as logged. */
+  const handleSetWarmups = async (index: number, warmupSets: WorkoutSetEntry[]) => {
+    if (!selectedPlan || !onLogSets) return;
+    if (selectedPlan.dateStr > todayKey) {
+      showFutureCompletionToast();
+      return;
+    }
+    const exercise = editingExercisesRef.current[index];
+    if (!exercise) return;
+    localEditsDateRef.current = selectedPlan.dateStr;
+    try {
+      await onLogSets(selectedPlan.dateStr, exercise, editingLoggedSets, warmupSets);
+    } catch (err) {
+      console.error('Failed to save warm-up sets:', err);
+      Alert.alert('Save failed', 'Could not save warm-up sets. Please try again.');
+    }
+  };
+
+  const handleGenerateWarmups = (index: number) => {
+    if (!editingWorkingWeight) return;
+    const { unit } = loadingSetup;
+    const warmupSets = generateWarmupSets(toLoadingUnit(editingWorkingWeight, unit), loadingSetup).map(
+      (set) => ({ ...set, weight: set.weight != null ? fromLoadingUnit(set.weight, unit) : null })
+    );
+    void handleSetWarmups(index, warmupSets);
+  };
+
+  const renderWarmupSection = (index: number) => {
+    if (index !== warmupExerciseIndex || !onLogSets) return null;
+    const { unit } = loadingSetup;
+    const working = editingWorkingWeight ? toLoadingUnit(editingWorkingWeight, unit) : null;
+    const workingLoadout = working ? calculatePlates(working, loadingSetup) : null;
+    return (
+      <>
+        <View style={styles.editRowSpacer} />
+        <View style={styles.editRow}>
+          <Text style={styles.editLabel}>Warm-up</Text>
+          {editingWarmupSets.length ? (
+            <TouchableOpacity style={styles.presetChip} onPress={() => void handleSetWarmups(index, [])}>
+              <Text style={styles.presetText}>Clear</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[styles.presetChip, !working && styles.presetChipDisabled]}
+              onPress={() => handleGenerateWarmups(index)}
+              disabled={!working}
+            >
+              <Text style={styles.presetText}>Generate</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {working && workingLoadout ? (
+          <Text style={styles.warmupHint}>
+            {`Working ${working} ${unit}: ${formatPlates(workingLoadout.plates)} per side`}
+            {workingLoadout.remainder > 0 ? ` · ${workingLoadout.remainder} ${unit} short` : ''}
+          </Text>
+        ) : (
+          <Text style={styles.warmupHint}>Log or set a working weight to plan warm-ups.</Text>
+        )}
+        {editingWarmupSets.map((set, setIndex) => {
+          const weight = set.weight != null ? toLoadingUnit(set.weight, unit) : null;
+          return (
+            <View key={setIndex} style={styles.warmupRow}>
+              <Text style={[styles.setGridIndex, styles.setGridIndexCol]}>{`W${setIndex + 1}`}</Text>
+              <Text style={styles.warmupText}>{`${weight ?? '–'} ${unit} × ${set.reps ?? '–'}`}</Text>
+              <Text style={styles.warmupPlates}>
+                {weight != null ? formatPlates(calculatePlates(weight, loadingSetup).plates) : ''}
+              </Text>
+            </View>
+          );
+        })}
+      </>
+    );
+  };
+
+  const handleLogSet = async (index: number, setIndex: number, entry: WorkoutSetEntry) => {
+    if (!selectedPlan || !onLogSets) return;
+    if (selectedPlan.dateStr > todayKey) {
+      showFutureCompletionToast();
+      return;
+    }
+    const exercise = editingExercisesRef.current[index];
+    if (!exercise) return;
+    const date = selectedPlan.dateStr;
+    const loggedAt = Date.now();
+    const nextSets = [...editingLoggedSets];
+    nextSets[setIndex] = entry;
+
+    // A rest running for this exercise ends with this set and is saved in the
+    // same write; a rest for any other exercise is closed out separately first.
+    const runningRest = getRestTimer();
+    if (runningRest) {
+      const restTarget = { exerciseId: runningRest.exerciseId ?? undefined, name: runningRest.exerciseName };
+      if (runningRest.date === date && isSameExercise(restTarget, exercise)) {
+        const rest = await stopRestTimer({ record: false });
+        if (rest && rest.setIndex !== setIndex && nextSets[rest.setIndex]) {
+          nextSets[rest.setIndex] = { ...nextSets[rest.setIndex], restSeconds: rest.restSeconds };
+        }
+      } else {
+        await stopRestTimer();
+      }
+    }
+
+    const allLogged = nextSets.every((set) => isSetLogged(set));
+    if (allLogged && !exercise.completed) {
+      setEditingExercises((prev) => {
+        const next = [...prev];
+        if (!next[index]) return prev;
+        next[index] = { ...next[index], completed: true };
+        editingExercisesRef.current = next;
+        return next;
+      });
+    }
+    localEditsDateRef.current = date;
+    try {
+      await onLogSets(date, exercise, nextSets);
+    } catch (err) {
+      console.error('Failed to log workout sets:', err);
+      Alert.alert('Save failed', 'Could not save this set. Please try again.');
+      return;
+    }
+
+    if (allLogged) return;
+    // Inside a group the next exercise follows without rest; the group's rest
+    // comes once the round is done.
+    const groupRestSeconds = resolveGroupRestSeconds(editingExercisesRef.current, index);
+    if (groupRestSeconds === 0) return;
+    await startRestTimer({
+      date,
+      exerciseId: exercise.exerciseId,
+      exerciseName: exercise.name,
+      setIndex,
+      startedAt: loggedAt,
+      targetSeconds:
+        groupRestSeconds ??
+        resolveRestTargetSeconds(
+          editingExerciseDefault?.defaultRestSeconds,
+          entry.restSeconds ?? editingSetPrefills[setIndex]?.restSeconds
+        ),
+    });
+  };
+
   useEffect(() => {
     if (!selectedPlan || !isDirty) return;
     if (isDeletingRef.current) return;
@@ -858,11 +1394,210 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
     };
   }, [flushAutosave]);
 
-  const filteredCatalog = useMemo(
-    () => exerciseCatalog.slice(0, MAX_LIBRARY_ITEMS),
-    [exerciseCatalog]
+  const injuries = useMemo(
+    () => normalizeInjuryAreas(user.planPreferences?.injuries),
+    [user.planPreferences?.injuries]
+  );
+
+  // Catalog muscles are raw names; screen against both those and the mapped groups.
+  const screenableCatalog = useMemo(
+    () =>
+      exerciseCatalog.map((entry) => {
+        const rawParts = [...entry.primaryMuscles, ...entry.secondaryMuscles].map((name) =>
+          name.toLowerCase()
+        );
+        return {
+          entry,
+          name: entry.name,
+          movementPattern: entry.movementPattern,
+          bodyParts: Array.from(new Set([...rawParts, ...convertCatalogExercise(entry).bodyParts])),
+        };
+      }),
+    [convertCatalogExercise, exerciseCatalog]
+  );
+
+  const filteredCatalog = useMemo((): CatalogPickerItem[] => {
+    if (!injuries.length) {
+      return exerciseCatalog
+        .slice(0, MAX_LIBRARY_ITEMS)
+        .map((entry) => ({ entry, assessment: null }));
+    }
+    return screenableCatalog
+      .map((candidate) => ({
+        entry: candidate.entry,
+        assessment: assessInjuryRisk(candidate, injuries),
+      }))
+      .filter(({ assessment }) => assessment?.risk !== 'avoid')
+      .sort((a, b) => Number(a.assessment?.risk === 'caution') - Number(b.assessment?.risk === 'caution'))
+      .slice(0, MAX_LIBRARY_ITEMS);
+  }, [exerciseCatalog, injuries, screenableCatalog]);
+
+  const editingInjuryAssessment = useMemo(
+    () => (editingExercise && injuries.length ? assessInjuryRisk(editingExercise, injuries) : null),
+    [editingExercise, injuries]
   );
 
+  const editingSafeSubstitute = useMemo(() => {
+    if (!editingExercise || editingInjuryAssessment?.risk !== 'avoid') return null;
+    return findSafeSubstitute(editingExercise, screenableCatalog, injuries)?.entry ?? null;
+  }, [editingExercise, editingInjuryAssessment, injuries, screenableCatalog]);
+
+  const handleSubstituteExercise = (index: number, entry: ExerciseCatalogEntry) => {
+    const current = editingExercisesRef.current[index];
+    if (!current || !selectedPlan) return;
+    const substitute = convertCatalogExercise(entry);
+    const substituteMeasurement = inferMeasurementType(substitute);
+    const repTarget = resolveRepPrescription(current);
+    // A hold only carries over to another timed exercise, and counted reps not to conditioning work
+    const keepsRepTarget =
+      repTarget?.kind === 'hold'
+        ? substituteMeasurement === 'time'
+        : !isConditioningMeasurement(substituteMeasurement);
+    // A chosen type sticks between lifts; switching to or between conditioning work re-infers it
+    const currentMeasurement = resolveMeasurementType(current);
+    const keepsMeasurementType =
+      currentMeasurement === substituteMeasurement ||
+      (!isConditioningMeasurement(currentMeasurement) && !isConditioningMeasurement(substituteMeasurement));
+    // Bodyweight modes only fit bodyweight movements, and an external load only fits a loaded one
+    const keepsLoadMode = (resolveLoadMode(current) === 'external') === (inferLoadMode(substitute) === 'external');
+    const next = [...editingExercisesRef.current];
+    // Only the movement changes; the slot keeps its prescription and superset
+    next[index] = {
+      ...current,
+      exerciseId: substitute.exerciseId,
+      name: substitute.name,
+      bodyParts: substitute.bodyParts,
+      movementPattern: substitute.movementPattern,
+      completed: false,
+      sets: current.sets,
+      reps: keepsRepTarget ? current.reps : substitute.reps,
+      repTarget: keepsRepTarget ? current.repTarget : null,
+      measurementType: keepsMeasurementType ? current.measurementType : null,
+      loadMode: keepsLoadMode ? current.loadMode : null,
+      displayOrder: current.displayOrder,
+      group: current.group,
+    };
+    editingExercisesRef.current = next;
+    setEditingExercises(next);
+    localEditsDateRef.current = selectedPlan.dateStr;
+    setIsDirty(true);
+  };
+
+  const handleChangeMeasurementType = (index: number, measurementType: ExerciseMeasurementType) => {
+    setEditingExercises((prev) => {
+      const next = [...prev];
+      next[index] = { ...next[index], measurementType };
+      return next;
+    });
+    if (selectedPlan) {
+      localEditsDateRef.current = selectedPlan.dateStr;
+    }
+    setIsDirty(true);
+  };
+
+  // Added or assisting weight needs a weight column, so bodyweight-only tracking gains one
+  const handleChangeLoadMode = (index: number, loadMode: ExerciseLoadMode) => {
+    setEditingExercises((prev) => {
+      const next = [...prev];
+      const exercise = next[index];
+      const measurementType =
+        loadMode !== 'external' && resolveMeasurementType(exercise) === 'reps_only'
+          ? 'weight_reps'
+          : exercise.measurementType;
+      next[index] = { ...exercise, loadMode, measurementType };
+      return next;
+    });
+    if (selectedPlan) {
+      localEditsDateRef.current = selectedPlan.dateStr;
+    }
+    setIsDirty(true);
+  };
+
+  const renderGroupControls = (index: number) => {
+    const exercise = editingExercises[index];
+    if (!exercise) return null;
+    const group = exercise.group;
+    const hasNext = index < editingExercises.length - 1;
+    if (!group) {
+      if (!hasNext) return null;
+      return (
+        <>
+          <View style={styles.editRowSpacer} />
+          <View style={styles.editRow}>
+            <Text style={styles.editLabel}>Group</Text>
+            <TouchableOpacity
+              style={styles.presetChip}
+              onPress={() => handleEditGroups((prev) => linkExerciseWithNext(prev, index))}
+            >
+              <Text style={styles.presetText}>Link with next</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.editRowSpacer} />
+        <View style={styles.editRow}>
+          <Text style={styles.editLabel}>Group</Text>
+          <View style={styles.presetRow}>
+            {GROUP_TYPES.map((type) => {
+              const isActive = group.type === type;
+              return (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.presetChip, isActive && styles.presetChipActive]}
+                  onPress={() => handleEditGroups((prev) => updateExerciseGroup(prev, group.id, { type }))}
+                >
+                  <Text style={[styles.presetText, isActive && styles.presetTextActive]}>
+                    {EXERCISE_GROUP_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+        <View style={styles.editRowSpacer} />
+        <View style={styles.editRow}>
+          <Text style={styles.editLabel}>Rest</Text>
+          <View style={styles.presetRow}>
+            {GROUP_REST_PRESETS.map((seconds) => {
+              const isActive = group.restSeconds === seconds;
+              return (
+                <TouchableOpacity
+                  key={seconds}
+                  style={[styles.presetChip, isActive && styles.presetChipActive]}
+                  onPress={() =>
+                    handleEditGroups((prev) =>
+                      updateExerciseGroup(prev, group.id, { restSeconds: seconds })
+                    )
+                  }
+                >
+                  <Text style={[styles.presetText, isActive && styles.presetTextActive]}>
+                    {seconds}s
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+        <View style={styles.groupActionsRow}>
+          {hasNext && editingExercises[index + 1]?.group?.id !== group.id ? (
+            <TouchableOpacity
+              onPress={() => handleEditGroups((prev) => linkExerciseWithNext(prev, index))}
+            >
+              <Text style={styles.groupActionText}>Link with next</Text>
+            </TouchableOpacity>
+          ) : null}
+          <TouchableOpacity onPress={() => handleEditGroups((prev) => unlinkExercise(prev, index))}>
+            <Text style={[styles.groupActionText, styles.groupActionTextMuted]}>Remove from group</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
   const renderSession = () => {
     if (!selectedPlan) {
       return (
@@ -990,6 +1725,8 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
             const repsValue = exercise.reps ?? '8-12';
             const localKey = exercise.id ?? cardKey;
             const isCompleted = Boolean(exercise.completed);
+            const group = exercise.group ?? null;
+            const startsGroup = Boolean(group) && editingExercises[idx - 1]?.group?.id !== group?.id;
             const swipeAnim = getSwipeAnimation(localKey);
             const swipeHintOpacity = swipeAnim.interpolate({
               inputRange: [0, 12, 90],
@@ -1070,7 +1807,10 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
                   transform: [{ scale: scaleAnim }],
                 }}
               >
-                <View style={styles.swipeContainer}>
+                {group && startsGroup ? (
+                  <Text style={styles.groupHeaderText}>{formatExerciseGroupSummary(group)}</Text>
+                ) : null}
+                <View style={[styles.swipeContainer, group && styles.swipeContainerGrouped]}>
                   <Animated.View
                     style={[styles.swipeCompleteHint, { opacity: swipeHintOpacity }]}
                     pointerEvents="none"
@@ -1209,8 +1949,7 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
                   {weekPlans.map((plan) => {
                     const { weekday, dayNumber } = formatDateLabel(plan.dateStr);
                     const isActive = plan.dateStr === selectedDate;
-                    const hasWorkout =
-                      plan.planDay?.workout && plan.planDay.workout.exercises.length > 0;
+                    const hasWorkout = plan.isScheduled;
                     const isFutureDay = plan.dateStr > todayKey;
                     const isCompletedDay = !isFutureDay && Boolean(completionMap[plan.dateStr]);
                     return (
@@ -1263,20 +2002,53 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
                 <View style={styles.dayInfo}>
                   <Text style={styles.dayMeta}>{selectedDayMeta}</Text>
                 </View>
-                {canUndoSelectedDaySwap && (
-                  <TouchableOpacity
-                    style={styles.undoSwapButton}
-                    onPress={handleUndoSwapForDay}
-                    disabled={isUndoingSwap}
-                    activeOpacity={0.75}
-                  >
-                    <Text style={styles.undoSwapButtonText}>
-                      {isUndoingSwap ? 'Undoing...' : 'Undo swap'}
-                    </Text>
-                  </TouchableOpacity>
+                {hasSelectedDayHistory && (
+                  <View style={styles.historyActions}>
+                    <TouchableOpacity
+                      style={[
+                        styles.undoSwapButton,
+                        !selectedDayHistory.undo.length && styles.historyButtonDisabled,
+                      ]}
+                      onPress={() => handleStepHistoryForDay('undo')}
+                      disabled={isSteppingHistory || !selectedDayHistory.undo.length}
+                      activeOpacity={0.75}
+                    >
+                      <Text style={styles.undoSwapButtonText}>Undo</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[
+                        styles.undoSwapButton,
+                        !selectedDayHistory.redo.length && styles.historyButtonDisabled,
+                      ]}
+                      onPress={() => handleStepHistoryForDay('redo')}
+                      disabled={isSteppingHistory || !selectedDayHistory.redo.length}
+                      activeOpacity={0.75}
+                    >
+                      <Text style={styles.undoSwapButtonText}>Redo</Text>
+                    </TouchableOpacity>
+                  </View>
                 )}
               </View>
             ) : null}
+            {showDayHeader && hasSelectedDayHistory ? (
+              <View style={styles.historyList}>
+                <Text style={styles.historyTitle}>Changes</Text>
+                {[...selectedDayHistory.undo].reverse().map((entry) => (
+                  <Text key={entry.id} style={styles.historyEntry} numberOfLines={1}>
+                    {entry.label}
+                  </Text>
+                ))}
+                {selectedDayHistory.redo.map((entry) => (
+                  <Text
+                    key={entry.id}
+                    style={[styles.historyEntry, styles.historyEntryUndone]}
+                    numberOfLines={1}
+                  >
+                    {entry.label} · undone
+                  </Text>
+                ))}
+              </View>
+            ) : null}
             {renderSession()}
           </Animated.View>
         </ScrollView>
@@ -1314,7 +2086,7 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
               ) : filteredCatalog.length === 0 ? (
                 <Text style={styles.catalogEmpty}>No exercises found</Text>
               ) : (
-                filteredCatalog.map((entry) => (
+                filteredCatalog.map(({ entry, assessment }) => (
                   <TouchableOpacity
                     key={entry.id}
                     style={styles.catalogItem}
@@ -1325,6 +2097,11 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
                       <Text style={styles.catalogMeta}>
                         {(entry.primaryMuscles[0] || 'Full body')} • {entry.movementPattern || 'Strength'}
                       </Text>
+                      {assessment?.risk === 'caution' ? (
+                        <Text style={styles.catalogCaution}>
+                          Caution: {assessment.injuries.map(formatInjuryArea).join(', ')}
+                        </Text>
+                      ) : null}
                     </View>
                     <View style={styles.catalogAddBubble}>
                       <Text style={styles.catalogAddText}>+</Text>
@@ -1364,8 +2141,28 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
                 <Text style={styles.editExerciseName}>
                   {editingExercises[editingExerciseIndex]?.name ?? 'Exercise'}
                 </Text>
+                {editingInjuryAssessment && editingInjuryAssessment.risk !== 'safe' ? (
+                  <View style={styles.injuryNotice}>
+                    <Text style={styles.injuryNoticeText}>
+                      {editingInjuryAssessment.risk === 'avoid' ? 'Not advised' : 'Use caution'} with your{' '}
+                      {editingInjuryAssessment.injuries.map(formatInjuryArea).join(', ').toLowerCase()} injury
+                    </Text>
+                    {editingSafeSubstitute ? (
+                      <TouchableOpacity
+                        style={styles.injurySwapButton}
+                        onPress={() => handleSubstituteExercise(editingExerciseIndex, editingSafeSubstitute)}
+                      >
+                        <Text style={styles.injurySwapButtonText}>
+                          Swap for {editingSafeSubstitute.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ) : null}
+                  </View>
+                ) : null}
                 <View style={styles.editRow}>
-                  <Text style={styles.editLabel}>Sets</Text>
+                  <Text style={styles.editLabel}>
+                    {editingExercise?.group ? 'Rounds' : 'Sets'}
+                  </Text>
                   <View style={styles.stepperSm}>
                     <TouchableOpacity
                       style={styles.stepperButtonSm}
@@ -1398,34 +2195,102 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
                 </View>
                 <View style={styles.editRowSpacer} />
                 <View style={styles.editRow}>
-                  <Text style={styles.editLabel}>Reps</Text>
-                  <View style={styles.presetRow}>
-                    {REP_PRESETS.map((preset) => {
-                      const repsValue =
-                        editingExercises[editingExerciseIndex]?.reps ?? '8-12';
-                      const isActive = repsValue === preset;
+                  <Text style={styles.editLabel}>Track</Text>
+                  <View style={[styles.presetRow, styles.presetRowWrap]}>
+                    {MEASUREMENT_TYPES.map((type) => {
+                      const isActive = editingMeasurementType === type;
                       return (
                         <TouchableOpacity
-                          key={preset}
-                          style={[
-                            styles.presetChip,
-                            isActive && styles.presetChipActive,
-                          ]}
-                          onPress={() => handleChangeReps(editingExerciseIndex, preset)}
+                          key={type}
+                          style={[styles.presetChip, isActive && styles.presetChipActive]}
+                          onPress={() => handleChangeMeasurementType(editingExerciseIndex, type)}
                         >
-                          <Text
-                            style={[
-                              styles.presetText,
-                              isActive && styles.presetTextActive,
-                            ]}
-                          >
-                            {preset}
+                          <Text style={[styles.presetText, isActive && styles.presetTextActive]}>
+                            {MEASUREMENT_TYPE_LABELS[type]}
                           </Text>
                         </TouchableOpacity>
                       );
                     })}
                   </View>
                 </View>
+                {showRepPresets && editingLoadMode ? (
+                  <>
+                    <View style={styles.editRowSpacer} />
+                    <View style={styles.editRow}>
+                      <Text style={styles.editLabel}>Load</Text>
+                      <View style={[styles.presetRow, styles.presetRowWrap]}>
+                        {LOAD_MODES.map((mode) => {
+                          const isActive = editingLoadMode === mode;
+                          return (
+                            <TouchableOpacity
+                              key={mode}
+                              style={[styles.presetChip, isActive && styles.presetChipActive]}
+                              onPress={() => handleChangeLoadMode(editingExerciseIndex, mode)}
+                            >
+                              <Text style={[styles.presetText, isActive && styles.presetTextActive]}>
+                                {LOAD_MODE_LABELS[mode]}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </View>
+                  </>
+                ) : null}
+                {showRepPresets ? (
+                  <>
+                    <View style={styles.editRowSpacer} />
+                    <View style={styles.editRow}>
+                      <Text style={styles.editLabel}>Reps</Text>
+                      <View style={styles.presetRow}>
+                        {REP_PRESETS.map((preset) => {
+                          const repsValue =
+                            editingExercises[editingExerciseIndex]?.reps ?? '8-12';
+                          const isActive = repsValue === preset;
+                          return (
+                            <TouchableOpacity
+                              key={preset}
+                              style={[
+                                styles.presetChip,
+                                isActive && styles.presetChipActive,
+                              ]}
+                              onPress={() => handleChangeReps(editingExerciseIndex, preset)}
+                            >
+                              <Text
+                                style={[
+                                  styles.presetText,
+                                  isActive && styles.presetTextActive,
+                                ]}
+                              >
+                                {preset}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </View>
+                  </>
+                ) : null}
+                {renderGroupControls(editingExerciseIndex)}
+                {renderWarmupSection(editingExerciseIndex)}
+                {onLogSets && editingSetPrefills.length > 0 && editingMeasurementType ? (
+                  <>
+                    <View style={styles.editRowSpacer} />
+                    <Text style={styles.editLabel}>Log sets</Text>
+                    <SetLoggingGrid
+                      key={`${selectedPlan?.dateStr ?? ''}-${editingExerciseIndex}-${editingMeasurementType}-${getUnitSystem(user)}`}
+                      loggedSets={editingLoggedSets}
+                      prefills={editingSetPrefills}
+                      measurementType={editingMeasurementType}
+                      loadMode={editingLoadMode ?? 'external'}
+                      unitSystem={getUnitSystem(user)}
+                      disabled={Boolean(selectedPlan && selectedPlan.dateStr > todayKey)}
+                      onLogSet={(setIndex, entry) =>
+                        void handleLogSet(editingExerciseIndex, setIndex, entry)
+                      }
+                    />
+                  </>
+                ) : null}
                 <TouchableOpacity
                   style={styles.editDoneButton}
                   onPress={() => setEditingExerciseIndex(null)}
@@ -1457,6 +2322,8 @@ export const PlansScreen: React.FC<PlansScreenProps> = ({
           </View>
         </View>
       )}
+
+      <RestTimerBanner />
     </View>
   );
 };
@@ -1685,6 +2552,34 @@ const styles = StyleSheet.create({
     color: COLORS.success,
     letterSpacing: 0.2,
   },
+  historyActions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  historyButtonDisabled: {
+    opacity: 0.4,
+  },
+  historyList: {
+    marginTop: -8,
+    marginBottom: 20,
+    gap: 4,
+  },
+  historyTitle: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    marginBottom: 2,
+  },
+  historyEntry: {
+    fontSize: 12,
+    color: COLORS.textPrimary,
+  },
+  historyEntryUndone: {
+    color: COLORS.textSecondary,
+    textDecorationLine: 'line-through',
+  },
   workoutCard: {
     backgroundColor: 'transparent',
     borderRadius: 16,
@@ -1781,6 +2676,19 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     borderRadius: 12,
   },
+  swipeContainerGrouped: {
+    borderLeftWidth: 2,
+    borderLeftColor: COLORS.accent,
+  },
+  groupHeaderText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.accent,
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+    marginTop: 4,
+    marginBottom: 6,
+  },
   swipeCompleteHint: {
     position: 'absolute',
     left: 12,
@@ -1882,6 +2790,32 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginBottom: 12,
   },
+  injuryNotice: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.warningBorder,
+    backgroundColor: COLORS.warningDim,
+    padding: 10,
+    marginBottom: 12,
+    gap: 8,
+  },
+  injuryNoticeText: {
+    fontSize: 12,
+    color: COLORS.warning,
+    fontWeight: '600',
+  },
+  injurySwapButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: COLORS.accentDim,
+  },
+  injurySwapButtonText: {
+    fontSize: 12,
+    color: COLORS.accent,
+    fontWeight: '700',
+  },
   editRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1932,6 +2866,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  presetRowWrap: {
+    flexShrink: 1,
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+  },
   presetChip: {
     paddingHorizontal: 10,
     paddingVertical: 6,
@@ -1944,6 +2883,9 @@ const styles = StyleSheet.create({
     backgroundColor: COLORS.accentDim,
     borderColor: COLORS.accent,
   },
+  presetChipDisabled: {
+    opacity: 0.5,
+  },
   presetText: {
     fontSize: 12,
     color: COLORS.textSecondary,
@@ -1952,6 +2894,116 @@ const styles = StyleSheet.create({
   presetTextActive: {
     color: COLORS.textPrimary,
   },
+  groupActionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 12,
+  },
+  groupActionText: {
+    fontSize: 12,
+    color: COLORS.accent,
+    fontWeight: '700',
+  },
+  groupActionTextMuted: {
+    color: COLORS.textTertiary,
+  },
+  warmupHint: {
+    marginTop: 6,
+    fontSize: 11,
+    color: COLORS.textTertiary,
+  },
+  warmupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+    paddingHorizontal: 4,
+  },
+  warmupText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    fontWeight: '600',
+  },
+  warmupPlates: {
+    fontSize: 11,
+    color: COLORS.textTertiary,
+  },
+  setGrid: {
+    marginTop: 8,
+    gap: 6,
+  },
+  setGridHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  setGridHeader: {
+    flex: 1,
+    fontSize: 10,
+    color: COLORS.textTertiary,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  setGridIndexCol: {
+    flex: 0,
+    width: 24,
+  },
+  setGridActionCol: {
+    width: 28,
+  },
+  setGridRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 4,
+    borderRadius: 10,
+  },
+  setGridRowLogged: {
+    backgroundColor: 'rgba(0,245,160,0.08)',
+  },
+  setGridIndex: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  setGridInput: {
+    flex: 1,
+    minWidth: 0,
+    height: 32,
+    borderRadius: 8,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.textPrimary,
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingVertical: 0,
+  },
+  setLogButton: {
+    height: 28,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.borderStrong,
+  },
+  setLogButtonDone: {
+    backgroundColor: COLORS.success,
+    borderColor: COLORS.success,
+  },
+  setLogButtonText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    fontWeight: '700',
+  },
+  setLogButtonTextDone: {
+    color: COLORS.bgPrimary,
+  },
   editDoneButton: {
     alignSelf: 'flex-end',
     paddingHorizontal: 14,
@@ -2199,6 +3251,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: COLORS.textSecondary,
   },
+  catalogCaution: {
+    fontSize: 11,
+    color: COLORS.warning,
+    marginTop: 3,
+  },
   catalogAddBubble: {
     width: 32,
     height: 32,
@@ -18,6 +18,16 @@ import { getPhysiqueLevelsBySex } from '../data/physiqueLevels';
 import { useScreenAnimation } from '../hooks/useScreenAnimation';
 import * as ImagePicker from 'expo-image-picker';
 import { uploadUserAvatar } from '../services/userProfileService';
+import {
+  formatHeight,
+  formatHeightInput,
+  formatWeight,
+  formatWeightInput,
+  getUnitSystem,
+  getWeightUnit,
+  parseHeightInput,
+  parseWeightInput,
+} from '../utils/units';
 
 // ─── Design tokens ───────────────────────────────────────────────────────────
 const C = {
@@ -100,8 +110,10 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
   const [name,     setName]     = useState(user.name ?? '');
   const [sex,      setSex]      = useState<'male' | 'female' | 'other'>(user.sex);
   const [age,      setAge]      = useState(user.age.toString());
-  const [heightCm, setHeightCm] = useState(user.heightCm.toString());
-  const [weightKg, setWeightKg] = useState(user.weightKg?.toString() ?? '');
+  // Height and weight are typed in the user's unit and stored as cm / kg
+  const unitSystem = getUnitSystem(user);
+  const [heightText, setHeightText] = useState(formatHeightInput(user.heightCm, unitSystem));
+  const [weightText, setWeightText] = useState(formatWeightInput(user.weightKg, unitSystem));
   const [avatarUrl,  setAvatarUrl]  = useState<string | undefined>(user.avatarUrl);
   const [avatarPath, setAvatarPath] = useState<string | undefined>(user.avatarPath);
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
@@ -113,6 +125,23 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
     [name]
   );
 
+  useEffect(() => {
+    setHeightText(formatHeightInput(user.heightCm, unitSystem));
+    setWeightText(formatWeightInput(user.weightKg, unitSystem));
+  // only reformat when the unit preference changes
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [unitSystem]);
+
+  // Untouched fields keep the stored cm / kg; re-parsing their rounded text would drift
+  const heightCm =
+    heightText === formatHeightInput(user.heightCm, unitSystem)
+      ? user.heightCm
+      : parseHeightInput(heightText, unitSystem);
+  const weightKg =
+    weightText === formatWeightInput(user.weightKg, unitSystem)
+      ? user.weightKg ?? null
+      : parseWeightInput(weightText, unitSystem);
+
   // ── autosave ──
   const [saved, setSaved] = useState(false);
   const savedOpacity = useRef(new Animated.Value(0)).current;
@@ -129,13 +158,17 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
   const persistProfile = useCallback(
     (opts?: { showErrors?: boolean }) => {
       const ageNum    = parseInt(age, 10);
-      const heightNum = parseInt(heightCm, 10);
       if (!age || isNaN(ageNum) || ageNum < 13 || ageNum > 100) {
         if (opts?.showErrors) Alert.alert('Invalid Input', 'Please enter a valid age (13–100)');
         return false;
       }
-      if (!heightCm || isNaN(heightNum) || heightNum < 100 || heightNum > 250) {
-        if (opts?.showErrors) Alert.alert('Invalid Input', 'Please enter a valid height (100–250 cm)');
+      if (!heightCm || heightCm < 100 || heightCm > 250) {
+        if (opts?.showErrors) {
+          Alert.alert(
+            'Invalid Input',
+            `Please enter a valid height (${formatHeight(100, unitSystem)}–${formatHeight(250, unitSystem)})`
+          );
+        }
         return false;
       }
       onSave({
@@ -143,14 +176,14 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
         name: name.trim(),
         sex,
         age: ageNum,
-        heightCm: heightNum,
-        weightKg: parseFloat(weightKg) || undefined,
+        heightCm,
+        weightKg: weightKg ?? undefined,
         avatarUrl,
         avatarPath,
       });
       return true;
     },
-    [age, heightCm, weightKg, name, sex, avatarUrl, avatarPath, onSave, user]
+    [age, heightCm, weightKg, unitSystem, name, sex, avatarUrl, avatarPath, onSave, user]
   );
 
   const autosaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -184,7 +217,7 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
       const { path, signedUrl } = await uploadUserAvatar(user.id, asset.uri);
       setAvatarPath(path);
       setAvatarUrl(signedUrl);
-      onSave({ ...user, sex, age: parseInt(age, 10) || user.age, heightCm: parseInt(heightCm, 10) || user.heightCm, weightKg: parseFloat(weightKg) || undefined, avatarUrl: signedUrl, avatarPath: path });
+      onSave({ ...user, sex, age: parseInt(age, 10) || user.age, heightCm: heightCm || user.heightCm, weightKg: weightKg ?? undefined, avatarUrl: signedUrl, avatarPath: path });
     } catch (err: any) {
       Alert.alert('Upload failed', err?.message || 'Unable to upload avatar.');
     } finally {
@@ -277,12 +310,12 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
             <View style={styles.statDivider} />
             <View style={styles.statChip}>
               <Text style={styles.statLabel}>Height</Text>
-              <Text style={styles.statValue}>{heightCm ? `${heightCm} cm` : '—'}</Text>
+              <Text style={styles.statValue}>{heightCm ? formatHeight(heightCm, unitSystem) : '—'}</Text>
             </View>
             <View style={styles.statDivider} />
             <View style={styles.statChip}>
               <Text style={styles.statLabel}>Weight</Text>
-              <Text style={styles.statValue}>{weightKg ? `${weightKg} kg` : '—'}</Text>
+              <Text style={styles.statValue}>{weightKg ? formatWeight(weightKg, unitSystem) : '—'}</Text>
             </View>
           </View>
 
@@ -332,29 +365,29 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
             <CardRow icon="📏" label="Height">
               <TextInput
                 style={styles.inlineInput}
-                value={heightCm}
-                onChangeText={setHeightCm}
-                keyboardType="number-pad"
-                placeholder="—"
+                value={heightText}
+                onChangeText={setHeightText}
+                keyboardType={unitSystem === 'metric' ? 'number-pad' : 'numbers-and-punctuation'}
+                placeholder={unitSystem === 'metric' ? '—' : `5'10"`}
                 placeholderTextColor={C.textMuted}
                 returnKeyType="done"
-                maxLength={3}
+                maxLength={unitSystem === 'metric' ? 3 : 6}
               />
-              <Text style={styles.unitLabel}>cm</Text>
+              <Text style={styles.unitLabel}>{unitSystem === 'metric' ? 'cm' : 'ft'}</Text>
             </CardRow>
 
             <CardRow icon="⚖️" label="Weight" isLast>
               <TextInput
                 style={styles.inlineInput}
-                value={weightKg}
-                onChangeText={setWeightKg}
+                value={weightText}
+                onChangeText={setWeightText}
                 keyboardType="decimal-pad"
                 placeholder="—"
                 placeholderTextColor={C.textMuted}
                 returnKeyType="done"
                 maxLength={6}
               />
-              <Text style={styles.unitLabel}>kg</Text>
+              <Text style={styles.unitLabel}>{getWeightUnit(unitSystem)}</Text>
             </CardRow>
           </SectionCard>
 
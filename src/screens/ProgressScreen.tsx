@@ -1,8 +1,12 @@
-import React, { useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
+  ActivityIndicator,
+  Alert,
+  Image,
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
@@ -13,16 +17,46 @@ import Svg, {
   Line,
   Path,
 } from 'react-native-svg';
+import { PhotoCompareSlider } from '../components/PhotoCompareSlider';
+import { usePhotoCheckins } from '../hooks/usePhotoCheckins';
+import { PhotoPose, PhotoSource, pickPhotoCheckinImage } from '../services/photoCheckinService';
 import type {
+  BodyWeightEntry,
+  PersonalRecord,
   PhasePlan,
+  PhotoCheckin,
+  PlateUnit,
   StrengthSnapshot,
   TrackingPreferences,
+  UnitSystem,
   User,
   WorkoutLog,
   WorkoutSessionEntry,
   WorkoutSessionExercise,
   WorkoutSetEntry,
 } from '../types/domain';
+import {
+  PERSONAL_RECORD_LABELS,
+  formatPersonalRecordValue,
+  summarizePersonalRecords,
+} from '../utils/personalRecords';
+import { DEFAULT_ONE_REP_MAX_FORMULA, ONE_REP_MAX_FORMULA_LABELS } from '../utils/oneRepMax';
+import {
+  formatVolume,
+  formatWeight,
+  getUnitSystem,
+  getWeightUnit,
+  parseWeightInput,
+  toDisplayWeight,
+} from '../utils/units';
+import {
+  buildBodyWeightTrend,
+  calculateWeeklyRate,
+  getTargetWeeklyRate,
+} from '../utils/bodyWeightTrend';
+import { estimateDailyCalories } from '../utils/calorieGoal';
+import type { ExpenditureConfidence } from '../utils/energyExpenditure';
+import type { BodyWeightLogValues } from '../services/bodyWeightService';
 
 type ProgressScreenProps = {
   user: User;
@@ -31,7 +65,11 @@ type ProgressScreenProps = {
   workoutSessions: WorkoutSessionEntry[];
   workoutLogs: WorkoutLog[];
   strengthSnapshots: StrengthSnapshot[];
+  personalRecords?: PersonalRecord[];
+  bodyWeightLogs?: BodyWeightEntry[];
+  onLogBodyWeight?: (date: string, values: BodyWeightLogValues) => Promise<void>;
   onAddProgress?: () => void;
+  onPhotoCheckinAdded?: (photo: PhotoCheckin) => void;
   onUpdateTrackingPreferences?: (preferences: TrackingPreferences) => Promise<void> | void;
 };
 
@@ -80,6 +118,8 @@ const C = {
   border: 'rgba(255,255,255,0.06)',
   grid: 'rgba(255,255,255,0.05)',
   guide: 'rgba(255,255,255,0.08)',
+  accent: '#6C63FF',
+  accentDim: 'rgba(108,99,255,0.14)',
 } as const;
 
 const MUSCLE_COLORS: Record<string, string> = {
@@ -118,10 +158,25 @@ function countCompletedSetDetails(setDetails?: WorkoutSetEntry[]): WorkoutSetEnt
     const reps = Number(set.reps ?? 0);
     const weight = Number(set.weight ?? 0);
     const rpe = Number(set.rpe ?? 0);
-    return reps > 0 || weight > 0 || rpe > 0;
+    const conditioning =
+      Number(set.durationSeconds ?? 0) + Number(set.distanceMeters ?? 0) + Number(set.calories ?? 0);
+    return reps > 0 || weight > 0 || rpe > 0 || conditioning > 0;
   });
 }
 
+/** Lifting volume next to conditioning time and distance, skipping empty parts. */
+function formatTrainingSummary(logs: WorkoutLog[], unitSystem: UnitSystem): string | null {
+  const volume = logs.reduce((sum, log) => sum + (log.totalVolume ?? 0), 0);
+  const minutes = logs.reduce((sum, log) => sum + (log.conditioningMinutes ?? 0), 0);
+  const meters = logs.reduce((sum, log) => sum + (log.distanceMeters ?? 0), 0);
+  const parts = [
+    volume > 0 ? `${formatVolume(volume, unitSystem)} lifted` : null,
+    minutes > 0 ? `${Math.round(minutes)} min conditioning` : null,
+    meters > 0 ? `${(meters / 1000).toFixed(1)} km` : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : null;
+}
+
 function countSets(ex: WorkoutSessionExercise): number {
   const completed = countCompletedSetDetails(ex.setDetails);
   if (completed.length > 0) return completed.length;
@@ -219,9 +274,9 @@ function lastTrainedLabel(dateStr: string): string {
   return shortDate(dateStr);
 }
 
-function formatWeightLabel(value: number): string {
+function formatWeightLabel(value: number, unit: PlateUnit): string {
   const rounded = Math.abs(value - Math.round(value)) < 0.05 ? Math.round(value) : Number(value.toFixed(1));
-  return `${rounded}kg`;
+  return `${rounded}${unit}`;
 }
 
 function hexToRgba(hex: string, alpha: number): string {
@@ -470,8 +525,8 @@ function buildLinePath(points: Array<{ x: number; y: number }>): string {
   return points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ');
 }
 
-function formatYAxisValue(value: number): string {
-  return formatWeightLabel(value);
+function formatYAxisValue(value: number, unit: PlateUnit): string {
+  return formatWeightLabel(value, unit);
 }
 
 function getRangeSubtitle(range: ChartRange): string {
@@ -484,10 +539,12 @@ function ProgressChart({
   data,
   color,
   range,
+  weightUnit,
 }: {
   data: ChartBucket[];
   color: string;
   range: ChartRange;
+  weightUnit: PlateUnit;
 }) {
   const [chartWidth, setChartWidth] = useState(0);
 
@@ -570,7 +627,7 @@ function ProgressChart({
               key={`${tick}-${index}`}
               style={[styles.yLabel, index === 2 && { color: C.textFaint }]}
             >
-              {formatYAxisValue(tick)}
+              {formatYAxisValue(tick, weightUnit)}
             </Text>
           ))}
         </View>
@@ -674,7 +731,7 @@ function ProgressChart({
                           { left: point.x - 26, top: Math.min(baselineY + 6, point.y + 10), color: labelColor },
                         ]}
                       >
-                        {point.hasWeight && point.weight != null ? formatWeightLabel(point.weight) : 'No wt'}
+                        {point.hasWeight && point.weight != null ? formatWeightLabel(point.weight, weightUnit) : 'No wt'}
                       </Text>
                     </React.Fragment>
                   );
@@ -701,11 +758,13 @@ function ChartCard({
   muscle,
   dailyHistory,
   range,
+  weightUnit,
   onChangeRange,
 }: {
   muscle: MuscleEntry;
   dailyHistory: DailyMusclePoint[];
   range: ChartRange;
+  weightUnit: PlateUnit;
   onChangeRange: (range: ChartRange) => void;
 }) {
   const chartData = useMemo(() => buildChartBuckets(dailyHistory, range), [dailyHistory, range]);
@@ -739,7 +798,7 @@ function ChartCard({
       </View>
 
       <View style={styles.chartBody}>
-        <ProgressChart data={chartData} color={muscle.color} range={range} />
+        <ProgressChart data={chartData} color={muscle.color} range={range} weightUnit={weightUnit} />
       </View>
     </View>
   );
@@ -787,6 +846,409 @@ function MuscleListItem({
   );
 }
 
+function RecordListItem({
+  entry,
+  unitSystem,
+}: {
+  entry: ReturnType<typeof summarizePersonalRecords>[number];
+  unitSystem: UnitSystem;
+}) {
+  return (
+    <View style={styles.recordItem}>
+      <View style={styles.recordItemHeader}>
+        <Text style={styles.muscleItemName}>{entry.exerciseName}</Text>
+        <Text style={styles.muscleItemMeta}>{lastTrainedLabel(entry.latestDate)}</Text>
+      </View>
+      {entry.records.map((record) => (
+        <View key={record.id} style={styles.recordRow}>
+          <Text style={styles.muscleItemMeta}>{PERSONAL_RECORD_LABELS[record.type]}</Text>
+          <Text style={styles.recordValue}>{formatPersonalRecordValue(record, unitSystem)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const WEIGHT_TREND_COLOR = '#42C5F5';
+const WEIGHT_TARGET_COLOR = '#FFC442';
+const WEIGHT_CHART_DAYS = 42;
+const WEIGHT_CHART_H = 120;
+const WEIGHT_CHART_PAD = 10;
+
+function daysBetweenKeys(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / 86400000);
+}
+
+function formatWeeklyRate(kgPerWeek: number, unitSystem: UnitSystem): string {
+  const value = toDisplayWeight(Math.abs(kgPerWeek), unitSystem);
+  const sign = value === 0 ? '±' : kgPerWeek > 0 ? '+' : '−';
+  return `${sign}${value} ${getWeightUnit(unitSystem)}/wk`;
+}
+
+const EXPENDITURE_SOURCE_LABELS: Record<ExpenditureConfidence, string> = {
+  none: 'formula estimate',
+  low: 'learning from your log',
+  medium: 'adaptive, medium confidence',
+  high: 'adaptive, high confidence',
+};
+
+/** Compares the trend's pace to the eating mode's; half the target (at least 0.1 kg) counts as on pace. */
+function describeRatePace(actual: number, target: number): string {
+  const tolerance = Math.max(0.1, Math.abs(target) * 0.5);
+  const diff = actual - target;
+  if (Math.abs(diff) <= tolerance) return 'On pace';
+  return diff > 0 ? 'Gaining faster than planned' : 'Losing faster than planned';
+}
+
+function BodyWeightCard({
+  user,
+  entries,
+  onLogBodyWeight,
+}: {
+  user: User;
+  entries: BodyWeightEntry[];
+  onLogBodyWeight?: (date: string, values: BodyWeightLogValues) => Promise<void>;
+}) {
+  const unitSystem = getUnitSystem(user);
+  const unit = getWeightUnit(unitSystem);
+  const [draft, setDraft] = useState('');
+  const [intakeDraft, setIntakeDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [chartWidth, setChartWidth] = useState(0);
+
+  const trend = useMemo(() => buildBodyWeightTrend(entries), [entries]);
+  const latest = trend[trend.length - 1] ?? null;
+  const weeklyRate = useMemo(() => calculateWeeklyRate(trend), [trend]);
+  const targetRate = latest ? getTargetWeeklyRate(user.eatingMode, latest.trendKg) : null;
+  const calorieGoal = useMemo(() => estimateDailyCalories(user, undefined, entries), [entries, user]);
+
+  const visible = useMemo(
+    () => (latest ? trend.filter((point) => daysBetweenKeys(point.date, latest.date) <= WEIGHT_CHART_DAYS) : []),
+    [latest, trend],
+  );
+
+  // Weights in the user's unit; the target line starts where the visible trend does
+  const chart = useMemo(() => {
+    if (chartWidth <= 0 || visible.length < 2 || targetRate === null) return null;
+    const first = visible[0];
+    const last = visible[visible.length - 1];
+    const span = Math.max(1, daysBetweenKeys(first.date, last.date));
+    const targetEnd = first.trendKg + (targetRate / 7) * span;
+    const values = [...visible.flatMap((point) => [point.weightKg, point.trendKg]), targetEnd].map((kg) =>
+      toDisplayWeight(kg, unitSystem),
+    );
+    const min = Math.floor(Math.min(...values));
+    const max = Math.ceil(Math.max(...values));
+    const domain = Math.max(1, max - min);
+    const innerWidth = chartWidth - WEIGHT_CHART_PAD * 2;
+    const toX = (date: string) => WEIGHT_CHART_PAD + (daysBetweenKeys(first.date, date) / span) * innerWidth;
+    const toY = (kg: number) =>
+      WEIGHT_CHART_PAD + ((max - toDisplayWeight(kg, unitSystem)) / domain) * (WEIGHT_CHART_H - WEIGHT_CHART_PAD * 2);
+    return {
+      min,
+      max,
+      dots: visible.map((point) => ({ key: point.date, x: toX(point.date), y: toY(point.weightKg) })),
+      trendPath: buildLinePath(visible.map((point) => ({ x: toX(point.date), y: toY(point.trendKg) }))),
+      targetPath: buildLinePath([
+        { x: toX(first.date), y: toY(first.trendKg) },
+        { x: toX(last.date), y: toY(targetEnd) },
+      ]),
+    };
+  }, [chartWidth, targetRate, unitSystem, visible]);
+
+  const handleLog = async () => {
+    if (!onLogBodyWeight) return;
+    const weightKg = draft.trim() ? parseWeightInput(draft, unitSystem) : undefined;
+    const intakeKcal = intakeDraft.trim() ? parseInt(intakeDraft, 10) : undefined;
+    if (weightKg === null) {
+      Alert.alert('Invalid weight', `Enter your weight in ${unit}.`);
+      return;
+    }
+    if (intakeKcal !== undefined && !(intakeKcal > 0)) {
+      Alert.alert('Invalid intake', 'Enter the calories you ate today.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onLogBodyWeight(formatDateKey(new Date()), { weightKg, intakeKcal });
+      setDraft('');
+      setIntakeDraft('');
+    } catch (err: any) {
+      Alert.alert('Save failed', err?.message || 'Unable to save this entry.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.photoCard}>
+      <View style={styles.chartHeader}>
+        <View>
+          <Text style={styles.chartTitle}>Body weight</Text>
+          <Text style={styles.chartSubtitle}>
+            {latest
+              ? `Trend ${formatWeight(latest.trendKg, unitSystem)} · ${lastTrainedLabel(latest.date)}`
+              : 'Weigh in daily to see your trend'}
+          </Text>
+        </View>
+      </View>
+
+      {chart ? (
+        <View style={styles.weightChart}>
+          <View style={styles.weightAxis}>
+            <Text style={styles.yLabel}>{formatWeightLabel(chart.max, unit)}</Text>
+            <Text style={styles.yLabel}>{formatWeightLabel(chart.min, unit)}</Text>
+          </View>
+          <View style={styles.weightCanvas} onLayout={(event) => setChartWidth(event.nativeEvent.layout.width)}>
+            <Svg width={chartWidth} height={WEIGHT_CHART_H}>
+              <Path
+                d={chart.targetPath}
+                stroke={hexToRgba(WEIGHT_TARGET_COLOR, 0.8)}
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+                fill="none"
+              />
+              {chart.dots.map((dot) => (
+                <Circle key={dot.key} cx={dot.x} cy={dot.y} r={2.5} fill={hexToRgba(WEIGHT_TREND_COLOR, 0.35)} />
+              ))}
+              <Path
+                d={chart.trendPath}
+                stroke={WEIGHT_TREND_COLOR}
+                strokeWidth={2.5}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                fill="none"
+              />
+            </Svg>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.weightCanvas} onLayout={(event) => setChartWidth(event.nativeEvent.layout.width)}>
+          {visible.length < 2 ? (
+            <Text style={styles.photoHint}>
+              {latest ? 'Log a few more days to draw the trend.' : 'No weigh-ins yet.'}
+            </Text>
+          ) : null}
+        </View>
+      )}
+
+      {weeklyRate !== null && targetRate !== null ? (
+        <View style={styles.weightStats}>
+          <View style={styles.recordRow}>
+            <Text style={styles.muscleItemMeta}>Actual</Text>
+            <Text style={[styles.recordValue, { color: WEIGHT_TREND_COLOR }]}>
+              {formatWeeklyRate(weeklyRate, unitSystem)}
+            </Text>
+          </View>
+          <View style={styles.recordRow}>
+            <Text style={styles.muscleItemMeta}>Target</Text>
+            <Text style={[styles.recordValue, { color: WEIGHT_TARGET_COLOR }]}>
+              {formatWeeklyRate(targetRate, unitSystem)}
+            </Text>
+          </View>
+          <Text style={styles.muscleItemMeta}>{describeRatePace(weeklyRate, targetRate)}</Text>
+        </View>
+      ) : null}
+      {calorieGoal.expenditure ? (
+        <View style={styles.weightStats}>
+          <View style={styles.recordRow}>
+            <Text style={styles.muscleItemMeta}>Maintenance</Text>
+            <Text style={styles.recordValue}>
+              {`${calorieGoal.maintenanceCalories.toLocaleString()} kcal`}
+            </Text>
+          </View>
+          <View style={styles.recordRow}>
+            <Text style={styles.muscleItemMeta}>Goal intake</Text>
+            <Text style={styles.recordValue}>{`${calorieGoal.goalCalories.toLocaleString()} kcal`}</Text>
+          </View>
+          <Text style={styles.muscleItemMeta}>
+            {EXPENDITURE_SOURCE_LABELS[calorieGoal.expenditure.confidenceLevel]}
+          </Text>
+        </View>
+      ) : null}
+
+      {onLogBodyWeight ? (
+        <View style={styles.weightLogRow}>
+          <TextInput
+            style={styles.weightInput}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder={`Weight (${unit})`}
+            placeholderTextColor={C.textMuted}
+            keyboardType="decimal-pad"
+            editable={!isSaving}
+          />
+          <TextInput
+            style={styles.weightInput}
+            value={intakeDraft}
+            onChangeText={setIntakeDraft}
+            placeholder="Intake (kcal)"
+            placeholderTextColor={C.textMuted}
+            keyboardType="number-pad"
+            editable={!isSaving}
+          />
+          <TouchableOpacity
+            style={styles.weightLogButton}
+            onPress={() => void handleLog()}
+            disabled={isSaving || (!draft.trim() && !intakeDraft.trim())}
+            activeOpacity={0.8}
+          >
+            {isSaving ? (
+              <ActivityIndicator color={C.accent} />
+            ) : (
+              <Text style={styles.photoAddButtonText}>Log</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const askForSidePhoto = () =>
+  new Promise<boolean>((resolve) => {
+    Alert.alert('Add a side photo?', 'Side shots make posture and waist changes easier to see.', [
+      { text: 'Skip', style: 'cancel', onPress: () => resolve(false) },
+      { text: 'Add side photo', onPress: () => resolve(true) },
+    ]);
+  });
+
+function PhotoCheckinCard({
+  userId,
+  phaseId,
+  onAdded,
+  onDragStateChange,
+}: {
+  userId: string;
+  phaseId: string;
+  onAdded?: (photo: PhotoCheckin) => void;
+  onDragStateChange: (dragging: boolean) => void;
+}) {
+  const { checkins, isLoading, isUploading, error, addCheckin } = usePhotoCheckins(userId, phaseId);
+  const [pose, setPose] = useState<PhotoPose>('front');
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+
+  const posed = useMemo(
+    () => checkins.filter((checkin) => (pose === 'front' ? checkin.frontUri : checkin.sideUri)),
+    [checkins, pose],
+  );
+  const uriFor = (checkin: PhotoCheckin) => (pose === 'front' ? checkin.frontUri : checkin.sideUri) ?? '';
+  const after = posed[posed.length - 1] ?? null;
+  const before = posed.find((checkin) => checkin.id === beforeId && checkin.id !== after?.id) ?? posed[0] ?? null;
+  const canCompare = !!before && !!after && before.id !== after.id;
+
+  const runCheckin = useCallback(
+    async (source: PhotoSource) => {
+      try {
+        const frontUri = await pickPhotoCheckinImage(source);
+        if (!frontUri) return;
+        const sideUri = (await askForSidePhoto()) ? await pickPhotoCheckinImage(source) : null;
+        const created = await addCheckin({ frontUri, sideUri });
+        onAdded?.(created);
+      } catch (err: any) {
+        Alert.alert('Upload failed', err?.message || 'Unable to save your check-in photos.');
+      }
+    },
+    [addCheckin, onAdded],
+  );
+
+  const handleAdd = () => {
+    Alert.alert('New check-in', 'Start with a front photo, then optionally a side photo.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Take photos', onPress: () => void runCheckin('camera') },
+      { text: 'Choose from library', onPress: () => void runCheckin('library') },
+    ]);
+  };
+
+  return (
+    <View style={styles.photoCard}>
+      <View style={styles.chartHeader}>
+        <View>
+          <Text style={styles.chartTitle}>Photo check-ins</Text>
+          <Text style={styles.chartSubtitle}>
+            {checkins.length
+              ? `${checkins.length} check-in${checkins.length === 1 ? '' : 's'} this phase`
+              : 'Track visual changes week to week'}
+          </Text>
+        </View>
+        <View style={styles.rangeTabs}>
+          {(['front', 'side'] as PhotoPose[]).map((item) => {
+            const active = item === pose;
+            return (
+              <TouchableOpacity
+                key={item}
+                style={[
+                  styles.rangeTab,
+                  active && { backgroundColor: hexToRgba(C.accent, 0.16), borderColor: hexToRgba(C.accent, 0.45) },
+                ]}
+                onPress={() => setPose(item)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.rangeTabText, active && { color: C.accent }]}>{item.toUpperCase()}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.photoBody}>
+        {isLoading ? (
+          <ActivityIndicator color={C.accent} style={styles.photoSpinner} />
+        ) : canCompare ? (
+          <PhotoCompareSlider
+            key={`${before.id}:${after.id}:${pose}`}
+            beforeUri={uriFor(before)}
+            afterUri={uriFor(after)}
+            beforeLabel={shortDate(before.date).toUpperCase()}
+            afterLabel={shortDate(after.date).toUpperCase()}
+            onDragStateChange={onDragStateChange}
+          />
+        ) : after ? (
+          <Image source={{ uri: uriFor(after) }} style={styles.photoSingle} resizeMode="cover" />
+        ) : null}
+        {!isLoading && !canCompare && (
+          <Text style={styles.photoHint}>
+            {error
+              ? error
+              : after
+                ? 'Add another check-in to compare before and after.'
+                : `No ${pose} photos yet.`}
+          </Text>
+        )}
+      </View>
+
+      {posed.length > 2 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photoStrip}>
+          {posed.slice(0, -1).map((checkin) => (
+            <TouchableOpacity
+              key={checkin.id}
+              style={[styles.photoThumb, checkin.id === before?.id && styles.photoThumbActive]}
+              onPress={() => setBeforeId(checkin.id)}
+              activeOpacity={0.8}
+            >
+              <Image source={{ uri: uriFor(checkin) }} style={styles.photoThumbImage} />
+              <Text style={styles.photoThumbLabel}>{shortDate(checkin.date)}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <TouchableOpacity
+        style={styles.photoAddButton}
+        onPress={handleAdd}
+        disabled={isUploading}
+        activeOpacity={0.8}
+      >
+        {isUploading ? (
+          <ActivityIndicator color={C.accent} />
+        ) : (
+          <Text style={styles.photoAddButtonText}>+ Add check-in</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
 const PHANTOM_MUSCLES = [
   { name: 'Chest', color: '#6C63FF' },
   { name: 'Back', color: '#00F5A0' },
@@ -838,12 +1300,19 @@ function EmptyStatsScaffold() {
 }
 
 export const ProgressScreen: React.FC<ProgressScreenProps> = ({
+  user,
   phase,
   workoutSessions,
+  workoutLogs,
+  personalRecords = [],
+  bodyWeightLogs = [],
+  onLogBodyWeight,
+  onPhotoCheckinAdded,
 }) => {
   const insets = useSafeAreaInsets();
   const [selectedKey, setSelectedKey] = useState<string | null>(null);
   const [range, setRange] = useState<ChartRange>('1W');
+  const [isComparing, setIsComparing] = useState(false);
 
   const phaseSessions = useMemo(
     () => workoutSessions.filter((s) => s.phasePlanId === phase.id),
@@ -851,11 +1320,25 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
   );
 
   const muscles = useMemo(() => computeAllMuscles(phaseSessions), [phaseSessions]);
+  const recordSummary = useMemo(() => summarizePersonalRecords(personalRecords), [personalRecords]);
+  const oneRepMaxFormula = user.trackingPreferences?.oneRepMaxFormula ?? DEFAULT_ONE_REP_MAX_FORMULA;
+  const unitSystem = getUnitSystem(user);
+  const trainingSummary = useMemo(
+    () => formatTrainingSummary(workoutLogs.filter((log) => log.phasePlanId === phase.id), unitSystem),
+    [phase.id, unitSystem, workoutLogs],
+  );
   const selectedMuscle = muscles.find((m) => m.key === selectedKey) ?? muscles[0] ?? null;
 
+  // Chart points carry weights in the user's unit so the axis ticks stay round
   const dailyHistory = useMemo(
-    () => (selectedMuscle ? computeDailyMuscleHistory(phaseSessions, selectedMuscle.key) : []),
-    [phaseSessions, selectedMuscle],
+    () =>
+      selectedMuscle
+        ? computeDailyMuscleHistory(phaseSessions, selectedMuscle.key).map((point) => ({
+            ...point,
+            weight: point.weight != null ? toDisplayWeight(point.weight, unitSystem) : null,
+          }))
+        : [],
+    [phaseSessions, selectedMuscle, unitSystem],
   );
 
   return (
@@ -869,12 +1352,14 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
             ? `${muscles.length} muscles · ${phaseSessions.length} sessions`
             : 'Log workouts to start tracking'}
         </Text>
+        {trainingSummary ? <Text style={styles.screenSub}>{trainingSummary}</Text> : null}
       </View>
 
       <ScrollView
         style={styles.scroll}
         contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 110 }]}
         showsVerticalScrollIndicator={false}
+        scrollEnabled={!isComparing}
       >
         {selectedMuscle ? (
           <>
@@ -882,6 +1367,7 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
               muscle={selectedMuscle}
               dailyHistory={dailyHistory}
               range={range}
+              weightUnit={getWeightUnit(unitSystem)}
               onChangeRange={setRange}
             />
             <Text style={styles.sectionLabel}>MUSCLES</Text>
@@ -901,6 +1387,30 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
         ) : (
           <EmptyStatsScaffold />
         )}
+        {recordSummary.length > 0 ? (
+          <>
+            <Text style={[styles.sectionLabel, styles.photoSectionLabel]}>
+              RECORDS · {ONE_REP_MAX_FORMULA_LABELS[oneRepMaxFormula].toUpperCase()} 1RM
+            </Text>
+            <View style={styles.muscleList}>
+              {recordSummary.map((entry, i) => (
+                <React.Fragment key={`${entry.exerciseName}-${entry.latestDate}`}>
+                  <RecordListItem entry={entry} unitSystem={unitSystem} />
+                  {i < recordSummary.length - 1 && <View style={styles.listDivider} />}
+                </React.Fragment>
+              ))}
+            </View>
+          </>
+        ) : null}
+        <Text style={[styles.sectionLabel, styles.photoSectionLabel]}>BODY WEIGHT</Text>
+        <BodyWeightCard user={user} entries={bodyWeightLogs} onLogBodyWeight={onLogBodyWeight} />
+        <Text style={[styles.sectionLabel, styles.photoSectionLabel]}>PHOTOS</Text>
+        <PhotoCheckinCard
+          userId={user.id}
+          phaseId={phase.id}
+          onAdded={onPhotoCheckinAdded}
+          onDragStateChange={setIsComparing}
+        />
       </ScrollView>
     </ExpoLinearGradient>
   );
@@ -1103,4 +1613,137 @@ const styles = StyleSheet.create({
     backgroundColor: C.border,
     marginLeft: 17,
   },
+  recordItem: {
+    paddingVertical: 14,
+    paddingHorizontal: 18,
+    gap: 6,
+  },
+  recordItemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  recordValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: C.text,
+  },
+  photoSectionLabel: {
+    marginTop: 28,
+  },
+  photoCard: {
+    backgroundColor: C.card,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: C.border,
+    overflow: 'hidden',
+  },
+  photoBody: {
+    marginTop: 16,
+  },
+  photoSpinner: {
+    paddingVertical: 48,
+  },
+  photoSingle: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+  },
+  photoHint: {
+    fontSize: 13,
+    color: C.textMuted,
+    textAlign: 'center',
+    lineHeight: 20,
+    paddingHorizontal: 32,
+    paddingVertical: 20,
+  },
+  photoStrip: {
+    gap: 10,
+    paddingHorizontal: 18,
+    paddingTop: 14,
+  },
+  photoThumb: {
+    alignItems: 'center',
+    gap: 4,
+    padding: 3,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  photoThumbActive: {
+    borderColor: C.accent,
+  },
+  photoThumbImage: {
+    width: 48,
+    height: 64,
+    borderRadius: 7,
+    backgroundColor: C.grid,
+  },
+  photoThumbLabel: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: C.textMuted,
+  },
+  photoAddButton: {
+    margin: 18,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: C.accentDim,
+  },
+  photoAddButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: C.accent,
+  },
+  weightChart: {
+    flexDirection: 'row',
+    paddingHorizontal: 12,
+    paddingTop: 12,
+  },
+  weightAxis: {
+    width: Y_AXIS_W,
+    height: WEIGHT_CHART_H,
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    paddingRight: 8,
+    paddingVertical: WEIGHT_CHART_PAD - 6,
+  },
+  weightCanvas: {
+    flex: 1,
+    minHeight: WEIGHT_CHART_H,
+    justifyContent: 'center',
+  },
+  weightStats: {
+    paddingHorizontal: 18,
+    paddingTop: 12,
+    gap: 6,
+  },
+  weightLogRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    margin: 18,
+  },
+  weightInput: {
+    flex: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: C.border,
+    color: C.text,
+    fontSize: 14,
+  },
+  weightLogButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: C.accentDim,
+  },
 });
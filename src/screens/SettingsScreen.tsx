@@ -15,10 +15,36 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import Constants from 'expo-constants';
-import { User, TrainingSplit, ExperienceLevel, EquipmentLevel, PrimaryGoal } from '../types/domain';
+import {
+  User,
+  TrainingSplit,
+  ExperienceLevel,
+  EquipmentLevel,
+  PrimaryGoal,
+  AdaptationMode,
+  CustomSplitDay,
+  OneRepMaxFormula,
+  LoadingSetup,
+  UnitSystem,
+} from '../types/domain';
 import { getPhysiqueLevelsBySex } from '../data/physiqueLevels';
 import { useSupabaseExercises } from '../hooks/useSupabaseExercises';
 import { useExerciseDefaults } from '../hooks/useExerciseDefaults';
+import { CustomSplitBuilder } from '../components/CustomSplitBuilder';
+import { DEFAULT_ONE_REP_MAX_FORMULA, ONE_REP_MAX_FORMULA_LABELS } from '../utils/oneRepMax';
+import { DEFAULT_LOADING_SETUP, LOADING_PRESETS, findLoadingPreset } from '../utils/plateLoading';
+import {
+  UNIT_SYSTEM_LABELS,
+  fromDisplayWeight,
+  getUnitSystem,
+  getWeightUnit,
+  toDisplayWeight,
+} from '../utils/units';
+import {
+  formatRepPrescription,
+  getRepTargetValue,
+  parseRepPrescription,
+} from '../utils/repPrescription';
 
 // ─── Design tokens ────────────────────────────────────────────────────────────
 const C = {
@@ -36,7 +62,18 @@ const C = {
 } as const;
 
 // ─── Types ────────────────────────────────────────────────────────────────────
-type ActivePicker = 'experience' | 'split' | 'equipment' | 'physique' | 'goal' | 'days' | null;
+type ActivePicker =
+  | 'experience'
+  | 'split'
+  | 'equipment'
+  | 'physique'
+  | 'goal'
+  | 'days'
+  | 'adaptation'
+  | 'oneRepMax'
+  | 'loading'
+  | 'units'
+  | null;
 
 type PickerOption = { value: string; label: string; sublabel?: string };
 
@@ -46,6 +83,9 @@ export type SettingsScreenProps = {
   onStartNewPlan?: () => void;
 };
 
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_ORDER  = [1, 2, 3, 4, 5, 6, 0]; // Mon-first, matching the week views
+
 const inferDaysPerWeekFromSplit = (split: TrainingSplit): 3 | 4 | 5 | 6 => {
   switch (split) {
     case 'full_body':
@@ -185,10 +225,28 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
   const [currentPhysiqueLevel, setCurrentPhysiqueLevel] = useState<number>(
     user.currentPhysiqueLevel ?? 1
   );
+  const [adaptationMode,  setAdaptationMode]  = useState<AdaptationMode>(
+    user.planPreferences?.adaptationMode ?? 'balanced'
+  );
+  const [oneRepMaxFormula, setOneRepMaxFormula] = useState<OneRepMaxFormula>(
+    user.trackingPreferences?.oneRepMaxFormula ?? DEFAULT_ONE_REP_MAX_FORMULA
+  );
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(getUnitSystem(user));
+  const [loadingSetup, setLoadingSetup] = useState<LoadingSetup>(
+    user.trackingPreferences?.loading ?? DEFAULT_LOADING_SETUP
+  );
+  const [customSplit,     setCustomSplit]     = useState<CustomSplitDay[]>(
+    user.planPreferences?.customSplit ?? []
+  );
+  const [trainingDays,    setTrainingDays]    = useState<number[]>(
+    user.planPreferences?.trainingDays ?? []
+  );
 
   const [activePicker, setActivePicker]           = useState<ActivePicker>(null);
   const [defaultsPanelVisible, setDefaultsPanelVisible] = useState(false);
   const [termsModalVisible, setTermsModalVisible] = useState(false);
+  const [splitBuilderVisible, setSplitBuilderVisible] = useState(false);
+  const [weekdayDraft, setWeekdayDraft]           = useState<number[] | null>(null);
 
   // ── exercise defaults ──
   const { exercises: exerciseCatalog, isLoading: exercisesLoading } = useSupabaseExercises();
@@ -213,15 +271,15 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     (Constants as any).manifest?.version ??
     '1.0.0';
 
-  // ── sync defaults edits ──
+  // ── sync defaults edits (weights shown in the user's unit) ──
   useEffect(() => {
     const toStr = (v?: number | null) => (v == null ? '0' : String(v));
     const map: Record<string, { weight: string; reps: string; sets: string; rest: string }> = {};
     const expMap: Record<string, boolean> = {};
     exerciseDefaults.forEach((item) => {
       map[item.id] = {
-        weight: toStr(item.defaultWeight),
-        reps:   toStr(item.defaultReps),
+        weight: toStr(item.defaultWeight != null ? toDisplayWeight(item.defaultWeight, unitSystem) : null),
+        reps:   item.defaultRepTarget ? formatRepPrescription(item.defaultRepTarget) : toStr(item.defaultReps),
         sets:   toStr(item.defaultSets),
         rest:   toStr(item.defaultRestSeconds),
       };
@@ -229,7 +287,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     });
     setDefaultEdits(map);
     setExpandedDefaults(expMap);
-  }, [exerciseDefaults]);
+  }, [exerciseDefaults, unitSystem]);
 
   const exerciseNameMap = useMemo(() => {
     const map = new Map<string, string>();
@@ -263,14 +321,17 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     const edit = defaultEdits[defaultId];
     const record = exerciseDefaults.find((item) => item.id === defaultId);
     if (!edit || !record) return;
+    const repTarget = parseRepPrescription(edit.reps);
+    const weight = parseNum(edit.weight, true);
     try {
       setSavingDefaultId(defaultId);
       await upsertDefault({
         userId: user.id, id: record.id,
         exerciseId: record.exerciseId ?? null,
         userExerciseId: record.userExerciseId ?? null,
-        defaultWeight: parseNum(edit.weight, true),
-        defaultReps:   parseNum(edit.reps),
+        defaultWeight: weight != null ? fromDisplayWeight(weight, unitSystem) : null,
+        defaultReps:   getRepTargetValue(repTarget),
+        defaultRepTarget: repTarget,
         defaultSets:   parseNum(edit.sets),
         defaultRestSeconds: parseNum(edit.rest),
       });
@@ -341,6 +402,12 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     setPrimaryGoal(user.planPreferences?.primaryGoal ?? 'general_fitness');
     setDaysPerWeek(user.planPreferences?.daysPerWeek ?? inferDaysPerWeekFromSplit(user.trainingSplit));
     setCurrentPhysiqueLevel(user.currentPhysiqueLevel ?? 1);
+    setAdaptationMode(user.planPreferences?.adaptationMode ?? 'balanced');
+    setOneRepMaxFormula(user.trackingPreferences?.oneRepMaxFormula ?? DEFAULT_ONE_REP_MAX_FORMULA);
+    setLoadingSetup(user.trackingPreferences?.loading ?? DEFAULT_LOADING_SETUP);
+    setUnitSystem(getUnitSystem(user));
+    setCustomSplit(user.planPreferences?.customSplit ?? []);
+    setTrainingDays(user.planPreferences?.trainingDays ?? []);
   // only re-sync when the user object reference changes
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user]);
@@ -356,10 +423,19 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
         primaryGoal,
         daysPerWeek,
         equipmentLevel,
+        adaptationMode,
+        customSplit,
+        trainingDays: trainingDays.length ? trainingDays : undefined,
+      },
+      trackingPreferences: {
+        ...(user.trackingPreferences ?? {}),
+        oneRepMaxFormula,
+        loading: loadingSetup,
+        unitSystem,
       },
     };
     onSave(updated);
-  }, [user, experienceLevel, trainingSplit, equipmentLevel, primaryGoal, daysPerWeek, currentPhysiqueLevel, onSave]);
+  }, [user, experienceLevel, trainingSplit, equipmentLevel, primaryGoal, daysPerWeek, currentPhysiqueLevel, adaptationMode, oneRepMaxFormula, loadingSetup, unitSystem, customSplit, trainingDays, onSave]);
 
   useEffect(() => {
     if (!didMountRef.current) { didMountRef.current = true; return; }
@@ -367,7 +443,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     if (autosaveRef.current) clearTimeout(autosaveRef.current);
     autosaveRef.current = setTimeout(persistSettings, 800);
     return () => { if (autosaveRef.current) clearTimeout(autosaveRef.current); };
-  }, [experienceLevel, trainingSplit, equipmentLevel, primaryGoal, daysPerWeek, currentPhysiqueLevel, persistSettings]);
+  }, [experienceLevel, trainingSplit, equipmentLevel, primaryGoal, daysPerWeek, currentPhysiqueLevel, adaptationMode, oneRepMaxFormula, loadingSetup, unitSystem, customSplit, trainingDays, persistSettings]);
 
   // ── picker datasets ──
   const physiqueLevels    = useMemo(() => getPhysiqueLevelsBySex(user.sex), [user.sex]);
@@ -379,9 +455,16 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     full_body: 'Full Body', upper_lower: 'Upper/Lower',
     push_pull_legs: 'Push/Pull/Legs', bro_split: 'Bro Split', custom: 'Custom',
   }[v] ?? v);
+  const formatWeekdays    = (days: number[]): string =>
+    days.length
+      ? WEEKDAY_ORDER.filter((d) => days.includes(d)).map((d) => WEEKDAY_LABELS[d]).join(' ')
+      : 'Auto';
   const formatEquipment   = (v: EquipmentLevel): string => ({
     bodyweight: 'Bodyweight', dumbbells: 'Dumbbells', full_gym: 'Full Gym',
   }[v] ?? v);
+  const formatAdaptation  = (v: AdaptationMode): string => ({
+    balanced: 'Balanced', progressive: 'Progressive', recovery: 'Recovery',
+  }[v] ?? v);
   const formatGoal        = (v: PrimaryGoal): string => ({
     build_muscle: 'Build Muscle', get_stronger: 'Get Stronger',
     lose_fat: 'Lose Fat', endurance: 'Endurance', general_fitness: 'General Fitness',
@@ -411,6 +494,26 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     { value: 'endurance',       label: 'Endurance' },
     { value: 'general_fitness', label: 'General Fitness' },
   ];
+  const adaptationOptions: PickerOption[] = [
+    { value: 'balanced',    label: 'Balanced',    sublabel: 'Steady reps-then-load progression' },
+    { value: 'progressive', label: 'Progressive', sublabel: 'Bigger jumps, tolerates harder sets' },
+    { value: 'recovery',    label: 'Recovery',    sublabel: 'Reps only, deloads early' },
+  ];
+  const oneRepMaxOptions: PickerOption[] = [
+    { value: 'epley',    label: 'Epley',     sublabel: 'Weight × (1 + reps / 30)' },
+    { value: 'brzycki',  label: 'Brzycki',   sublabel: 'Conservative for higher reps' },
+    { value: 'lombardi', label: 'Lombardi',  sublabel: 'Weight × reps^0.10' },
+    { value: 'rpe',      label: 'RPE table', sublabel: 'Uses logged RPE as reps in reserve' },
+  ];
+  const unitOptions: PickerOption[] = [
+    { value: 'metric',   label: 'Metric',   sublabel: 'Kilograms and centimeters' },
+    { value: 'imperial', label: 'Imperial', sublabel: 'Pounds, feet and inches' },
+  ];
+  const loadingOptions: PickerOption[] = LOADING_PRESETS.map((preset) => ({
+    value: preset.id,
+    label: preset.label,
+    sublabel: `${preset.setup.barWeight} ${preset.setup.unit} bar · ${preset.setup.plates.join(', ')}`,
+  }));
   const daysOptions: PickerOption[] = [
     { value: '3', label: '3 days / week' },
     { value: '4', label: '4 days / week' },
@@ -468,10 +571,22 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
             <Text style={s.valueText}>{daysPerWeek}×</Text>
             <Text style={s.chevron}>›</Text>
           </CardRow>
+          <CardRow icon="🗓️" label="Training Days" onPress={() => setWeekdayDraft(trainingDays)}>
+            <Text style={s.valueText}>{formatWeekdays(trainingDays)}</Text>
+            <Text style={s.chevron}>›</Text>
+          </CardRow>
           <CardRow icon="🏋️" label="Training Split" onPress={() => setActivePicker('split')}>
             <Text style={s.valueText}>{formatSplit(trainingSplit)}</Text>
             <Text style={s.chevron}>›</Text>
           </CardRow>
+          {trainingSplit === 'custom' && (
+            <CardRow icon="🧩" label="Custom Split" onPress={() => setSplitBuilderVisible(true)}>
+              <Text style={s.valueText}>
+                {customSplit.length ? `${customSplit.length} day${customSplit.length === 1 ? '' : 's'}` : 'Not set'}
+              </Text>
+              <Text style={s.chevron}>›</Text>
+            </CardRow>
+          )}
           <CardRow icon="🔧" label="Equipment" isLast onPress={() => setActivePicker('equipment')}>
             <Text style={s.valueText}>{formatEquipment(equipmentLevel)}</Text>
             <Text style={s.chevron}>›</Text>
@@ -484,6 +599,22 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
             <Text style={s.valueText}>{formatExperience(experienceLevel)}</Text>
             <Text style={s.chevron}>›</Text>
           </CardRow>
+          <CardRow icon="📈" label="Progression" onPress={() => setActivePicker('adaptation')}>
+            <Text style={s.valueText}>{formatAdaptation(adaptationMode)}</Text>
+            <Text style={s.chevron}>›</Text>
+          </CardRow>
+          <CardRow icon="🏆" label="1RM Formula" onPress={() => setActivePicker('oneRepMax')}>
+            <Text style={s.valueText}>{ONE_REP_MAX_FORMULA_LABELS[oneRepMaxFormula]}</Text>
+            <Text style={s.chevron}>›</Text>
+          </CardRow>
+          <CardRow icon="📐" label="Units" onPress={() => setActivePicker('units')}>
+            <Text style={s.valueText}>{UNIT_SYSTEM_LABELS[unitSystem]}</Text>
+            <Text style={s.chevron}>›</Text>
+          </CardRow>
+          <CardRow icon="⚖️" label="Bar & Plates" onPress={() => setActivePicker('loading')}>
+            <Text style={s.valueText}>{findLoadingPreset(loadingSetup)?.label ?? 'Custom'}</Text>
+            <Text style={s.chevron}>›</Text>
+          </CardRow>
           <CardRow icon="📓" label="Preferred Weights" isLast onPress={() => setDefaultsPanelVisible(true)}>
             <Text style={s.valueText}>{exerciseDefaults.length > 0 ? `${exerciseDefaults.length} saved` : 'None'}</Text>
             <Text style={s.chevron}>›</Text>
@@ -543,7 +674,12 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
         title="Days Per Week"
         options={daysOptions}
         selected={String(daysPerWeek)}
-        onSelect={(v) => setDaysPerWeek(parseInt(v, 10) as 3 | 4 | 5 | 6)}
+        onSelect={(v) => {
+          const next = parseInt(v, 10) as 3 | 4 | 5 | 6;
+          setDaysPerWeek(next);
+          // Chosen weekdays no longer match the new frequency
+          if (trainingDays.length && trainingDays.length !== next) setTrainingDays([]);
+        }}
         onClose={() => setActivePicker(null)}
       />
       <PickerModal
@@ -554,14 +690,123 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
         onSelect={(v) => setExperienceLevel(v as ExperienceLevel)}
         onClose={() => setActivePicker(null)}
       />
+      <PickerModal
+        visible={activePicker === 'adaptation'}
+        title="Progression"
+        options={adaptationOptions}
+        selected={adaptationMode}
+        onSelect={(v) => setAdaptationMode(v as AdaptationMode)}
+        onClose={() => setActivePicker(null)}
+      />
+      <PickerModal
+        visible={activePicker === 'oneRepMax'}
+        title="1RM Formula"
+        options={oneRepMaxOptions}
+        selected={oneRepMaxFormula}
+        onSelect={(v) => setOneRepMaxFormula(v as OneRepMaxFormula)}
+        onClose={() => setActivePicker(null)}
+      />
+      <PickerModal
+        visible={activePicker === 'units'}
+        title="Units"
+        options={unitOptions}
+        selected={unitSystem}
+        onSelect={(v) => setUnitSystem(v as UnitSystem)}
+        onClose={() => setActivePicker(null)}
+      />
+      <PickerModal
+        visible={activePicker === 'loading'}
+        title="Bar & Plates"
+        options={loadingOptions}
+        selected={findLoadingPreset(loadingSetup)?.id ?? ''}
+        onSelect={(v) => {
+          const preset = LOADING_PRESETS.find((entry) => entry.id === v);
+          if (preset) setLoadingSetup(preset.setup);
+        }}
+        onClose={() => setActivePicker(null)}
+      />
       <PickerModal
         visible={activePicker === 'split'}
         title="Training Split"
         options={splitOptions}
         selected={trainingSplit}
-        onSelect={(v) => setTrainingSplit(v as TrainingSplit)}
+        onSelect={(v) => {
+          setTrainingSplit(v as TrainingSplit);
+          if (v === 'custom' && !customSplit.length) setSplitBuilderVisible(true);
+        }}
         onClose={() => setActivePicker(null)}
       />
+      <CustomSplitBuilder
+        visible={splitBuilderVisible}
+        days={customSplit}
+        onSave={(days) => {
+          setCustomSplit(days);
+          setSplitBuilderVisible(false);
+        }}
+        onClose={() => setSplitBuilderVisible(false)}
+      />
+
+      {/* ── Training Days sheet ─────────────────────────────────────────────── */}
+      <Modal animationType="slide" transparent visible={weekdayDraft !== null} onRequestClose={() => setWeekdayDraft(null)}>
+        <View style={s.modalOverlay}>
+          <Pressable style={StyleSheet.absoluteFillObject} onPress={() => setWeekdayDraft(null)} />
+          <View style={[s.modalSheet, s.weekdaySheet]}>
+            <View style={s.modalHandle} />
+            <View style={s.modalHeaderRow}>
+              <Text style={s.modalTitle}>Training Days</Text>
+              <TouchableOpacity onPress={() => setWeekdayDraft(null)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Text style={s.modalCloseX}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={s.weekdayHint}>Pick 3–6 days. Leave on Auto to use the default {daysPerWeek}-day pattern.</Text>
+            <View style={s.weekdayRow}>
+              {WEEKDAY_ORDER.map((day) => {
+                const isActive = weekdayDraft?.includes(day) ?? false;
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={[s.weekdayChip, isActive && s.weekdayChipActive]}
+                    onPress={() =>
+                      setWeekdayDraft((prev) =>
+                        prev?.includes(day) ? prev.filter((d) => d !== day) : [...(prev ?? []), day]
+                      )
+                    }
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[s.weekdayChipText, isActive && s.weekdayChipTextActive]}>
+                      {WEEKDAY_LABELS[day]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={s.defaultCardActions}>
+              <TouchableOpacity
+                style={s.weekdayAutoBtn}
+                onPress={() => { setTrainingDays([]); setWeekdayDraft(null); }}
+              >
+                <Text style={s.weekdayAutoBtnText}>Use Auto</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  s.defaultSaveBtn,
+                  (!weekdayDraft || weekdayDraft.length < 3 || weekdayDraft.length > 6) && s.defaultBtnDisabled,
+                ]}
+                disabled={!weekdayDraft || weekdayDraft.length < 3 || weekdayDraft.length > 6}
+                onPress={() => {
+                  if (!weekdayDraft) return;
+                  const next = [...weekdayDraft].sort((a, b) => a - b);
+                  setTrainingDays(next);
+                  setDaysPerWeek(next.length as 3 | 4 | 5 | 6);
+                  setWeekdayDraft(null);
+                }}
+              >
+                <Text style={s.defaultSaveBtnText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
       <PickerModal
         visible={activePicker === 'equipment'}
         title="Equipment Level"
@@ -612,7 +857,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
                       >
                         <Text style={s.defaultCardTitle}>{getExerciseDisplayName(ed.exerciseId)}</Text>
                         <View style={s.defaultCardRight}>
-                          <Text style={s.defaultCardSummary}>{vals.sets}×{vals.reps} · {vals.weight}kg</Text>
+                          <Text style={s.defaultCardSummary}>{vals.sets}×{vals.reps} · {vals.weight}{getWeightUnit(unitSystem)}</Text>
                           <Text style={s.chevron}>{expanded ? '⌄' : '›'}</Text>
                         </View>
                       </TouchableOpacity>
@@ -625,7 +870,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
                                   <Text style={s.defaultGridLabel}>{field.charAt(0).toUpperCase() + field.slice(1)}</Text>
                                   <TextInput
                                     style={s.defaultGridInput}
-                                    keyboardType="number-pad"
+                                    keyboardType={field === 'reps' ? 'numbers-and-punctuation' : 'number-pad'}
                                     value={vals[field]}
                                     onChangeText={(t) => handleDefaultFieldChange(ed.id, field, t)}
                                   />
@@ -634,7 +879,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
                             </View>
                             <View style={s.defaultGridRow}>
                               <View style={s.defaultGridItem}>
-                                <Text style={s.defaultGridLabel}>Weight (kg)</Text>
+                                <Text style={s.defaultGridLabel}>Weight ({getWeightUnit(unitSystem)})</Text>
                                 <TextInput style={s.defaultGridInput} keyboardType="decimal-pad" value={vals.weight} onChangeText={(t) => handleDefaultFieldChange(ed.id, 'weight', t)} />
                               </View>
                               <View style={s.defaultGridItem}>
@@ -817,6 +1062,16 @@ const s = StyleSheet.create({
   defaultRemoveBtnText: { fontSize: 13, fontWeight: '600', color: C.danger },
   defaultBtnDisabled:{ opacity: 0.5 },
 
+  weekdaySheet:      { paddingBottom: 32 },
+  weekdayHint:       { fontSize: 12, color: C.textMuted, lineHeight: 17, marginBottom: 14 },
+  weekdayRow:        { flexDirection: 'row', justifyContent: 'space-between', gap: 6 },
+  weekdayChip:       { flex: 1, paddingVertical: 10, borderRadius: 8, borderWidth: 1, borderColor: C.border, alignItems: 'center' },
+  weekdayChipActive: { backgroundColor: 'rgba(108,99,255,0.16)', borderColor: C.primary },
+  weekdayChipText:   { fontSize: 12, fontWeight: '600', color: C.textSec },
+  weekdayChipTextActive: { color: C.primary },
+  weekdayAutoBtn:    { flex: 1, paddingVertical: 9, borderRadius: 8, borderWidth: 1, borderColor: C.border, alignItems: 'center' },
+  weekdayAutoBtnText:{ fontSize: 13, fontWeight: '600', color: C.textSec },
+
   addDefaultBtn:     { marginTop: 12, paddingVertical: 12, borderRadius: 10, borderWidth: 1, borderColor: 'rgba(108,99,255,0.35)', borderStyle: 'dashed', alignItems: 'center' },
   addDefaultBtnText: { fontSize: 14, fontWeight: '700', color: C.primary },
 
@@ -0,0 +1,58 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APP_STATE_VERSION, AppState } from '../types/domain';
+import { migrateAppState } from '../utils/appStateMigrations';
+
+const APP_STATE_STORAGE_PREFIX = 'fitarc:app_state:v';
+
+export type AppStateSnapshotResult =
+  | { status: 'empty' }
+  | { status: 'restored'; state: AppState; migratedFrom: number | null }
+  | { status: 'unrecoverable' };
+
+export const getAppStateStorageKey = (version: number = APP_STATE_VERSION) =>
+  `${APP_STATE_STORAGE_PREFIX}${version}`;
+
+const getKnownStorageKeys = () =>
+  Array.from({ length: APP_STATE_VERSION }, (_, index) => getAppStateStorageKey(APP_STATE_VERSION - index));
+
+/**
+ * Loads the newest stored snapshot, upgrading it through the migration
+ * registry when it was written by an older app version. Upgraded snapshots
+ * are rewritten under the current key; unrecoverable ones are removed.
+ */
+export const loadAppStateSnapshot = async (): Promise<AppStateSnapshotResult> => {
+  for (let version = APP_STATE_VERSION; version >= 1; version -= 1) {
+    const key = getAppStateStorageKey(version);
+    const raw = await AsyncStorage.getItem(key);
+    if (!raw) continue;
+
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      console.warn('Discarding unreadable app state snapshot:', error);
+    }
+
+    const state = parsed ? migrateAppState(parsed) : null;
+    if (!state) {
+      await AsyncStorage.multiRemove(getKnownStorageKeys());
+      return { status: 'unrecoverable' };
+    }
+
+    if (version !== APP_STATE_VERSION) {
+      await saveAppStateSnapshot(state);
+      await AsyncStorage.removeItem(key);
+      return { status: 'restored', state, migratedFrom: version };
+    }
+    return { status: 'restored', state, migratedFrom: null };
+  }
+  return { status: 'empty' };
+};
+
+export const saveAppStateSnapshot = async (state: AppState): Promise<void> => {
+  await AsyncStorage.setItem(getAppStateStorageKey(), JSON.stringify(state));
+};
+
+export const clearAppStateSnapshot = async (): Promise<void> => {
+  await AsyncStorage.multiRemove(getKnownStorageKeys());
+};
@@ -0,0 +1,88 @@
+import { supabase } from '../lib/supabaseClient';
+import { BodyWeightEntry } from '../types/domain';
+
+const BODY_WEIGHT_TABLE = 'fitarc_body_weight_logs';
+
+/** Fields to write for a day; anything left undefined keeps its stored value. */
+export type BodyWeightLogValues = {
+  weightKg?: number;
+  intakeKcal?: number;
+};
+
+type BodyWeightRow = {
+  id: string;
+  user_id: string;
+  log_date: string;
+  weight_kg: number | string | null;
+  intake_kcal?: number | null;
+};
+
+const isMissingBodyWeightTableError = (error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  return code === '42P01' || code === 'PGRST205';
+};
+
+const isMissingColumnError = (error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  return code === '42703' || code === 'PGRST204';
+};
+
+const mapBodyWeightRow = (row: BodyWeightRow): BodyWeightEntry => ({
+  id: row.id,
+  date: row.log_date,
+  weightKg: row.weight_kg != null ? Number(row.weight_kg) : null,
+  intakeKcal: row.intake_kcal ?? null,
+});
+
+/**
+ * One row per day; logging a day again replaces only the fields given.
+ * Intake arrived after the table did, so older schemas keep the weight and
+ * drop the intake.
+ */
+export const upsertBodyWeightEntry = async (
+  input: { userId: string; date: string } & BodyWeightLogValues
+): Promise<BodyWeightEntry> => {
+  const upsertRow = (withIntake: boolean) =>
+    supabase
+      .from(BODY_WEIGHT_TABLE)
+      .upsert(
+        {
+          user_id: input.userId,
+          log_date: input.date,
+          ...(input.weightKg !== undefined ? { weight_kg: input.weightKg } : {}),
+          ...(withIntake && input.intakeKcal !== undefined ? { intake_kcal: input.intakeKcal } : {}),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,log_date' }
+      )
+      .select('*')
+      .single();
+
+  let { data, error } = await upsertRow(true);
+  if (error && isMissingColumnError(error) && input.intakeKcal !== undefined) {
+    ({ data, error } = await upsertRow(false));
+  }
+
+  if (error) {
+    throw error;
+  }
+  return mapBodyWeightRow(data as BodyWeightRow);
+};
+
+/** Weigh-ins between two dates, inclusive and oldest first. */
+export const fetchBodyWeightEntries = async (
+  userId: string,
+  fromDate?: string,
+  toDate?: string
+): Promise<BodyWeightEntry[]> => {
+  let query = supabase.from(BODY_WEIGHT_TABLE).select('*').eq('user_id', userId);
+  if (fromDate) query = query.gte('log_date', fromDate);
+  if (toDate) query = query.lte('log_date', toDate);
+
+  const { data, error } = await query.order('log_date', { ascending: true });
+  if (error) {
+    if (isMissingBodyWeightTableError(error)) return [];
+    throw error;
+  }
+  return ((data ?? []) as BodyWeightRow[]).map(mapBodyWeightRow);
+};
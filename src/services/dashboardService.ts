@@ -1,5 +1,11 @@
 import { supabase } from '../lib/supabaseClient';
-import { PhotoCheckin, PhasePlan, WorkoutSessionEntry } from '../types/domain';
+import {
+  BodyWeightEntry,
+  HabitLog,
+  PhotoCheckin,
+  PhasePlan,
+  WorkoutSessionEntry,
+} from '../types/domain';
 import { mapPhaseRow } from './phaseService';
 import {
   formatDateInTimeZone,
@@ -9,6 +15,11 @@ import {
 } from '../utils/time';
 import { buildConsistencySummary } from '../utils/homeDataUtils';
 import { fetchWorkoutSessionEntries } from './workoutService';
+import { fetchLatestPhotoCheckin } from './photoCheckinService';
+import { fetchHabitLogs } from './habitService';
+import { fetchBodyWeightEntries } from './bodyWeightService';
+import { TREND_SEED_DAYS } from '../utils/bodyWeightTrend';
+import { addDays, formatLocalDateYMD, parseYMDToDate } from '../utils/date';
 
 const WORKOUT_LOOKBACK_DAYS = 14;
 
@@ -17,9 +28,12 @@ export type HomeScreenData = {
   recentSessions: WorkoutSessionEntry[];
   todaySession: WorkoutSessionEntry | null;
   lastPhotoCheckin: PhotoCheckin | null;
+  habitLogs: HabitLog[];
+  bodyWeightLogs: BodyWeightEntry[];
   consistencySummary: {
     streak: number;
     adherencePercent: number;
+    habitAdherencePercent: number;
   };
 };
 
@@ -54,7 +68,15 @@ export const fetchHomeData = async (
   );
 
   const todaySession = recentSessions.find((session) => session.date === todayKey) || null;
-  const lastPhotoCheckin = null;
+  const lastPhotoCheckin = planId ? await fetchLatestPhotoCheckin(userId, planId) : null;
+  const habitLogs = planId
+    ? await fetchHabitLogs(userId, planId, phase?.startDate ?? fromStartIso.slice(0, 10), todayKey)
+    : [];
+  // Weigh-ins from before the phase seed its trend
+  const bodyWeightFrom = formatLocalDateYMD(
+    addDays(parseYMDToDate(phase?.startDate ?? fromStartIso.slice(0, 10)), -TREND_SEED_DAYS)
+  );
+  const bodyWeightLogs = await fetchBodyWeightEntries(userId, bodyWeightFrom, todayKey);
 
   if (__DEV__) {
     console.log('[fetchHomeData]', {
@@ -71,6 +93,8 @@ export const fetchHomeData = async (
     recentSessions,
     todaySession,
     lastPhotoCheckin,
-    consistencySummary: buildConsistencySummary(recentSessions, phase?.startDate ?? null),
+    habitLogs,
+    bodyWeightLogs,
+    consistencySummary: buildConsistencySummary(recentSessions, phase?.startDate ?? null, habitLogs),
   };
 };
@@ -0,0 +1,90 @@
+import { supabase } from '../lib/supabaseClient';
+import { HabitLog, HabitType } from '../types/domain';
+
+const HABIT_TABLE = 'fitarc_habit_logs';
+
+export const HABIT_TYPES: HabitType[] = ['steps', 'sleep', 'hydration'];
+
+type HabitLogRow = {
+  id: string;
+  user_id: string;
+  plan_id: string;
+  log_date: string;
+  steps: boolean | null;
+  sleep: boolean | null;
+  hydration: boolean | null;
+};
+
+export const createEmptyHabits = (): Record<HabitType, boolean> => ({
+  steps: false,
+  sleep: false,
+  hydration: false,
+});
+
+const isMissingHabitTableError = (error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  return code === '42P01' || code === 'PGRST205';
+};
+
+const mapHabitLogRow = (row: HabitLogRow): HabitLog => ({
+  id: row.id,
+  date: row.log_date,
+  phasePlanId: row.plan_id,
+  habits: {
+    steps: row.steps === true,
+    sleep: row.sleep === true,
+    hydration: row.hydration === true,
+  },
+});
+
+/** One row per plan day; writing a day again replaces its habit flags. */
+export const upsertHabitLog = async (input: {
+  userId: string;
+  planId: string;
+  date: string;
+  habits: Record<HabitType, boolean>;
+}): Promise<HabitLog> => {
+  const { data, error } = await supabase
+    .from(HABIT_TABLE)
+    .upsert(
+      {
+        user_id: input.userId,
+        plan_id: input.planId,
+        log_date: input.date,
+        steps: input.habits.steps,
+        sleep: input.habits.sleep,
+        hydration: input.habits.hydration,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,plan_id,log_date' }
+    )
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return mapHabitLogRow(data as HabitLogRow);
+};
+
+export const fetchHabitLogs = async (
+  userId: string,
+  planId: string,
+  fromDate?: string,
+  toDate?: string
+): Promise<HabitLog[]> => {
+  let query = supabase
+    .from(HABIT_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .eq('plan_id', planId);
+  if (fromDate) query = query.gte('log_date', fromDate);
+  if (toDate) query = query.lte('log_date', toDate);
+
+  const { data, error } = await query.order('log_date', { ascending: true });
+  if (error) {
+    if (isMissingHabitTableError(error)) return [];
+    throw error;
+  }
+  return ((data ?? []) as HabitLogRow[]).map(mapHabitLogRow);
+};
@@ -0,0 +1,151 @@
+export type InjuryArea = 'shoulder' | 'lower_back' | 'knee' | 'elbow' | 'neck';
+
+export type InjuryRisk = 'avoid' | 'caution' | 'safe';
+
+export type InjuryAssessment = {
+  risk: InjuryRisk;
+  injuries: InjuryArea[];
+};
+
+type Contraindication = {
+  /** Movement patterns that load the injured area directly. */
+  avoidPatterns: string[];
+  /** Exercise names that are risky regardless of their tagged pattern. */
+  avoidNames: RegExp;
+  /** Patterns and muscles that still stress the area, but less. */
+  cautionPatterns: string[];
+  cautionMuscles: string[];
+};
+
+export type InjuryScreenedExercise = {
+  name: string;
+  movementPattern?: string | null;
+  bodyParts?: string[] | null;
+};
+
+export const INJURY_CONTRAINDICATIONS: Record<InjuryArea, Contraindication> = {
+  shoulder: {
+    avoidPatterns: ['vertical_push'],
+    avoidNames: /overhead|military|upright row|behind.?the.?neck|\bdips?\b|snatch|jerk/i,
+    cautionPatterns: ['horizontal_push', 'vertical_pull'],
+    cautionMuscles: ['shoulders', 'delts', 'rear delts'],
+  },
+  lower_back: {
+    avoidPatterns: ['hinge'],
+    avoidNames: /deadlift|good morning|\brdl\b|bent.?over row|barbell row|back squat|back extension/i,
+    cautionPatterns: ['squat', 'horizontal_pull'],
+    cautionMuscles: ['lower back', 'erectors', 'hamstrings'],
+  },
+  knee: {
+    avoidPatterns: ['lunge'],
+    avoidNames: /jump|lunge|pistol|split squat|leg extension|sissy|box jump/i,
+    cautionPatterns: ['squat'],
+    cautionMuscles: ['quads', 'legs'],
+  },
+  elbow: {
+    avoidPatterns: [],
+    avoidNames: /skull|close.?grip|french press|preacher|\bdips?\b|chin.?up/i,
+    cautionPatterns: ['vertical_pull'],
+    cautionMuscles: ['triceps', 'biceps', 'forearms', 'arms'],
+  },
+  neck: {
+    avoidPatterns: [],
+    avoidNames: /shrug|upright row|behind.?the.?neck|neck|headstand/i,
+    cautionPatterns: ['vertical_push'],
+    cautionMuscles: ['traps', 'trapezius'],
+  },
+};
+
+const INJURY_ALIASES: Record<string, InjuryArea> = {
+  shoulder: 'shoulder',
+  shoulders: 'shoulder',
+  lower_back: 'lower_back',
+  back: 'lower_back',
+  low_back: 'lower_back',
+  knee: 'knee',
+  knees: 'knee',
+  elbow: 'elbow',
+  elbows: 'elbow',
+  neck: 'neck',
+};
+
+const RISK_RANK: Record<InjuryRisk, number> = { safe: 0, caution: 1, avoid: 2 };
+
+const normalizeKey = (value?: string | null): string =>
+  (value ?? '').trim().toLowerCase().replace(/\s+/g, '_');
+
+/** Maps the labels collected at onboarding ('Lower back', …) to injury areas. */
+export const normalizeInjuryAreas = (injuries?: string[] | null): InjuryArea[] =>
+  Array.from(
+    new Set(
+      (injuries ?? [])
+        .map((injury) => INJURY_ALIASES[normalizeKey(injury)])
+        .filter((area): area is InjuryArea => Boolean(area))
+    )
+  );
+
+export const assessInjuryRisk = (
+  exercise: InjuryScreenedExercise,
+  injuries: InjuryArea[]
+): InjuryAssessment => {
+  let risk: InjuryRisk = 'safe';
+  const flagged: InjuryArea[] = [];
+  const pattern = normalizeKey(exercise.movementPattern);
+  const muscles = (exercise.bodyParts ?? []).map((part) => part.trim().toLowerCase());
+
+  injuries.forEach((injury) => {
+    const rules = INJURY_CONTRAINDICATIONS[injury];
+    let injuryRisk: InjuryRisk = 'safe';
+    if (rules.avoidPatterns.includes(pattern) || rules.avoidNames.test(exercise.name)) {
+      injuryRisk = 'avoid';
+    } else if (
+      rules.cautionPatterns.includes(pattern) ||
+      muscles.some((muscle) => rules.cautionMuscles.includes(muscle))
+    ) {
+      injuryRisk = 'caution';
+    }
+    if (injuryRisk === 'safe') return;
+    flagged.push(injury);
+    if (RISK_RANK[injuryRisk] > RISK_RANK[risk]) risk = injuryRisk;
+  });
+
+  return { risk, injuries: flagged };
+};
+
+export const formatInjuryArea = (injury: InjuryArea): string =>
+  injury === 'lower_back' ? 'Lower back' : injury.charAt(0).toUpperCase() + injury.slice(1);
+
+/**
+ * Closest alternative that is not contraindicated: shared muscles count most,
+ * then a matching movement pattern; 'caution' candidates rank below safe ones.
+ */
+export const findSafeSubstitute = <T extends InjuryScreenedExercise>(
+  exercise: InjuryScreenedExercise,
+  candidates: T[],
+  injuries: InjuryArea[]
+): T | null => {
+  const targetName = exercise.name.trim().toLowerCase();
+  const targetPattern = normalizeKey(exercise.movementPattern);
+  const targetMuscles = new Set((exercise.bodyParts ?? []).map((part) => part.trim().toLowerCase()));
+
+  let best: T | null = null;
+  let bestScore = -Infinity;
+  for (const candidate of candidates) {
+    if (candidate.name.trim().toLowerCase() === targetName) continue;
+    const { risk } = assessInjuryRisk(candidate, injuries);
+    if (risk === 'avoid') continue;
+
+    const overlap = (candidate.bodyParts ?? []).filter((part) =>
+      targetMuscles.has(part.trim().toLowerCase())
+    ).length;
+    const samePattern = !!targetPattern && normalizeKey(candidate.movementPattern) === targetPattern;
+    if (!overlap && !samePattern) continue;
+
+    const score = overlap * 2 + (samePattern ? 3 : 0) - (risk === 'caution' ? 2 : 0);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,126 @@
+import { PlanDay } from '../types/domain';
+import { addDays, formatLocalDateYMD, getWeekStartDate, parseYMDToDate } from '../utils/date';
+import {
+  PlanDayReassignment,
+  fetchPlanRange,
+  reassignPlanDays,
+  toPlanExerciseInputs,
+} from './planRuntimeService';
+import { fetchWorkoutCompletionMap } from './workoutService';
+
+export type MissedWorkoutOption = 'shift' | 'merge' | 'skip';
+
+export type MissedWorkout = {
+  missed: PlanDay;
+  /** Plan days from today through the next six days. */
+  upcoming: PlanDay[];
+};
+
+const MISSED_WORKOUT_LOOKBACK_DAYS = 7;
+
+const hasWorkout = (day: PlanDay) => Boolean(day.workout?.exercises.length);
+
+const shiftDate = (date: string, amount: number) =>
+  formatLocalDateYMD(addDays(parseYMDToDate(date), amount));
+
+const toRestDay = (date: string): PlanDayReassignment => ({
+  date,
+  templateId: null,
+  exercises: [],
+});
+
+const toReassignment = (date: string, source: PlanDay): PlanDayReassignment => ({
+  date,
+  templateId: source.workout?.sourceTemplateId ?? null,
+  exercises: toPlanExerciseInputs(source.workout?.exercises ?? []),
+});
+
+/** Earliest past training day with no completed session. */
+export const findMissedPlanDay = (
+  planDays: PlanDay[],
+  completionMap: Record<string, boolean>,
+  today: string
+): PlanDay | null =>
+  planDays
+    .filter((day) => day.date < today && hasWorkout(day) && completionMap[day.date] === false)
+    .sort((a, b) => a.date.localeCompare(b.date))[0] ?? null;
+
+/**
+ * Plan-day writes for each option. The missed day always becomes a rest day:
+ * - shift: this week's remaining training days each take the previous one's
+ *   workout, starting with the missed one; the last workout drops off
+ * - merge: missed exercises not already planned are appended to the next
+ *   training day
+ * - skip: nothing else moves
+ */
+export const buildMissedWorkoutReassignments = (
+  option: MissedWorkoutOption,
+  missed: PlanDay,
+  upcoming: PlanDay[],
+  today: string
+): PlanDayReassignment[] => {
+  const training = upcoming
+    .filter((day) => day.date >= today && hasWorkout(day))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (option === 'shift') {
+    const weekEnd = shiftDate(formatLocalDateYMD(getWeekStartDate(parseYMDToDate(today))), 6);
+    const targets = training.filter((day) => day.date <= weekEnd);
+    const sources = [missed, ...targets.slice(0, -1)];
+    return [toRestDay(missed.date), ...targets.map((day, index) => toReassignment(day.date, sources[index]))];
+  }
+
+  if (option === 'merge' && training.length) {
+    const target = training[0];
+    const targetExercises = target.workout?.exercises ?? [];
+    const planned = new Set(targetExercises.map((exercise) => exercise.exerciseId || exercise.name));
+    const carried = (missed.workout?.exercises ?? []).filter(
+      (exercise) => !planned.has(exercise.exerciseId || exercise.name)
+    );
+    const exercises = [
+      ...toPlanExerciseInputs(targetExercises),
+      // Carried exercises belong to another template, so they go in as additions
+      ...toPlanExerciseInputs(carried).map((input) => ({ ...input, sourceTemplateExerciseId: null })),
+    ].map((input, index) => ({ ...input, displayOrder: index + 1 }));
+    return [
+      toRestDay(missed.date),
+      { date: target.date, templateId: target.workout?.sourceTemplateId ?? null, exercises },
+    ];
+  }
+
+  return [toRestDay(missed.date)];
+};
+
+export const fetchMissedWorkout = async (
+  userId: string,
+  planId: string,
+  today: string = formatLocalDateYMD(new Date())
+): Promise<MissedWorkout | null> => {
+  const from = shiftDate(today, -MISSED_WORKOUT_LOOKBACK_DAYS);
+  const yesterday = shiftDate(today, -1);
+  const [completionMap, pastDays] = await Promise.all([
+    fetchWorkoutCompletionMap(userId, from, yesterday),
+    fetchPlanRange(userId, planId, from, yesterday),
+  ]);
+  const missed = findMissedPlanDay(pastDays, completionMap, today);
+  if (!missed) return null;
+
+  const upcoming = await fetchPlanRange(userId, planId, today, shiftDate(today, 6));
+  return { missed, upcoming };
+};
+
+export const resolveMissedWorkout = async (
+  userId: string,
+  planId: string,
+  option: MissedWorkoutOption,
+  missedWorkout: MissedWorkout,
+  today: string = formatLocalDateYMD(new Date())
+): Promise<void> => {
+  const assignments = buildMissedWorkoutReassignments(
+    option,
+    missedWorkout.missed,
+    missedWorkout.upcoming,
+    today
+  );
+  await reassignPlanDays(userId, planId, assignments);
+};
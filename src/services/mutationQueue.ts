@@ -0,0 +1,372 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { HabitType, WorkoutSessionExercise } from '../types/domain';
+import {
+  addExerciseToSession,
+  setExerciseCompletionForDate,
+  setSetRestForDate,
+  upsertWorkoutSessionWithExercises,
+} from './workoutService';
+import {
+  PlanExerciseInput,
+  appendPlanExercisesForDate,
+  fetchPlanDayLastModified,
+  replacePlanExercisesForDate,
+} from './planRuntimeService';
+import { upsertHabitLog } from './habitService';
+import { upsertBodyWeightEntry } from './bodyWeightService';
+
+const MUTATION_QUEUE_STORAGE_KEY = 'fitarc:mutation_queue';
+/** Server timestamp of this device's last write to each plan day. */
+const PLAN_DAY_WRITES_STORAGE_KEY = 'fitarc:plan_day_writes';
+const MAX_TRACKED_PLAN_DAYS = 60;
+const MAX_REPLAY_ATTEMPTS = 3;
+
+export type PendingMutation =
+  | {
+      kind: 'set_exercise_completion';
+      userId: string;
+      planId: string;
+      date: string;
+      exerciseId?: string | null;
+      exerciseName: string;
+      completed: boolean;
+      exercises: WorkoutSessionExercise[];
+    }
+  | {
+      kind: 'upsert_session';
+      userId: string;
+      planId: string;
+      date: string;
+      exercises: WorkoutSessionExercise[];
+    }
+  | {
+      kind: 'record_set_rest';
+      userId: string;
+      planId: string;
+      date: string;
+      exerciseId?: string | null;
+      exerciseName: string;
+      setNumber: number;
+      restSeconds: number;
+    }
+  | {
+      kind: 'replace_plan_exercises';
+      userId: string;
+      planId: string;
+      date: string;
+      exercises: PlanExerciseInput[];
+    }
+  | {
+      kind: 'append_plan_exercises';
+      userId: string;
+      planId: string;
+      date: string;
+      exercises: PlanExerciseInput[];
+    }
+  | {
+      kind: 'add_session_exercises';
+      sessionId: string;
+      exercises: Array<{ exercise: WorkoutSessionExercise; displayOrder: number }>;
+    }
+  | {
+      kind: 'upsert_habit_log';
+      userId: string;
+      planId: string;
+      date: string;
+      habits: Record<HabitType, boolean>;
+    }
+  | {
+      kind: 'upsert_body_weight';
+      userId: string;
+      date: string;
+      weightKg?: number;
+      intakeKcal?: number;
+    };
+
+export type QueuedMutation = PendingMutation & {
+  id: string;
+  lastModified: string;
+  attempts: number;
+};
+
+export type MutationReplayResult = {
+  applied: number;
+  dropped: number;
+  remaining: number;
+};
+
+export const isNetworkError = (error: unknown): boolean => {
+  const message = (error as { message?: string } | null)?.message ?? '';
+  return /network request failed|failed to fetch|network ?error|timed? ?out/i.test(message);
+};
+
+// Queue reads and writes are chained so an enqueue never races a replay.
+let queueLock: Promise<unknown> = Promise.resolve();
+
+const withQueueLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const next = queueLock.then(task, task);
+  queueLock = next.catch(() => undefined);
+  return next;
+};
+
+const readQueue = async (): Promise<QueuedMutation[]> => {
+  const raw = await AsyncStorage.getItem(MUTATION_QUEUE_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as QueuedMutation[]) : [];
+  } catch (error) {
+    console.warn('Discarding unreadable mutation queue:', error);
+    return [];
+  }
+};
+
+const writeQueue = async (queue: QueuedMutation[]): Promise<void> => {
+  if (!queue.length) {
+    await AsyncStorage.removeItem(MUTATION_QUEUE_STORAGE_KEY);
+    return;
+  }
+  await AsyncStorage.setItem(MUTATION_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+};
+
+type PlanDayWrites = Record<string, string>;
+
+const readPlanDayWrites = async (): Promise<PlanDayWrites> => {
+  const raw = await AsyncStorage.getItem(PLAN_DAY_WRITES_STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? (parsed as PlanDayWrites) : {};
+  } catch {
+    return {};
+  }
+};
+
+const buildMutationId = () =>
+  `mut:${Date.now().toString(36)}:${Math.random().toString(36).slice(2, 8)}`;
+
+const isPlanDayMutation = (
+  mutation: PendingMutation
+): mutation is Extract<PendingMutation, { kind: 'replace_plan_exercises' | 'append_plan_exercises' }> =>
+  mutation.kind === 'replace_plan_exercises' || mutation.kind === 'append_plan_exercises';
+
+/**
+ * A newer mutation makes an older queued one redundant when it fully
+ * describes the same target: a replace covers every earlier edit of that
+ * plan day, a session upsert covers earlier session writes for that date,
+ * a completion write covers earlier writes for that exercise, a habit
+ * write carries the whole day's flags, and a weigh-in replaces that day's
+ * when it carries every field the queued one did.
+ */
+const isSupersededBy = (queued: QueuedMutation, incoming: PendingMutation): boolean => {
+  if (incoming.kind === 'replace_plan_exercises' && isPlanDayMutation(queued)) {
+    return queued.planId === incoming.planId && queued.date === incoming.date;
+  }
+  if (
+    incoming.kind === 'upsert_session' &&
+    (queued.kind === 'upsert_session' ||
+      queued.kind === 'set_exercise_completion' ||
+      queued.kind === 'record_set_rest')
+  ) {
+    return queued.planId === incoming.planId && queued.date === incoming.date;
+  }
+  if (incoming.kind === 'set_exercise_completion' && queued.kind === 'set_exercise_completion') {
+    const sameExercise = incoming.exerciseId
+      ? queued.exerciseId === incoming.exerciseId
+      : queued.exerciseName.toLowerCase().trim() === incoming.exerciseName.toLowerCase().trim();
+    return queued.planId === incoming.planId && queued.date === incoming.date && sameExercise;
+  }
+  if (incoming.kind === 'upsert_habit_log' && queued.kind === 'upsert_habit_log') {
+    return queued.planId === incoming.planId && queued.date === incoming.date;
+  }
+  if (incoming.kind === 'upsert_body_weight' && queued.kind === 'upsert_body_weight') {
+    return (
+      queued.userId === incoming.userId &&
+      queued.date === incoming.date &&
+      (queued.weightKg === undefined || incoming.weightKg !== undefined) &&
+      (queued.intakeKcal === undefined || incoming.intakeKcal !== undefined)
+    );
+  }
+  return false;
+};
+
+export const loadMutationQueue = (): Promise<QueuedMutation[]> => withQueueLock(readQueue);
+
+export const enqueueMutation = (
+  mutation: PendingMutation,
+  lastModified: string = new Date().toISOString()
+): Promise<QueuedMutation[]> =>
+  withQueueLock(async () => {
+    const queue = await readQueue();
+    const next = [
+      ...queue.filter((entry) => !isSupersededBy(entry, mutation)),
+      { ...mutation, id: buildMutationId(), lastModified, attempts: 0 } as QueuedMutation,
+    ];
+    await writeQueue(next);
+    return next;
+  });
+
+export const clearMutationQueue = (): Promise<void> =>
+  withQueueLock(() =>
+    AsyncStorage.multiRemove([MUTATION_QUEUE_STORAGE_KEY, PLAN_DAY_WRITES_STORAGE_KEY])
+  );
+
+const planDayKey = (mutation: Extract<PendingMutation, { planId: string; date: string }>) =>
+  `${mutation.userId}:${mutation.planId}:${mutation.date}`;
+
+/**
+ * Remembers the server timestamp of a plan-day write this device just made,
+ * so a later replay can tell it apart from another device's edit. Best
+ * effort: without it the replay falls back to comparing timestamps alone.
+ */
+const recordOwnPlanDayWrite = async (mutation: PendingMutation): Promise<void> => {
+  if (!isPlanDayMutation(mutation)) return;
+  try {
+    const written = await fetchPlanDayLastModified(mutation.userId, mutation.planId, mutation.date);
+    if (!written) return;
+    const writes = await readPlanDayWrites();
+    const key = planDayKey(mutation);
+    delete writes[key];
+    writes[key] = written;
+    const kept = Object.entries(writes).slice(-MAX_TRACKED_PLAN_DAYS);
+    await AsyncStorage.setItem(PLAN_DAY_WRITES_STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch (error) {
+    console.warn('Unable to record plan day write:', error);
+  }
+};
+
+const executeMutation = async (mutation: PendingMutation): Promise<void> => {
+  switch (mutation.kind) {
+    case 'set_exercise_completion':
+      await setExerciseCompletionForDate(mutation);
+      return;
+    case 'upsert_session':
+      await upsertWorkoutSessionWithExercises(mutation);
+      return;
+    case 'record_set_rest':
+      await setSetRestForDate(mutation);
+      return;
+    case 'replace_plan_exercises':
+      await replacePlanExercisesForDate(
+        mutation.userId,
+        mutation.planId,
+        mutation.date,
+        mutation.exercises
+      );
+      return;
+    case 'append_plan_exercises':
+      await appendPlanExercisesForDate(
+        mutation.userId,
+        mutation.planId,
+        mutation.date,
+        mutation.exercises
+      );
+      return;
+    case 'add_session_exercises':
+      for (const { exercise, displayOrder } of mutation.exercises) {
+        try {
+          await addExerciseToSession({ sessionId: mutation.sessionId, exercise, displayOrder });
+        } catch (err: unknown) {
+          if (err instanceof Error && err.message === 'duplicate_exercise') continue;
+          throw err;
+        }
+      }
+      return;
+    case 'upsert_habit_log':
+      await upsertHabitLog(mutation);
+      return;
+    case 'upsert_body_weight':
+      await upsertBodyWeightEntry(mutation);
+      return;
+  }
+};
+
+/**
+ * Plan-day edits are last-writer-wins: if another device wrote the remote
+ * overrides for that day after the queued edit was made locally, the remote
+ * copy is kept and the queued edit is discarded. `remoteModified` is read
+ * once per day before the replay writes to it, and a remote write matching
+ * this device's own last write is never another device's edit, so queued
+ * edits of the same day don't knock each other out.
+ */
+const hasNewerRemoteEdit = (
+  entry: QueuedMutation,
+  remoteModified: string | null,
+  ownWrite: string | undefined
+): boolean => {
+  if (!remoteModified || remoteModified === ownWrite) return false;
+  return new Date(remoteModified).getTime() > new Date(entry.lastModified).getTime();
+};
+
+/**
+ * Runs a mutation immediately, or queues it when earlier mutations are still
+ * pending or the request fails for lack of connectivity.
+ */
+export const runOrQueueMutation = async (
+  mutation: PendingMutation
+): Promise<'applied' | 'queued'> => {
+  const pending = await loadMutationQueue();
+  if (pending.length) {
+    await enqueueMutation(mutation);
+    return 'queued';
+  }
+  try {
+    await executeMutation(mutation);
+    await recordOwnPlanDayWrite(mutation);
+    return 'applied';
+  } catch (err) {
+    if (!isNetworkError(err)) throw err;
+    await enqueueMutation(mutation);
+    return 'queued';
+  }
+};
+
+/**
+ * Replays queued mutations in the order they were made. Stops at the first
+ * connectivity failure so ordering is preserved for the next attempt.
+ */
+export const replayMutationQueue = (): Promise<MutationReplayResult> =>
+  withQueueLock(async () => {
+    const queue = await readQueue();
+    const ownWrites = await readPlanDayWrites();
+    const remoteAtStart = new Map<string, string | null>();
+    const result: MutationReplayResult = { applied: 0, dropped: 0, remaining: 0 };
+    let index = 0;
+
+    for (; index < queue.length; index += 1) {
+      const entry = queue[index];
+      try {
+        if (isPlanDayMutation(entry)) {
+          const key = planDayKey(entry);
+          if (!remoteAtStart.has(key)) {
+            remoteAtStart.set(
+              key,
+              await fetchPlanDayLastModified(entry.userId, entry.planId, entry.date)
+            );
+          }
+          if (hasNewerRemoteEdit(entry, remoteAtStart.get(key) ?? null, ownWrites[key])) {
+            result.dropped += 1;
+            continue;
+          }
+        }
+        await executeMutation(entry);
+        await recordOwnPlanDayWrite(entry);
+        result.applied += 1;
+      } catch (err) {
+        if (isNetworkError(err)) break;
+        const attempts = entry.attempts + 1;
+        if (attempts >= MAX_REPLAY_ATTEMPTS) {
+          console.error('Dropping queued mutation after repeated failures:', entry.kind, err);
+          result.dropped += 1;
+          continue;
+        }
+        queue[index] = { ...entry, attempts };
+        break;
+      }
+    }
+
+    const remaining = queue.slice(index);
+    result.remaining = remaining.length;
+    await writeQueue(remaining);
+    return result;
+  });
@@ -0,0 +1,226 @@
+import { supabase } from '../lib/supabaseClient';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as ImagePicker from 'expo-image-picker';
+import { Buffer } from 'buffer';
+import { PhotoCheckin } from '../types/domain';
+import { formatLocalDateYMD } from '../utils/date';
+
+const PHOTO_BUCKET = process.env.EXPO_PUBLIC_PHOTO_BUCKET || 'progress-photos';
+const PHOTO_TABLE = 'fitarc_photo_checkins';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export type PhotoPose = 'front' | 'side';
+export type PhotoSource = 'camera' | 'library';
+
+type PhotoCheckinRow = {
+  id: string;
+  user_id: string;
+  plan_id: string;
+  checkin_date: string;
+  front_path: string;
+  side_path: string | null;
+  note: string | null;
+  created_at: string;
+};
+
+export type CreatePhotoCheckinInput = {
+  userId: string;
+  planId: string;
+  frontUri: string;
+  sideUri?: string | null;
+  note?: string | null;
+  date?: string;
+};
+
+const isMissingPhotoTableError = (error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  return code === '42P01' || code === 'PGRST205';
+};
+
+const mapPhotoCheckinRow = (
+  row: PhotoCheckinRow,
+  signedUrls: Map<string, string>
+): PhotoCheckin => ({
+  id: row.id,
+  date: row.checkin_date,
+  phasePlanId: row.plan_id,
+  frontUri: signedUrls.get(row.front_path) ?? '',
+  frontPath: row.front_path,
+  sideUri: row.side_path ? signedUrls.get(row.side_path) : undefined,
+  sidePath: row.side_path ?? undefined,
+  note: row.note ?? undefined,
+  createdAt: row.created_at,
+});
+
+const createSignedPhotoUrls = async (paths: string[]): Promise<Map<string, string>> => {
+  const urls = new Map<string, string>();
+  if (!paths.length) return urls;
+  const { data, error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+  if (error) {
+    console.warn('Failed to create signed photo URLs', error);
+    return urls;
+  }
+  (data ?? []).forEach((entry) => {
+    if (entry.path && entry.signedUrl) urls.set(entry.path, entry.signedUrl);
+  });
+  return urls;
+};
+
+/** Resolves to the picked image URI, or null when the user cancels. */
+export const pickPhotoCheckinImage = async (source: PhotoSource): Promise<string | null> => {
+  const permission =
+    source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (permission.status !== 'granted') {
+    throw new Error(
+      source === 'camera'
+        ? 'Allow camera access to take check-in photos.'
+        : 'Allow access to photos to upload check-in photos.'
+    );
+  }
+  const mediaTypes = (ImagePicker as any).MediaType?.Images ?? ImagePicker.MediaTypeOptions.Images;
+  const options = { mediaTypes, allowsEditing: true, quality: 0.8, aspect: [3, 4] as [number, number] };
+  const result =
+    source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+  if (result.canceled) return null;
+  return result.assets?.[0]?.uri ?? null;
+};
+
+const uploadPhoto = async (
+  userId: string,
+  planId: string,
+  date: string,
+  pose: PhotoPose,
+  uri: string
+): Promise<string> => {
+  const fileExt = (uri.split('.').pop() || 'jpg').toLowerCase();
+  const filePath = `${userId}/${planId}/${date}-${pose}-${Date.now()}.${fileExt}`;
+
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists || !info.size) {
+    throw new Error('Photo file is empty or missing.');
+  }
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  const bytes = Buffer.from(base64, 'base64');
+  const contentType = fileExt === 'jpg' ? 'image/jpeg' : `image/${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(filePath, bytes, { contentType, upsert: false });
+  if (error) {
+    throw error;
+  }
+  return filePath;
+};
+
+export const createPhotoCheckin = async (
+  input: CreatePhotoCheckinInput
+): Promise<PhotoCheckin> => {
+  const date = input.date ?? formatLocalDateYMD(new Date());
+  const frontPath = await uploadPhoto(input.userId, input.planId, date, 'front', input.frontUri);
+  const sidePath = input.sideUri
+    ? await uploadPhoto(input.userId, input.planId, date, 'side', input.sideUri)
+    : null;
+
+  const { data, error } = await supabase
+    .from(PHOTO_TABLE)
+    .insert({
+      user_id: input.userId,
+      plan_id: input.planId,
+      checkin_date: date,
+      front_path: frontPath,
+      side_path: sidePath,
+      note: input.note ?? null,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Don't leave orphaned files behind when the row can't be written
+    await supabase.storage
+      .from(PHOTO_BUCKET)
+      .remove([frontPath, sidePath].filter((path): path is string => Boolean(path)));
+    throw error;
+  }
+
+  const signedUrls = await createSignedPhotoUrls(
+    [frontPath, sidePath].filter((path): path is string => Boolean(path))
+  );
+  return mapPhotoCheckinRow(data as PhotoCheckinRow, signedUrls);
+};
+
+/** Check-ins for a phase, oldest first, with short-lived signed image URLs. */
+export const fetchPhotoCheckins = async (
+  userId: string,
+  planId: string
+): Promise<PhotoCheckin[]> => {
+  const { data, error } = await supabase
+    .from(PHOTO_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .eq('plan_id', planId)
+    .order('checkin_date', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    if (isMissingPhotoTableError(error)) return [];
+    throw error;
+  }
+
+  const rows = (data ?? []) as PhotoCheckinRow[];
+  const paths = rows.flatMap((row) => (row.side_path ? [row.front_path, row.side_path] : [row.front_path]));
+  const signedUrls = await createSignedPhotoUrls(paths);
+  return rows.map((row) => mapPhotoCheckinRow(row, signedUrls));
+};
+
+export const fetchLatestPhotoCheckin = async (
+  userId: string,
+  planId: string
+): Promise<PhotoCheckin | null> => {
+  const { data, error } = await supabase
+    .from(PHOTO_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .eq('plan_id', planId)
+    .order('checkin_date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingPhotoTableError(error)) return null;
+    throw error;
+  }
+  if (!data) return null;
+
+  const row = data as PhotoCheckinRow;
+  const signedUrls = await createSignedPhotoUrls(
+    row.side_path ? [row.front_path, row.side_path] : [row.front_path]
+  );
+  return mapPhotoCheckinRow(row, signedUrls);
+};
+
+export const deletePhotoCheckin = async (userId: string, checkin: PhotoCheckin): Promise<void> => {
+  const { error } = await supabase
+    .from(PHOTO_TABLE)
+    .delete()
+    .eq('id', checkin.id)
+    .eq('user_id', userId);
+  if (error) {
+    throw error;
+  }
+  const paths = [checkin.frontPath, checkin.sidePath].filter((path): path is string => Boolean(path));
+  if (paths.length) {
+    const { error: removeError } = await supabase.storage.from(PHOTO_BUCKET).remove(paths);
+    if (removeError) {
+      console.warn('Failed to remove check-in photos from storage', removeError);
+    }
+  }
+};
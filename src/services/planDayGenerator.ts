@@ -0,0 +1,232 @@
+import { supabase } from '../lib/supabaseClient';
+import { REST_SPLIT_TAG, TRAINING_WEEKDAYS, resolveTrainingDayIndex } from './planningRules';
+
+export type GeneratePlanDaysInput = {
+  planId: string;
+  userId: string;
+  startDate: string;
+  endDate: string;
+  goalTag: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  equipmentLevel: 'bodyweight' | 'dumbbells' | 'full_gym';
+  splitPattern: string[];
+  daysPerWeek: 3 | 4 | 5 | 6;
+};
+
+export type PlanDayTemplateCandidate = {
+  id: string;
+  difficulty: string | null;
+  equipmentLevel: string | null;
+  goalTags: string[];
+};
+
+export type PlanDayAssignmentRow = {
+  user_id: string;
+  plan_id: string;
+  day_date: string;
+  template_id: string | null;
+  split_tag: string | null;
+  is_rest_day: boolean;
+  source_type: 'generated';
+};
+
+/** Storage seam for the generator; the default talks to Supabase. */
+export type PlanDayStore = {
+  fetchTemplates: (userId: string) => Promise<PlanDayTemplateCandidate[]>;
+  /**
+   * Template already chosen per split tag, such as the plan's stored template
+   * map; tags left out are matched by scoring the candidates.
+   */
+  fetchTemplateChoices?: (input: GeneratePlanDaysInput) => Promise<Map<string, string>>;
+  upsertPlanDays: (rows: PlanDayAssignmentRow[]) => Promise<void>;
+};
+
+const EQUIPMENT_RANK = {
+  bodyweight: 0,
+  dumbbells: 1,
+  full_gym: 2,
+} as const;
+
+const DIFFICULTY_RANK: Record<GeneratePlanDaysInput['difficulty'], number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+};
+
+const normalizeKey = (value?: string | null): string =>
+  (value ?? '').trim().toLowerCase().replace(/\s+/g, '_');
+
+const normalizeEquipmentLevel = (value?: string | null): keyof typeof EQUIPMENT_RANK | null => {
+  const key = normalizeKey(value);
+  if (key === 'full_gym' || key === 'gym') return 'full_gym';
+  if (key === 'dumbbells' || key === 'dumbbell') return 'dumbbells';
+  if (key === 'bodyweight' || key === 'body_weight') return 'bodyweight';
+  return null;
+};
+
+const parseYmd = (value: string): Date => {
+  const [year, month, day] = value.split('-').map((part) => parseInt(part, 10) || 0);
+  return new Date(year, Math.max(0, month - 1), day || 1);
+};
+
+const formatYmd = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * A pattern of whole weeks containing rest days is already laid out day by
+ * day, Sunday first from the week the plan starts in, and repeats once used up.
+ */
+const isWeekdayAlignedPattern = (pattern: string[]): boolean =>
+  pattern.length % 7 === 0 && pattern.includes(REST_SPLIT_TAG);
+
+const scoreTemplate = (template: PlanDayTemplateCandidate, input: GeneratePlanDaysInput): number => {
+  let score = 0;
+  if (template.goalTags.includes(normalizeKey(input.goalTag))) score += 4;
+
+  const level = normalizeEquipmentLevel(template.equipmentLevel);
+  if (!level || EQUIPMENT_RANK[level] <= EQUIPMENT_RANK[input.equipmentLevel]) {
+    score += 2;
+  } else {
+    score -= 3;
+  }
+
+  const difficulty = normalizeKey(template.difficulty) as GeneratePlanDaysInput['difficulty'];
+  if (difficulty in DIFFICULTY_RANK) {
+    const gap = Math.abs(DIFFICULTY_RANK[difficulty] - DIFFICULTY_RANK[input.difficulty]);
+    score += gap === 0 ? 2 : gap === 1 ? 1 : -2;
+  }
+  return score;
+};
+
+/**
+ * Best template per split tag. Ties break on template id so the same inputs
+ * always produce the same plan.
+ */
+const pickTemplatesForTags = (
+  tags: string[],
+  templates: PlanDayTemplateCandidate[],
+  input: GeneratePlanDaysInput
+): Map<string, string> => {
+  const ranked = [...templates].sort(
+    (a, b) => scoreTemplate(b, input) - scoreTemplate(a, input) || a.id.localeCompare(b.id)
+  );
+  const picks = new Map<string, string>();
+  tags.forEach((tag) => {
+    if (picks.has(tag)) return;
+    const chosen = ranked.find((template) => template.goalTags.includes(tag)) ?? ranked[0];
+    if (chosen) picks.set(tag, chosen.id);
+  });
+  return picks;
+};
+
+/**
+ * Deterministic local equivalent of the `fitarc_generate_plan_days` RPC: one
+ * row per date in range, training days cycling through the split pattern.
+ */
+export const buildPlanDayAssignments = (
+  input: GeneratePlanDaysInput,
+  templates: PlanDayTemplateCandidate[],
+  choices: Map<string, string> = new Map()
+): PlanDayAssignmentRow[] => {
+  const pattern = input.splitPattern.map(normalizeKey).filter(Boolean);
+  if (!pattern.length) pattern.push('full_body');
+  const weekdayAligned = isWeekdayAlignedPattern(pattern);
+  const trainingWeekdays = TRAINING_WEEKDAYS[input.daysPerWeek];
+  const templateByTag = pickTemplatesForTags(
+    pattern.filter((tag) => tag !== REST_SPLIT_TAG),
+    templates,
+    input
+  );
+
+  const rows: PlanDayAssignmentRow[] = [];
+  const end = parseYmd(input.endDate);
+  const cursor = parseYmd(input.startDate);
+  let dayOffset = cursor.getDay();
+  while (cursor.getTime() <= end.getTime()) {
+    const date = formatYmd(cursor);
+    let tag: string | null = null;
+    if (weekdayAligned) {
+      const entry = pattern[dayOffset % pattern.length];
+      tag = entry === REST_SPLIT_TAG ? null : entry;
+    } else if (trainingWeekdays.includes(cursor.getDay())) {
+      const scheduledIndex = resolveTrainingDayIndex(input.startDate, date, trainingWeekdays) ?? 0;
+      tag = pattern[scheduledIndex % pattern.length];
+    }
+
+    const templateId = tag ? choices.get(tag) ?? templateByTag.get(tag) ?? null : null;
+    rows.push({
+      user_id: input.userId,
+      plan_id: input.planId,
+      day_date: date,
+      template_id: templateId,
+      split_tag: tag,
+      is_rest_day: !templateId,
+      source_type: 'generated',
+    });
+    cursor.setDate(cursor.getDate() + 1);
+    dayOffset += 1;
+  }
+  return rows;
+};
+
+export const supabasePlanDayStore: PlanDayStore = {
+  fetchTemplates: async (userId) => {
+    const { data, error } = await supabase
+      .from('fitarc_workout_templates')
+      .select('id, difficulty, equipment_level, goal_tags')
+      .eq('is_deprecated', false)
+      .or(`is_public.eq.true,created_by.eq.${userId}`);
+    if (error) throw error;
+    return (
+      (data ?? []) as Array<{
+        id: string;
+        difficulty: string | null;
+        equipment_level: string | null;
+        goal_tags: string[] | null;
+      }>
+    ).map((row) => ({
+      id: row.id,
+      difficulty: row.difficulty,
+      equipmentLevel: row.equipment_level,
+      goalTags: (row.goal_tags ?? []).map(normalizeKey),
+    }));
+  },
+  upsertPlanDays: async (rows) => {
+    const { error } = await supabase
+      .from('fitarc_plan_days')
+      .upsert(rows, { onConflict: 'user_id,plan_id,day_date' });
+    if (error) throw error;
+  },
+};
+
+/**
+ * Builds and stores plan days without the SQL function. Returns the number of
+ * training days written, or null when the plan days table is not available.
+ */
+export const generatePlanDaysLocally = async (
+  input: GeneratePlanDaysInput,
+  store: PlanDayStore = supabasePlanDayStore
+): Promise<number | null> => {
+  const templates = await store.fetchTemplates(input.userId);
+  if (!templates.length) return 0;
+
+  const choices = store.fetchTemplateChoices
+    ? await store.fetchTemplateChoices(input)
+    : new Map<string, string>();
+  const rows = buildPlanDayAssignments(input, templates, choices);
+  if (!rows.length) return 0;
+  try {
+    await store.upsertPlanDays(rows);
+  } catch (error) {
+    const code = (error as { code?: string } | null)?.code;
+    if (code === '42P01' || code === '42703') {
+      return null;
+    }
+    throw error;
+  }
+  return rows.filter((row) => !row.is_rest_day).length;
+};
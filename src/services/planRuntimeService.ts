@@ -1,6 +1,42 @@
 import { supabase } from '../lib/supabaseClient';
-import { MuscleGroup, PlanDay, PlanWorkout, PlanWorkoutExercise, User } from '../types/domain';
+import {
+  ExerciseGroup,
+  MuscleGroup,
+  PlanDay,
+  PlanWorkout,
+  PlanWorkoutExercise,
+  ExerciseLoadMode,
+  ExerciseMeasurementType,
+  RepPrescription,
+  User,
+} from '../types/domain';
+import {
+  ExerciseGroupColumns,
+  GROUP_COLUMN_NAMES,
+  parseExerciseGroupColumns,
+  toExerciseGroupColumns,
+} from '../utils/exerciseGroups';
+import {
+  areRepPrescriptionsCompatible,
+  parseRepPrescription,
+  parseStoredRepPrescription,
+  resolveRepPrescription,
+} from '../utils/repPrescription';
+import { parseMeasurementType } from '../utils/exerciseMeasurement';
+import { parseLoadMode } from '../utils/exerciseLoad';
 import { fetchUserProfile } from './userProfileService';
+import { InjuryArea, assessInjuryRisk, normalizeInjuryAreas } from './injuryRules';
+import {
+  GeneratePlanDaysInput,
+  generatePlanDaysLocally,
+  supabasePlanDayStore,
+} from './planDayGenerator';
+import {
+  REST_SPLIT_TAG,
+  resolveTrainingDayIndex,
+  resolveWeekdaysForProfile,
+  shouldTrainOnDate,
+} from './planningRules';
 
 export type PlanExerciseInput = {
   exerciseId: string;
@@ -12,6 +48,10 @@ export type PlanExerciseInput = {
   displayOrder?: number | null;
   notes?: string | null;
   sourceTemplateExerciseId?: string | null;
+  group?: ExerciseGroup | null;
+  repTarget?: RepPrescription | null;
+  measurementType?: ExerciseMeasurementType | null;
+  loadMode?: ExerciseLoadMode | null;
 };
 
 type PlanContext = {
@@ -23,6 +63,12 @@ type PlanContext = {
 
 type PlanTemplateMap = Record<string, string>;
 
+/** One rotation slot of the user's split; `key` indexes the stored template map. */
+type SplitSlot = {
+  key: string;
+  tags: string[];
+};
+
 type TemplateExerciseRow = {
   id: string;
   exercise_id: string;
@@ -71,7 +117,10 @@ type OverrideRow = {
   notes: string | null;
   is_active: boolean;
   created_at: string;
-};
+  rep_target?: unknown;
+  measurement_type?: string | null;
+  load_mode?: string | null;
+} & Partial<ExerciseGroupColumns>;
 
 type PersistedPlanDayRow = {
   id: string;
@@ -136,28 +185,23 @@ const mapSplitToTags = (split: User['trainingSplit']): string[] => {
   }
 };
 
-const inferDaysPerWeek = (split: User['trainingSplit']): 3 | 4 | 5 | 6 => {
-  if (split === 'full_body') return 3;
-  if (split === 'upper_lower') return 4;
-  if (split === 'push_pull_legs') return 6;
-  return 6;
-};
-
-const resolveDaysPerWeek = (profile: Pick<User, 'trainingSplit' | 'planPreferences'> | null): 3 | 4 | 5 | 6 => {
-  const preferred = profile?.planPreferences?.daysPerWeek;
-  if (preferred === 3 || preferred === 4 || preferred === 5 || preferred === 6) {
-    return preferred;
+const resolveSplitSlots = (
+  profile: Pick<User, 'trainingSplit' | 'planPreferences'> | null
+): SplitSlot[] => {
+  const split = profile?.trainingSplit ?? 'full_body';
+  const customDays = profile?.planPreferences?.customSplit ?? [];
+  if (split === 'custom' && customDays.length) {
+    return customDays.map((day) => {
+      const templateTags = day.templateTags.map(normalizeKey).filter(Boolean);
+      return {
+        key: `custom:${day.id}`,
+        tags: templateTags.length ? templateTags : [...day.bodyParts],
+      };
+    });
   }
-  return inferDaysPerWeek(profile?.trainingSplit ?? 'full_body');
+  return mapSplitToTags(split).map((tag) => ({ key: tag, tags: [tag] }));
 };
 
-const shouldTrainOnDate = (date: Date, daysPerWeek: 3 | 4 | 5 | 6): boolean => {
-  const day = date.getDay();
-  if (daysPerWeek === 6) return day !== 0;
-  if (daysPerWeek === 5) return day >= 1 && day <= 5;
-  if (daysPerWeek === 4) return day === 1 || day === 2 || day === 4 || day === 6;
-  return day === 1 || day === 3 || day === 5;
-};
 
 const parseYmd = (value: string): Date => {
   const [year, month, day] = value.split('-').map((part) => parseInt(part, 10) || 0);
@@ -183,26 +227,6 @@ const buildDateRange = (startDate: string, endDate: string): string[] => {
   return out;
 };
 
-const resolveScheduledIndex = (
-  phaseStartDate: string,
-  targetDate: string,
-  daysPerWeek: 3 | 4 | 5 | 6
-): number | null => {
-  const start = parseYmd(phaseStartDate);
-  const target = parseYmd(targetDate);
-  if (target.getTime() < start.getTime()) return null;
-
-  const cursor = new Date(start);
-  let scheduledIndex = -1;
-  while (cursor.getTime() <= target.getTime()) {
-    if (shouldTrainOnDate(cursor, daysPerWeek)) {
-      scheduledIndex += 1;
-    }
-    cursor.setDate(cursor.getDate() + 1);
-  }
-  return scheduledIndex >= 0 ? scheduledIndex : null;
-};
-
 const extractTemplateExerciseId = (exerciseId?: string | null): string | null => {
   if (!exerciseId || !exerciseId.startsWith('tpl:')) return null;
   const parts = exerciseId.split(':');
@@ -292,16 +316,7 @@ const fetchTemplatesForUser = async (userId: string): Promise<TemplateRow[]> =>
   }));
 };
 
-const fetchOverridesForRange = async (
-  userId: string,
-  planId: string,
-  startDate: string,
-  endDate: string
-): Promise<Map<string, OverrideRow[]>> => {
-  const { data, error } = await supabase
-    .from('fitarc_plan_overrides')
-    .select(
-      `
+const OVERRIDE_SELECT = `
       id,
       user_id,
       plan_id,
@@ -318,21 +333,44 @@ const fetchOverridesForRange = async (
       notes,
       is_active,
       created_at
-    `
-    )
-    .eq('user_id', userId)
-    .eq('plan_id', planId)
-    .eq('is_active', true)
-    .gte('day_date', startDate)
-    .lte('day_date', endDate)
-    .order('display_order', { ascending: true })
-    .order('created_at', { ascending: true });
+    `;
+
+/** Group, rep target, measurement and load columns arrived after the overrides table; older schemas lack them. */
+const OPTIONAL_OVERRIDE_SELECT = `${GROUP_COLUMN_NAMES}, rep_target, measurement_type, load_mode`;
+
+const isMissingOptionalColumnError = (error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  return code === '42703' || code === 'PGRST204';
+};
+
+const fetchOverridesForRange = async (
+  userId: string,
+  planId: string,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, OverrideRow[]>> => {
+  const queryOverrides = (columns: string) =>
+    supabase
+      .from('fitarc_plan_overrides')
+      .select(columns)
+      .eq('user_id', userId)
+      .eq('plan_id', planId)
+      .eq('is_active', true)
+      .gte('day_date', startDate)
+      .lte('day_date', endDate)
+      .order('display_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+  let { data, error } = await queryOverrides(`${OVERRIDE_SELECT}, ${OPTIONAL_OVERRIDE_SELECT}`);
+  if (error && isMissingOptionalColumnError(error)) {
+    ({ data, error } = await queryOverrides(OVERRIDE_SELECT));
+  }
   if (error) throw error;
 
   const byDay = new Map<string, OverrideRow[]>();
-  (data ?? []).forEach((row) => {
+  ((data ?? []) as unknown as OverrideRow[]).forEach((row) => {
     const list = byDay.get(row.day_date) ?? [];
-    list.push(row as OverrideRow);
+    list.push(row);
     byDay.set(row.day_date, list);
   });
   return byDay;
@@ -397,15 +435,66 @@ const fetchPersistedPlanDaysForRange = async (
   return byDate;
 };
 
-const chooseTemplatesForTag = (
-  tag: string,
+const countTemplateInjuryRisks = (
+  template: TemplateRow,
+  injuries: InjuryArea[]
+): { avoid: number; caution: number } => {
+  const counts = { avoid: 0, caution: 0 };
+  if (!injuries.length) return counts;
+  (template.exercises ?? []).forEach((exercise) => {
+    const { risk } = assessInjuryRisk(
+      {
+        name: exercise.exercise_name,
+        movementPattern: exercise.movement_pattern,
+        bodyParts: exercise.body_parts,
+      },
+      injuries
+    );
+    if (risk === 'avoid') counts.avoid += 1;
+    if (risk === 'caution') counts.caution += 1;
+  });
+  return counts;
+};
+
+/**
+ * Drops templates containing contraindicated exercises when any clean ones
+ * remain, then orders the rest by how many exercises need caution.
+ */
+const screenTemplatesForInjuries = (
+  templates: TemplateRow[],
+  injuries: InjuryArea[]
+): TemplateRow[] => {
+  if (!injuries.length) return templates;
+  const screened = templates.map((template) => ({
+    template,
+    risks: countTemplateInjuryRisks(template, injuries),
+  }));
+  const clean = screened.filter((entry) => entry.risks.avoid === 0);
+  const pool = clean.length ? clean : screened;
+  return pool
+    .map((entry, index) => ({ ...entry, index }))
+    .sort(
+      (a, b) =>
+        a.risks.avoid - b.risks.avoid || a.risks.caution - b.risks.caution || a.index - b.index
+    )
+    .map((entry) => entry.template);
+};
+
+const chooseTemplatesForTags = (
+  tags: string[],
   templates: TemplateRow[],
   goalType: string | null | undefined,
   equipmentLevel: 'bodyweight' | 'dumbbells' | 'full_gym' | null,
-  experienceLevel?: User['experienceLevel']
+  experienceLevel?: User['experienceLevel'],
+  injuries: InjuryArea[] = []
 ): TemplateRow[] => {
-  const tagPool = templates.filter((template) => (template.goal_tags ?? []).includes(tag));
-  const basePool = tagPool.length ? tagPool : templates;
+  // Prefer templates covering the most of the slot's tags
+  const tagMatches = templates.map(
+    (template) => tags.filter((tag) => (template.goal_tags ?? []).includes(tag)).length
+  );
+  const bestMatch = Math.max(0, ...tagMatches);
+  const tagPool = bestMatch > 0 ? templates.filter((_, index) => tagMatches[index] === bestMatch) : [];
+  const basePool = screenTemplatesForInjuries(tagPool.length ? tagPool : templates, injuries);
   const goalAliases = GOAL_ALIAS_MAP[normalizeKey(goalType)] ?? GOAL_ALIAS_MAP.general;
 
   const matchesGoal = (template: TemplateRow) =>
@@ -444,52 +533,54 @@ const chooseTemplatesForTag = (
 const resolveTemplateForDate = (
   context: PlanContext,
   date: string,
-  split: User['trainingSplit'],
-  daysPerWeek: 3 | 4 | 5 | 6,
+  slots: SplitSlot[],
+  weekdays: number[],
   templates: TemplateRow[],
   storedTemplateMap: PlanTemplateMap | null,
   equipmentLevel: 'bodyweight' | 'dumbbells' | 'full_gym' | null,
-  experienceLevel?: User['experienceLevel']
+  experienceLevel?: User['experienceLevel'],
+  injuries: InjuryArea[] = []
 ): TemplateRow | null => {
-  const scheduledIndex = resolveScheduledIndex(context.startDate, date, daysPerWeek);
-  if (scheduledIndex === null) return null;
-  const tags = mapSplitToTags(split);
-  const workoutTag = tags[scheduledIndex % tags.length];
-  const mappedTemplateId = storedTemplateMap?.[workoutTag];
+  const scheduledIndex = resolveTrainingDayIndex(context.startDate, date, weekdays);
+  if (scheduledIndex === null || !slots.length) return null;
+  const slot = slots[scheduledIndex % slots.length];
+  const mappedTemplateId = storedTemplateMap?.[slot.key];
   if (mappedTemplateId) {
     const mapped = templates.find((template) => template.id === mappedTemplateId);
     if (mapped) return mapped;
   }
-  const candidates = chooseTemplatesForTag(
-    workoutTag,
+  const candidates = chooseTemplatesForTags(
+    slot.tags,
     templates,
     context.goalType,
     equipmentLevel,
-    experienceLevel
+    experienceLevel,
+    injuries
   );
   return candidates.length ? candidates[scheduledIndex % candidates.length] : null;
 };
 
 const buildTemplateMapForPlan = (
   context: PlanContext,
-  split: User['trainingSplit'],
+  slots: SplitSlot[],
   templates: TemplateRow[],
   equipmentLevel: 'bodyweight' | 'dumbbells' | 'full_gym' | null,
-  experienceLevel?: User['experienceLevel']
+  experienceLevel?: User['experienceLevel'],
+  injuries: InjuryArea[] = []
 ): PlanTemplateMap | null => {
-  const tags = mapSplitToTags(split);
   const entries: Array<[string, string]> = [];
-  tags.forEach((tag) => {
-    const candidates = chooseTemplatesForTag(
-      tag,
+  slots.forEach((slot) => {
+    const candidates = chooseTemplatesForTags(
+      slot.tags,
       templates,
       context.goalType,
       equipmentLevel,
-      experienceLevel
+      experienceLevel,
+      injuries
     );
     const chosen = candidates[0];
     if (chosen?.id) {
-      entries.push([tag, chosen.id]);
+      entries.push([slot.key, chosen.id]);
     }
   });
   if (!entries.length) return null;
@@ -513,8 +604,12 @@ const buildBaseExercises = (
     reps: exercise.reps ?? '8-12',
     displayOrder: exercise.display_order ?? index + 1,
     notes: exercise.notes ?? undefined,
+    repTarget: parseRepPrescription(exercise.reps ?? '8-12'),
   }));
 
+const resolveOverrideRepTarget = (override: OverrideRow): RepPrescription | null =>
+  parseStoredRepPrescription(override.rep_target) ?? parseRepPrescription(override.reps);
+
 const applyOverrides = (
   base: PlanWorkoutExercise[],
   overrides: OverrideRow[],
@@ -561,6 +656,10 @@ const applyOverrides = (
       reps: override.reps ?? exercise.reps,
       displayOrder: override.display_order ?? exercise.displayOrder,
       notes: override.notes ?? exercise.notes,
+      group: parseExerciseGroupColumns(override),
+      repTarget: resolveOverrideRepTarget(override) ?? exercise.repTarget,
+      measurementType: parseMeasurementType(override.measurement_type) ?? exercise.measurementType,
+      loadMode: parseLoadMode(override.load_mode) ?? exercise.loadMode,
     });
   });
 
@@ -575,6 +674,10 @@ const applyOverrides = (
     reps: override.reps ?? '8-12',
     displayOrder: override.display_order ?? undefined,
     notes: override.notes ?? undefined,
+    group: parseExerciseGroupColumns(override),
+    repTarget: resolveOverrideRepTarget(override) ?? parseRepPrescription('8-12'),
+    measurementType: parseMeasurementType(override.measurement_type),
+    loadMode: parseLoadMode(override.load_mode),
   }));
 
   return [...resolvedBase, ...resolvedAdds].sort(
@@ -691,22 +794,24 @@ const buildTemplateBaselineForDate = async (
     return baseline;
   }
 
-  const split = profile?.trainingSplit ?? 'full_body';
-  const daysPerWeek = resolveDaysPerWeek(profile);
-  if (!shouldTrainOnDate(parseYmd(date), daysPerWeek)) {
+  const slots = resolveSplitSlots(profile);
+  const weekdays = resolveWeekdaysForProfile(profile);
+  if (!shouldTrainOnDate(parseYmd(date), weekdays)) {
     return new Map();
   }
   const storedTemplateMap = await fetchStoredPlanTemplateMap(context.planId);
   const equipmentLevel = normalizeEquipmentLevel(profile?.planPreferences?.equipmentLevel);
+  const injuries = normalizeInjuryAreas(profile?.planPreferences?.injuries);
   const template = resolveTemplateForDate(
     context,
     date,
-    split,
-    daysPerWeek,
+    slots,
+    weekdays,
     templates,
     storedTemplateMap,
     equipmentLevel,
-    profile?.experienceLevel
+    profile?.experienceLevel,
+    injuries
   );
   if (!template) {
     return new Map();
@@ -743,6 +848,9 @@ const isSameAsBaseline = (
   baseline: TemplateBaselineExercise
 ): boolean => {
   return (
+    !input.group &&
+    !input.measurementType &&
+    !input.loadMode &&
     (input.exerciseId ?? null) === baseline.exerciseId &&
     normalizeNullableText(input.name) === normalizeNullableText(baseline.name) &&
     normalizeNullableText(input.movementPattern ?? null) === baseline.movementPattern &&
@@ -778,14 +886,15 @@ export const fetchPlanRange = async (
   if (!context || context.userId !== userId) return [];
 
   const profile = await fetchUserProfile(userId);
-  const split = profile?.trainingSplit ?? 'full_body';
-  const daysPerWeek = resolveDaysPerWeek(profile);
+  const slots = resolveSplitSlots(profile);
+  const weekdays = resolveWeekdaysForProfile(profile);
   const templates = await fetchTemplatesForUser(userId);
   if (!templates.length) return [];
   const storedTemplateMap = await fetchStoredPlanTemplateMap(planId);
   const overridesByDay = await fetchOverridesForRange(userId, planId, startDate, endDate);
   const persistedByDay = await fetchPersistedPlanDaysForRange(userId, planId, startDate, endDate);
   const equipmentLevel = normalizeEquipmentLevel(profile?.planPreferences?.equipmentLevel);
+  const injuries = normalizeInjuryAreas(profile?.planPreferences?.injuries);
 
   const dates = buildDateRange(startDate, endDate);
   const resolved: PlanDay[] = [];
@@ -809,16 +918,17 @@ export const fetchPlanRange = async (
       }
     }
 
-    if (!shouldTrainOnDate(parseYmd(date), daysPerWeek)) return;
+    if (!shouldTrainOnDate(parseYmd(date), weekdays)) return;
     const template = resolveTemplateForDate(
       context,
       date,
-      split,
-      daysPerWeek,
+      slots,
+      weekdays,
       templates,
       storedTemplateMap,
       equipmentLevel,
-      profile?.experienceLevel
+      profile?.experienceLevel,
+      injuries
     );
     if (!template) return;
     resolved.push(resolveTemplateBackedPlanDay(context, date, template, overrides));
@@ -838,9 +948,12 @@ export const fetchRecommendedWorkoutTemplates = async (
   const templates = await fetchTemplatesForUser(userId);
   if (!templates.length) return [];
 
-  const splitTags = new Set(mapSplitToTags(profile?.trainingSplit ?? 'full_body').map(normalizeKey));
+  const splitTags = new Set(
+    resolveSplitSlots(profile).flatMap((slot) => slot.tags.map(normalizeKey))
+  );
   const goalAliases = GOAL_ALIAS_MAP[normalizeKey(context.goalType)] ?? GOAL_ALIAS_MAP.general;
   const equipmentLevel = normalizeEquipmentLevel(profile?.planPreferences?.equipmentLevel);
+  const injuries = normalizeInjuryAreas(profile?.planPreferences?.injuries);
   const experienceLevel = profile?.experienceLevel;
 
   const scored = templates
@@ -884,6 +997,18 @@ export const fetchRecommendedWorkoutTemplates = async (
         }
       }
 
+      if (injuries.length) {
+        const risks = countTemplateInjuryRisks(template, injuries);
+        if (risks.avoid > 0) {
+          score -= 3 * risks.avoid;
+        } else if (risks.caution === 0) {
+          score += 2;
+          reason.unshift('safe for your injuries');
+        } else {
+          score -= 1;
+        }
+      }
+
       return {
         id: template.id,
         title: template.title,
@@ -933,21 +1058,23 @@ export const fetchResolvedPlanForDate = async (
     );
   }
 
-  const split = profile?.trainingSplit ?? 'full_body';
-  const daysPerWeek = resolveDaysPerWeek(profile);
-  if (!shouldTrainOnDate(parseYmd(date), daysPerWeek)) return null;
+  const slots = resolveSplitSlots(profile);
+  const weekdays = resolveWeekdaysForProfile(profile);
+  if (!shouldTrainOnDate(parseYmd(date), weekdays)) return null;
 
   const storedTemplateMap = await fetchStoredPlanTemplateMap(planId);
   const equipmentLevel = normalizeEquipmentLevel(profile?.planPreferences?.equipmentLevel);
+  const injuries = normalizeInjuryAreas(profile?.planPreferences?.injuries);
   const template = resolveTemplateForDate(
     context,
     date,
-    split,
-    daysPerWeek,
+    slots,
+    weekdays,
     templates,
     storedTemplateMap,
     equipmentLevel,
-    profile?.experienceLevel
+    profile?.experienceLevel,
+    injuries
   );
   if (!template) return null;
   return resolveTemplateBackedPlanDay(context, date, template, overrides);
@@ -969,6 +1096,20 @@ export const ensurePlanWorkoutForDate = async (
   };
 };
 
+const stripOptionalOverrideColumns = (row: Record<string, unknown>): Record<string, unknown> => {
+  const {
+    group_id,
+    group_type,
+    group_rounds,
+    group_rest_seconds,
+    rep_target,
+    measurement_type,
+    load_mode,
+    ...rest
+  } = row;
+  return rest;
+};
+
 export const replacePlanExercisesForDate = async (
   userId: string,
   planId: string,
@@ -1010,6 +1151,10 @@ export const replacePlanExercisesForDate = async (
         display_order: displayOrder,
         notes: exercise.notes ?? null,
         is_active: true,
+        rep_target: resolveRepPrescription(exercise),
+        measurement_type: exercise.measurementType ?? null,
+        load_mode: exercise.loadMode ?? null,
+        ...toExerciseGroupColumns(exercise.group),
       });
       return;
     }
@@ -1029,6 +1174,10 @@ export const replacePlanExercisesForDate = async (
       display_order: displayOrder,
       notes: exercise.notes ?? null,
       is_active: true,
+      rep_target: resolveRepPrescription(exercise),
+      measurement_type: exercise.measurementType ?? null,
+      load_mode: exercise.loadMode ?? null,
+      ...toExerciseGroupColumns(exercise.group),
     });
   });
 
@@ -1061,8 +1210,81 @@ export const replacePlanExercisesForDate = async (
   if (clearError) throw clearError;
 
   if (!rows.length) return;
-  const { error } = await supabase.from('fitarc_plan_overrides').insert(rows);
+  let { error } = await supabase.from('fitarc_plan_overrides').insert(rows);
+  if (error && isMissingOptionalColumnError(error)) {
+    ({ error } = await supabase
+      .from('fitarc_plan_overrides')
+      .insert(rows.map(stripOptionalOverrideColumns)));
+  }
+  if (error) throw error;
+};
+
+export type PlanDayReassignment = {
+  date: string;
+  /** Template the day now follows; null keeps only the listed exercises. */
+  templateId: string | null;
+  exercises: PlanExerciseInput[];
+};
+
+/**
+ * Pins each date to a template (or to no template) in `fitarc_plan_days`, then
+ * writes its exercises as overrides against that template. Days without a
+ * pinned template get every exercise as a plain addition.
+ */
+export const reassignPlanDays = async (
+  userId: string,
+  planId: string,
+  assignments: PlanDayReassignment[]
+): Promise<void> => {
+  if (!assignments.length) return;
+  const context = await fetchPlanContext(planId);
+  if (!context || context.userId !== userId) {
+    throw new Error('plan_not_found_or_not_owned');
+  }
+
+  let pinnedTemplates = true;
+  const { error } = await supabase.from('fitarc_plan_days').upsert(
+    assignments.map((assignment) => ({
+      user_id: userId,
+      plan_id: planId,
+      day_date: assignment.date,
+      template_id: assignment.templateId,
+      split_tag: null,
+      is_rest_day: !assignment.templateId && !assignment.exercises.length,
+      source_type: 'rescheduled',
+    })),
+    { onConflict: 'user_id,plan_id,day_date' }
+  );
+  if (error) {
+    if (!isMissingPlanDaysSchemaError(error)) throw error;
+    pinnedTemplates = false;
+  }
+
+  for (const assignment of assignments) {
+    const exercises =
+      pinnedTemplates && assignment.templateId
+        ? assignment.exercises
+        : assignment.exercises.map((exercise) => ({ ...exercise, sourceTemplateExerciseId: null }));
+    await replacePlanExercisesForDate(userId, planId, assignment.date, exercises);
+  }
+};
+
+export const fetchPlanDayLastModified = async (
+  userId: string,
+  planId: string,
+  date: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('fitarc_plan_overrides')
+    .select('created_at')
+    .eq('user_id', userId)
+    .eq('plan_id', planId)
+    .eq('day_date', date)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
   if (error) throw error;
+  return (data?.created_at as string | undefined) ?? null;
 };
 
 export type SwapPlanExerciseForDateInput = {
@@ -1115,6 +1337,10 @@ export const swapPlanExerciseForDate = async ({
     if (baseSets && nextSets && (nextSets < Math.max(1, Math.floor(baseSets * 0.5)) || nextSets > Math.ceil(baseSets * 1.5))) {
       throw new Error('swap_guardrail_failed_volume_range');
     }
+
+    if (!areRepPrescriptionsCompatible(resolveRepPrescription(target), resolveRepPrescription(replacement))) {
+      throw new Error('swap_guardrail_failed_rep_scheme');
+    }
   }
 
   const next: PlanExerciseInput[] = current.map((exercise, index) =>
@@ -1218,8 +1444,11 @@ export const deletePlanExercise = async (planExerciseId: string) => {
   if (error) throw error;
 };
 
+/** A plan exercise, or a session entry shaped like one once it has an exerciseId. */
+type PlanExerciseSource = Omit<PlanWorkoutExercise, 'id' | 'planWorkoutId'> & { id?: string };
+
 export const toPlanExerciseInputs = (
-  exercises: PlanWorkoutExercise[]
+  exercises: PlanExerciseSource[]
 ): PlanExerciseInput[] =>
   exercises.map((exercise) => ({
     exerciseId: exercise.exerciseId,
@@ -1231,8 +1460,58 @@ export const toPlanExerciseInputs = (
     displayOrder: exercise.displayOrder ?? null,
     notes: exercise.notes ?? null,
     sourceTemplateExerciseId: extractTemplateExerciseId(exercise.id),
+    group: exercise.group ?? null,
+    repTarget: exercise.repTarget ?? null,
+    measurementType: exercise.measurementType ?? null,
+    loadMode: exercise.loadMode ?? null,
   }));
 
+const toPlanDayReassignment = (date: string, day: PlanDay | null): PlanDayReassignment => ({
+  date,
+  templateId: day?.workout?.sourceTemplateId ?? null,
+  exercises: toPlanExerciseInputs(day?.workout?.exercises ?? []),
+});
+
+const fetchWorkoutToRelocate = async (
+  userId: string,
+  planId: string,
+  fromDate: string
+): Promise<PlanDay> => {
+  const source = await fetchResolvedPlanForDate(userId, planId, fromDate);
+  if (!source?.workout?.exercises.length) {
+    throw new Error('plan_day_has_no_workout');
+  }
+  return source;
+};
+
+/** Moves a day's workout, overrides included; whatever was planned on `toDate` swaps into `fromDate`. */
+export const movePlanDay = async (
+  userId: string,
+  planId: string,
+  fromDate: string,
+  toDate: string
+): Promise<void> => {
+  if (fromDate === toDate) return;
+  const source = await fetchWorkoutToRelocate(userId, planId, fromDate);
+  const target = await fetchResolvedPlanForDate(userId, planId, toDate);
+  await reassignPlanDays(userId, planId, [
+    toPlanDayReassignment(toDate, source),
+    toPlanDayReassignment(fromDate, target),
+  ]);
+};
+
+/** Copies a day's workout onto `toDate`, replacing what was planned there. */
+export const copyPlanDay = async (
+  userId: string,
+  planId: string,
+  fromDate: string,
+  toDate: string
+): Promise<void> => {
+  if (fromDate === toDate) return;
+  const source = await fetchWorkoutToRelocate(userId, planId, fromDate);
+  await reassignPlanDays(userId, planId, [toPlanDayReassignment(toDate, source)]);
+};
+
 export const linkPlanToMatchedTemplates = async (
   userId: string,
   planId: string
@@ -1241,16 +1520,18 @@ export const linkPlanToMatchedTemplates = async (
   if (!context || context.userId !== userId) return null;
 
   const profile = await fetchUserProfile(userId);
-  const split = profile?.trainingSplit ?? 'full_body';
+  const slots = resolveSplitSlots(profile);
   const templates = await fetchTemplatesForUser(userId);
   if (!templates.length) return null;
   const equipmentLevel = normalizeEquipmentLevel(profile?.planPreferences?.equipmentLevel);
+  const injuries = normalizeInjuryAreas(profile?.planPreferences?.injuries);
   const templateMap = buildTemplateMapForPlan(
     context,
-    split,
+    slots,
     templates,
     equipmentLevel,
-    profile?.experienceLevel
+    profile?.experienceLevel,
+    injuries
   );
   if (!templateMap) return null;
 
@@ -1264,16 +1545,42 @@ export const linkPlanToMatchedTemplates = async (
   return templateMap;
 };
 
-export type GeneratePlanDaysInput = {
-  planId: string;
-  userId: string;
-  startDate: string;
-  endDate: string;
-  goalTag: string;
-  difficulty: 'beginner' | 'intermediate' | 'advanced';
-  equipmentLevel: 'bodyweight' | 'dumbbells' | 'full_gym';
-  splitPattern: string[];
-  daysPerWeek: 3 | 4 | 5 | 6;
+export type { GeneratePlanDaysInput } from './planDayGenerator';
+
+/**
+ * Template per split tag for plan days built without the SQL function,
+ * chosen as unpinned days are resolved: the plan's stored template map
+ * first, then tag, goal, equipment and injury screening.
+ */
+const choosePlanDayTemplates = async (input: GeneratePlanDaysInput): Promise<Map<string, string>> => {
+  const choices = new Map<string, string>();
+  const context = await fetchPlanContext(input.planId);
+  if (!context || context.userId !== input.userId) return choices;
+
+  const profile = await fetchUserProfile(input.userId);
+  const templates = await fetchTemplatesForUser(input.userId);
+  const storedTemplateMap = await fetchStoredPlanTemplateMap(input.planId);
+  const injuries = normalizeInjuryAreas(profile?.planPreferences?.injuries);
+  const slots = resolveSplitSlots(profile);
+
+  input.splitPattern.map(normalizeKey).forEach((tag) => {
+    if (!tag || tag === REST_SPLIT_TAG || choices.has(tag)) return;
+    // Custom days are sent by their lead tag
+    const slot = slots.find((entry) => entry.key === tag || entry.tags[0] === tag);
+    const mappedTemplateId = slot ? storedTemplateMap?.[slot.key] : undefined;
+    const chosen =
+      templates.find((template) => template.id === mappedTemplateId) ??
+      chooseTemplatesForTags(
+        slot?.tags ?? [tag],
+        templates,
+        context.goalType,
+        input.equipmentLevel,
+        input.difficulty,
+        injuries
+      )[0];
+    if (chosen) choices.set(tag, chosen.id);
+  });
+  return choices;
 };
 
 export const generatePlanDaysForPlan = async (
@@ -1304,10 +1611,13 @@ export const generatePlanDaysForPlan = async (
   });
 
   if (error) {
-    // Fail open for environments where the SQL function is not created yet.
+    // Environments without the SQL function build the same plan days locally.
     const code = (error as { code?: string } | null)?.code;
     if (code === 'PGRST202' || code === '42883') {
-      return null;
+      return generatePlanDaysLocally(input, {
+        ...supabasePlanDayStore,
+        fetchTemplateChoices: choosePlanDayTemplates,
+      });
     }
     throw error;
   }
@@ -1315,3 +1625,23 @@ export const generatePlanDaysForPlan = async (
   const numeric = Number(data ?? 0);
   return Number.isFinite(numeric) ? numeric : 0;
 };
+
+/**
+ * Drops generated plan days from `fromDate` on, so those days follow the
+ * current training weekdays through the runtime schedule. Days the user moved
+ * by hand are kept.
+ */
+export const clearGeneratedPlanDaysFrom = async (
+  userId: string,
+  planId: string,
+  fromDate: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from('fitarc_plan_days')
+    .delete()
+    .eq('user_id', userId)
+    .eq('plan_id', planId)
+    .eq('source_type', 'generated')
+    .gte('day_date', fromDate);
+  if (error && !isMissingPlanDaysSchemaError(error)) throw error;
+};
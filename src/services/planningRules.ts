@@ -1,4 +1,7 @@
-import { User } from '../types/domain';
+import { AdaptationMode, User } from '../types/domain';
+import { parseYMDToDate } from '../utils/date';
+
+export type { AdaptationMode };
 
 export type SlotPlan = {
   compound: number;
@@ -44,7 +47,6 @@ export type ScoringWeights = {
   previousDayPenalty: number;
   deterministicTiebreakScale: number;
 };
-export type AdaptationMode = 'balanced' | 'progressive' | 'recovery';
 
 export const resolveScoringWeights = (mode: AdaptationMode): ScoringWeights => {
   if (mode === 'progressive') {
@@ -67,6 +69,165 @@ export const resolveScoringWeights = (mode: AdaptationMode): ScoringWeights => {
   return SCORING_WEIGHTS;
 };
 
+export type ProgressionRules = {
+  /** Relative load increase once the top of the rep range is reached. */
+  weightIncreasePercent: number;
+  /** Smallest load step; increases round up to a multiple of this. */
+  weightIncrementKg: number;
+  repIncrement: number;
+  /** Width of the rep range restarted from after a load increase. */
+  repRangeSpan: number;
+  /** Highest average RPE at which progression is still allowed. */
+  maxProgressRpe: number;
+  /** Average RPE at or above which the next session is a deload. */
+  deloadRpe: number;
+  /** Sessions without an estimated-1RM gain before a deload is forced. */
+  stallSessions: number;
+  deloadPercent: number;
+  deloadSetReduction: number;
+};
+
+export const PROGRESSION_RULES: ProgressionRules = {
+  weightIncreasePercent: 0.025,
+  weightIncrementKg: 2.5,
+  repIncrement: 1,
+  repRangeSpan: 4,
+  maxProgressRpe: 8.5,
+  deloadRpe: 9.5,
+  stallSessions: 3,
+  deloadPercent: 0.1,
+  deloadSetReduction: 1,
+};
+
+export const resolveProgressionRules = (mode: AdaptationMode): ProgressionRules => {
+  if (mode === 'progressive') {
+    return {
+      ...PROGRESSION_RULES,
+      weightIncreasePercent: 0.05,
+      repIncrement: 2,
+      maxProgressRpe: 9,
+      deloadRpe: 10,
+      stallSessions: 4,
+    };
+  }
+  if (mode === 'recovery') {
+    return {
+      ...PROGRESSION_RULES,
+      weightIncreasePercent: 0,
+      repRangeSpan: 2,
+      maxProgressRpe: 7.5,
+      deloadRpe: 8.5,
+      stallSessions: 2,
+      deloadPercent: 0.15,
+    };
+  }
+  return PROGRESSION_RULES;
+};
+
+/** Split pattern entry marking a weekday off in weekday-aligned patterns. */
+export const REST_SPLIT_TAG = 'rest';
+
+/** Weekdays trained (0 = Sunday) for each weekly frequency. */
+export const TRAINING_WEEKDAYS: Record<3 | 4 | 5 | 6, number[]> = {
+  3: [1, 3, 5],
+  4: [1, 2, 4, 6],
+  5: [1, 2, 3, 4, 5],
+  6: [1, 2, 3, 4, 5, 6],
+};
+
+/** Distinct valid weekdays (0 = Sunday) in ascending order. */
+export const normalizeTrainingDays = (days?: number[] | null): number[] =>
+  Array.from(new Set((days ?? []).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6))).sort(
+    (a, b) => a - b
+  );
+
+/** Explicitly chosen weekdays win; otherwise the frequency's default pattern. */
+export const resolveTrainingWeekdays = (
+  daysPerWeek: 3 | 4 | 5 | 6,
+  trainingDays?: number[] | null
+): number[] => {
+  const explicit = normalizeTrainingDays(trainingDays);
+  return explicit.length ? explicit : TRAINING_WEEKDAYS[daysPerWeek];
+};
+
+/**
+ * Position of `date` in the run of training days counted from the phase
+ * start, 0 for the first. Splits rotate straight through the weeks instead
+ * of restarting each week; a rest day reports the training day before it,
+ * and null means no training day has come yet.
+ */
+export const resolveTrainingDayIndex = (
+  startDate: string,
+  date: string,
+  weekdays: number[]
+): number | null => {
+  const start = parseYMDToDate(startDate);
+  const target = parseYMDToDate(date);
+  if (target.getTime() < start.getTime()) return null;
+
+  const cursor = new Date(start);
+  let index = -1;
+  while (cursor.getTime() <= target.getTime()) {
+    if (weekdays.includes(cursor.getDay())) index += 1;
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return index >= 0 ? index : null;
+};
+
+/** Weekly frequency implied by a custom split's day count. */
+export const resolveCustomSplitDaysPerWeek = (dayCount: number): 3 | 4 | 5 | 6 =>
+  Math.min(6, Math.max(3, Math.round(dayCount))) as 3 | 4 | 5 | 6;
+
+const inferDaysPerWeek = (split: User['trainingSplit']): 3 | 4 | 5 | 6 => {
+  if (split === 'full_body') return 3;
+  if (split === 'upper_lower') return 4;
+  if (split === 'push_pull_legs') return 6;
+  return 6;
+};
+
+const resolveDaysPerWeek = (profile: Pick<User, 'trainingSplit' | 'planPreferences'> | null): 3 | 4 | 5 | 6 => {
+  const chosenDays = normalizeTrainingDays(profile?.planPreferences?.trainingDays);
+  if (chosenDays.length) {
+    return resolveCustomSplitDaysPerWeek(chosenDays.length);
+  }
+  const preferred = profile?.planPreferences?.daysPerWeek;
+  if (preferred === 3 || preferred === 4 || preferred === 5 || preferred === 6) {
+    return preferred;
+  }
+  const customDays = profile?.planPreferences?.customSplit ?? [];
+  if (profile?.trainingSplit === 'custom' && customDays.length) {
+    return resolveCustomSplitDaysPerWeek(customDays.length);
+  }
+  return inferDaysPerWeek(profile?.trainingSplit ?? 'full_body');
+};
+
+/** Weekdays (0 = Sunday) the profile's schedule trains on. */
+export const resolveWeekdaysForProfile = (
+  profile: Pick<User, 'trainingSplit' | 'planPreferences'> | null
+): number[] => resolveTrainingWeekdays(resolveDaysPerWeek(profile), profile?.planPreferences?.trainingDays);
+
+export const shouldTrainOnDate = (date: Date, weekdays: number[]): boolean =>
+  weekdays.includes(date.getDay());
+
+/** Weeks of training per deload week; less experienced lifters recover faster. */
+export const DELOAD_INTERVAL_WEEKS: Record<User['experienceLevel'], number> = {
+  beginner: 6,
+  intermediate: 5,
+  advanced: 4,
+};
+
+export const DELOAD_RULES = {
+  /** Share of planned sets kept during a deload week. */
+  setFactor: 0.6,
+  /** Recovery-related swaps within the signal window that pull a deload forward. */
+  recoverySignalThreshold: 4,
+  recoverySignalKeys: [
+    'swap_reason:volume_adjustment',
+    'swap_reason:rep_adjustment',
+    'swap_reason:movement_adjustment',
+  ],
+} as const;
+
 const COMPOUND_PATTERNS = new Set([
   'squat',
   'hinge',
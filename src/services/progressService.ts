@@ -3,6 +3,8 @@ import { PhasePlan, StrengthSnapshot, WorkoutLog, WorkoutSessionEntry } from '..
 import { mapPhaseRow } from './phaseService';
 import { mapSessionRow } from '../utils/workoutSessionMapper';
 import { buildWorkoutAnalytics } from '../utils/workoutAnalytics';
+import { CONDITIONING_SET_COLUMNS } from '../utils/exerciseMeasurement';
+import { WARMUP_SET_COLUMN } from '../utils/plateLoading';
 import { getAppTimeZone, startOfDayISO, startOfNextDayISO } from '../utils/time';
 
 export type ProgressData = {
@@ -44,10 +46,11 @@ export const fetchProgressData = async (
 
   const phase = phaseRes.data ? mapPhaseRow(phaseRes.data) : null;
 
-  const sessionsQuery = supabase
-    .from('fitarc_workout_sessions')
-    .select(
-      `
+  const buildSessionsQuery = (extraSetColumns: string) => {
+    const sessionsQuery = supabase
+      .from('fitarc_workout_sessions')
+      .select(
+        `
       id,
       user_id,
       plan_id,
@@ -65,21 +68,27 @@ export const fetchProgressData = async (
           reps,
           weight,
           rpe,
-          rest_seconds
+          rest_seconds${extraSetColumns}
         )
       )
     `
-    )
-    .eq('user_id', userId)
-    .eq('plan_id', planId);
+      )
+      .eq('user_id', userId)
+      .eq('plan_id', planId);
 
-  if (fromDate) {
-    const fromStartIso = startOfDayISO(fromDate, timeZone);
-    const tomorrowStartIso = startOfNextDayISO(today, timeZone);
-    sessionsQuery.gte('performed_at', fromStartIso).lt('performed_at', tomorrowStartIso);
-  }
+    if (fromDate) {
+      const fromStartIso = startOfDayISO(fromDate, timeZone);
+      const tomorrowStartIso = startOfNextDayISO(today, timeZone);
+      sessionsQuery.gte('performed_at', fromStartIso).lt('performed_at', tomorrowStartIso);
+    }
 
-  const sessionsRes = await sessionsQuery.order('performed_at', { ascending: true });
+    return sessionsQuery.order('performed_at', { ascending: true });
+  };
+
+  let sessionsRes = await buildSessionsQuery(`, ${CONDITIONING_SET_COLUMNS}, ${WARMUP_SET_COLUMN}`);
+  if (sessionsRes.error && ['42703', 'PGRST204'].includes(sessionsRes.error.code)) {
+    sessionsRes = await buildSessionsQuery('');
+  }
 
   if (sessionsRes.error) {
     throw sessionsRes.error;
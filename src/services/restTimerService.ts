@@ -0,0 +1,150 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const REST_TIMER_STORAGE_KEY = 'fitarc:rest_timer';
+export const DEFAULT_REST_SECONDS = 90;
+
+export type RestTimer = {
+  date: string;
+  exerciseId?: string | null;
+  exerciseName: string;
+  /** Zero-based index of the set the rest follows. */
+  setIndex: number;
+  /** Epoch millis; elapsed time is always derived from this so backgrounding is harmless. */
+  startedAt: number;
+  targetSeconds: number;
+};
+
+export type RestTimerRecord = {
+  date: string;
+  exerciseId?: string | null;
+  exerciseName: string;
+  setIndex: number;
+  restSeconds: number;
+};
+
+export type RestTimerRecorder = (record: RestTimerRecord) => Promise<void> | void;
+
+type RestTimerListener = (timer: RestTimer | null) => void;
+
+let activeTimer: RestTimer | null = null;
+let restored = false;
+let recorder: RestTimerRecorder | null = null;
+const listeners = new Set<RestTimerListener>();
+
+const notify = () => {
+  listeners.forEach((listener) => listener(activeTimer));
+};
+
+const persistTimer = async (timer: RestTimer | null) => {
+  try {
+    if (timer) {
+      await AsyncStorage.setItem(REST_TIMER_STORAGE_KEY, JSON.stringify(timer));
+    } else {
+      await AsyncStorage.removeItem(REST_TIMER_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to persist rest timer:', error);
+  }
+};
+
+const setActiveTimer = (timer: RestTimer | null) => {
+  activeTimer = timer;
+  notify();
+  void persistTimer(timer);
+};
+
+/** Sink for finished rests; the app registers one that writes `restSeconds` back to the session. */
+export const setRestTimerRecorder = (next: RestTimerRecorder | null) => {
+  recorder = next;
+};
+
+export const getRestTimer = (): RestTimer | null => activeTimer;
+
+export const subscribeToRestTimer = (listener: RestTimerListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getRestElapsedSeconds = (timer: RestTimer, now: number = Date.now()): number =>
+  Math.max(0, Math.round((now - timer.startedAt) / 1000));
+
+/** Exercise default wins, then the rest prescribed on the set, then the app default. */
+export const resolveRestTargetSeconds = (
+  defaultRestSeconds?: number | null,
+  plannedRestSeconds?: number | null
+): number => {
+  if (typeof defaultRestSeconds === 'number' && defaultRestSeconds > 0) return defaultRestSeconds;
+  if (typeof plannedRestSeconds === 'number' && plannedRestSeconds > 0) return plannedRestSeconds;
+  return DEFAULT_REST_SECONDS;
+};
+
+/** Restores a timer that was running when the app was last closed. */
+export const restoreRestTimer = async (): Promise<RestTimer | null> => {
+  if (restored) return activeTimer;
+  restored = true;
+  try {
+    const raw = await AsyncStorage.getItem(REST_TIMER_STORAGE_KEY);
+    if (raw && !activeTimer) {
+      const parsed = JSON.parse(raw) as RestTimer;
+      if (typeof parsed?.startedAt === 'number' && typeof parsed.targetSeconds === 'number') {
+        activeTimer = parsed;
+        notify();
+      }
+    }
+  } catch (error) {
+    console.warn('Discarding unreadable rest timer:', error);
+    await persistTimer(null);
+  }
+  return activeTimer;
+};
+
+/**
+ * Ends the running rest. By default the actual rest is handed to the
+ * registered recorder; callers that write the set themselves pass
+ * `record: false` and use the returned value.
+ */
+export const stopRestTimer = async (
+  options: { record?: boolean } = {}
+): Promise<RestTimerRecord | null> => {
+  const timer = activeTimer;
+  if (!timer) return null;
+  setActiveTimer(null);
+
+  const record: RestTimerRecord = {
+    date: timer.date,
+    exerciseId: timer.exerciseId,
+    exerciseName: timer.exerciseName,
+    setIndex: timer.setIndex,
+    restSeconds: getRestElapsedSeconds(timer),
+  };
+  if (options.record !== false && recorder) {
+    try {
+      await recorder(record);
+    } catch (error) {
+      console.error('Failed to record rest time:', error);
+    }
+  }
+  return record;
+};
+
+/** Starts a rest after a logged set, closing out any rest still running. */
+export const startRestTimer = async (
+  timer: Omit<RestTimer, 'startedAt'> & { startedAt?: number }
+): Promise<RestTimer> => {
+  if (activeTimer) {
+    await stopRestTimer();
+  }
+  const next: RestTimer = { ...timer, startedAt: timer.startedAt ?? Date.now() };
+  setActiveTimer(next);
+  return next;
+};
+
+export const extendRestTimer = (seconds: number) => {
+  if (!activeTimer) return;
+  setActiveTimer({
+    ...activeTimer,
+    targetSeconds: Math.max(0, activeTimer.targetSeconds + seconds),
+  });
+};
@@ -4,6 +4,7 @@ import { Buffer } from 'buffer';
 import {
   User,
   ExperienceLevel,
+  PlanPreferences,
   TrackingPreferences,
 } from '../types/domain';
 
@@ -22,6 +23,7 @@ export type RemoteProfileRow = {
   current_physique_level?: number | null;
   avatar_url?: string | null;
   tracking_preferences?: TrackingPreferences | null;
+  plan_preferences?: PlanPreferences | null;
   created_at: string;
 };
 
@@ -64,6 +66,7 @@ const mapRowToUser = (row: RemoteProfileRow): User => {
     avatarUrl: isUrl ? storedAvatar : undefined,
     avatarPath: isUrl ? undefined : storedAvatar,
     trackingPreferences: row.tracking_preferences ?? undefined,
+    planPreferences: row.plan_preferences ?? undefined,
     createdAt: row.created_at,
   };
 };
@@ -120,10 +123,21 @@ export const saveUserProfile = async (user: User): Promise<void> => {
   if (user.trackingPreferences !== undefined) {
     payload.tracking_preferences = user.trackingPreferences ?? null;
   }
+  if (user.planPreferences !== undefined) {
+    payload.plan_preferences = user.planPreferences ?? null;
+  }
 
   const { error } = await supabase.from(PROFILE_TABLE).upsert(payload);
 
   if (error) {
+    // Fail open if the plan_preferences column does not exist yet in DB.
+    const code = (error as { code?: string }).code;
+    if ((code === '42703' || code === 'PGRST204') && payload.plan_preferences !== undefined) {
+      const { plan_preferences: _omitted, ...legacyPayload } = payload;
+      const retry = await supabase.from(PROFILE_TABLE).upsert(legacyPayload);
+      if (retry.error) throw retry.error;
+      return;
+    }
     throw error;
   }
 };
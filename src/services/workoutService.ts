@@ -1,8 +1,26 @@
 import { supabase } from '../lib/supabaseClient';
-import { WorkoutSessionEntry, WorkoutSessionExercise, WorkoutSetEntry } from '../types/domain';
+import {
+  RepPrescription,
+  WorkoutSessionEntry,
+  WorkoutSessionExercise,
+  WorkoutSetEntry,
+} from '../types/domain';
 import { mapSessionRow } from '../utils/workoutSessionMapper';
 import { getAppTimeZone } from '../utils/time';
 import { formatLocalDateYMD } from '../utils/date';
+import {
+  GROUP_COLUMN_NAMES,
+  resolvePlannedSets,
+  toExerciseGroupColumns,
+} from '../utils/exerciseGroups';
+import {
+  getRepTargetValue,
+  parseStoredRepPrescription,
+  resolveRepPrescription,
+} from '../utils/repPrescription';
+import { CONDITIONING_SET_COLUMNS } from '../utils/exerciseMeasurement';
+import { WARMUP_SET_COLUMN } from '../utils/plateLoading';
+import { LOAD_MODE_COLUMN } from '../utils/exerciseLoad';
 import { fetchExerciseCatalog, type ExerciseCatalogEntry } from './exerciseProvider';
 export { fetchExerciseCatalog, type ExerciseCatalogEntry } from './exerciseProvider';
 
@@ -11,11 +29,15 @@ const SESSION_BASE_SELECT =
 const SESSION_CREATE_SELECT = 'id, user_id, plan_id, performed_at, notes, complete';
 const SESSION_EXERCISE_RICH_SELECT =
   'id, session_id, exercise_id, exercise_name, movement_pattern, body_parts, display_order, notes, complete';
+const SESSION_EXERCISE_GROUPED_SELECT = `${SESSION_EXERCISE_RICH_SELECT}, ${GROUP_COLUMN_NAMES}`;
+const SESSION_EXERCISE_LOADED_SELECT = `${SESSION_EXERCISE_GROUPED_SELECT}, ${LOAD_MODE_COLUMN}`;
 const SESSION_EXERCISE_LEAN_SELECT =
   'id, session_id, exercise_id, display_order, notes, complete';
 const WORKOUT_SET_SELECT =
   'session_exercise_id, set_number, reps, weight, rpe, rest_seconds';
-const SESSION_WITH_EXERCISES_SELECT = `
+const OPTIONAL_SET_COLUMNS = `${CONDITIONING_SET_COLUMNS}, ${WARMUP_SET_COLUMN}`;
+const WORKOUT_SET_OPTIONAL_SELECT = `${WORKOUT_SET_SELECT}, ${OPTIONAL_SET_COLUMNS}`;
+const buildSessionWithExercisesSelect = (extraSetColumns = '') => `
       id,
       user_id,
       plan_id,
@@ -32,7 +54,7 @@ const SESSION_WITH_EXERCISES_SELECT = `
           reps,
           weight,
           rpe,
-          rest_seconds
+          rest_seconds${extraSetColumns ? `, ${extraSetColumns}` : ''}
         )
       )
     `;
@@ -111,6 +133,7 @@ type ExerciseDefaultRecord = {
   default_reps: number | null;
   default_sets: number | null;
   default_rest_seconds: number | null;
+  default_rep_target?: unknown;
   notes: string | null;
   source: string | null;
   created_at: string;
@@ -125,6 +148,7 @@ export type ExerciseDefault = {
   userExerciseId?: string | null;
   defaultWeight?: number | null;
   defaultReps?: number | null;
+  defaultRepTarget?: RepPrescription | null;
   defaultSets?: number | null;
   defaultRestSeconds?: number | null;
   notes?: string | null;
@@ -137,6 +161,7 @@ const mapExerciseDefaultRecord = (record: ExerciseDefaultRecord): ExerciseDefaul
   userExerciseId: record.user_exercise_id,
   defaultWeight: record.default_weight,
   defaultReps: record.default_reps,
+  defaultRepTarget: parseStoredRepPrescription(record.default_rep_target),
   defaultSets: record.default_sets,
   defaultRestSeconds: record.default_rest_seconds,
   notes: record.notes ?? undefined,
@@ -173,6 +198,7 @@ export type UpsertExerciseDefaultInput = {
   userExerciseId?: string | null;
   defaultWeight?: number | null;
   defaultReps?: number | null;
+  defaultRepTarget?: RepPrescription | null;
   defaultSets?: number | null;
   defaultRestSeconds?: number | null;
   notes?: string | null;
@@ -188,6 +214,7 @@ export const upsertExerciseDefault = async (
     userExerciseId = null,
     defaultWeight = null,
     defaultReps = null,
+    defaultRepTarget = null,
     defaultSets = null,
     defaultRestSeconds = null,
     notes = null,
@@ -197,24 +224,34 @@ export const upsertExerciseDefault = async (
     throw new Error('exerciseId or userExerciseId must be provided');
   }
 
-  const payload = {
+  const payload: Record<string, unknown> = {
     user_id: userId,
     exercise_id: exerciseId,
     user_exercise_id: userExerciseId,
     default_weight: defaultWeight,
-    default_reps: defaultReps,
+    default_reps: defaultReps ?? getRepTargetValue(defaultRepTarget),
+    default_rep_target: defaultRepTarget,
     default_sets: defaultSets,
     default_rest_seconds: defaultRestSeconds,
     notes,
   };
 
-  const query = supabase.from('fitarc_user_exercise_defaults');
-  const { data, error } = id
-    ? await query.update(payload).eq('id', id).select().single()
-    : await query
-        .upsert(payload, { onConflict: 'user_id,exercise_id,user_exercise_id' })
-        .select()
-        .single();
+  const writeDefault = (values: Record<string, unknown>) => {
+    const query = supabase.from('fitarc_user_exercise_defaults');
+    return id
+      ? query.update(values).eq('id', id).select().single()
+      : query
+          .upsert(values, { onConflict: 'user_id,exercise_id,user_exercise_id' })
+          .select()
+          .single();
+  };
+
+  let { data, error } = await writeDefault(payload);
+  if (error && isMissingColumnError(error) && !isMissingExerciseDefaultsTableError(error)) {
+    // Older schemas only keep the numeric default.
+    const { default_rep_target, ...legacyPayload } = payload;
+    ({ data, error } = await writeDefault(legacyPayload));
+  }
 
   if (error) {
     if (isMissingExerciseDefaultsTableError(error)) {
@@ -413,10 +450,26 @@ const hydrateSessionsWithExercises = async (
   const sessionIds = sessionRows.map((row) => row.id).filter(Boolean);
   let exerciseRes: { data: any[] | null; error: any } = await supabase
     .from('fitarc_workout_session_exercises')
-    .select(SESSION_EXERCISE_RICH_SELECT)
+    .select(SESSION_EXERCISE_LOADED_SELECT)
     .in('session_id', sessionIds)
     .order('display_order', { ascending: true });
 
+  if (exerciseRes.error && isMissingColumnError(exerciseRes.error)) {
+    exerciseRes = await supabase
+      .from('fitarc_workout_session_exercises')
+      .select(SESSION_EXERCISE_GROUPED_SELECT)
+      .in('session_id', sessionIds)
+      .order('display_order', { ascending: true });
+  }
+
+  if (exerciseRes.error && isMissingColumnError(exerciseRes.error)) {
+    exerciseRes = await supabase
+      .from('fitarc_workout_session_exercises')
+      .select(SESSION_EXERCISE_RICH_SELECT)
+      .in('session_id', sessionIds)
+      .order('display_order', { ascending: true });
+  }
+
   if (exerciseRes.error && isMissingColumnError(exerciseRes.error)) {
     exerciseRes = await supabase
       .from('fitarc_workout_session_exercises')
@@ -462,11 +515,16 @@ const hydrateSessionsWithExercises = async (
   const setsByExerciseId = new Map<string, any[]>();
 
   if (sessionExerciseIds.length) {
-    const { data: setRows, error: setError } = await supabase
-      .from('fitarc_workout_sets')
-      .select(WORKOUT_SET_SELECT)
-      .in('session_exercise_id', sessionExerciseIds)
-      .order('set_number', { ascending: true });
+    const querySets = (select: string) =>
+      supabase
+        .from('fitarc_workout_sets')
+        .select(select)
+        .in('session_exercise_id', sessionExerciseIds)
+        .order('set_number', { ascending: true });
+    let { data: setRows, error: setError } = await querySets(WORKOUT_SET_OPTIONAL_SELECT);
+    if (setError && isMissingColumnError(setError)) {
+      ({ data: setRows, error: setError } = await querySets(WORKOUT_SET_SELECT));
+    }
 
     if (setError) throw setError;
 
@@ -499,11 +557,8 @@ const hydrateSessionsWithExercises = async (
   );
 };
 
-const parseRepsValue = (value: string): number | null => {
-  if (!value) return null;
-  const match = value.match(/\d+/);
-  return match ? parseInt(match[0], 10) : null;
-};
+const resolveRepsValue = (exercise: WorkoutSessionExercise): number | null =>
+  getRepTargetValue(resolveRepPrescription(exercise));
 
 const isMissingColumnError = (error: unknown): boolean => {
   const code = (error as { code?: string } | null)?.code;
@@ -519,7 +574,9 @@ const isMissingColumnError = (error: unknown): boolean => {
 const insertSessionExerciseRich = async (
   sessionId: string,
   exercise: WorkoutSessionExercise,
-  displayOrder: number
+  displayOrder: number,
+  withGroup: boolean,
+  withLoadMode: boolean
 ) =>
   supabase
     .from('fitarc_workout_session_exercises')
@@ -532,6 +589,9 @@ const insertSessionExerciseRich = async (
       user_exercise_id: null,
       display_order: displayOrder,
       notes: exercise.reps ?? null,
+      complete: exercise.completed ?? false,
+      ...(withGroup ? toExerciseGroupColumns(exercise.group) : {}),
+      ...(withLoadMode ? { [LOAD_MODE_COLUMN]: exercise.loadMode ?? null } : {}),
     })
     .select('id')
     .single();
@@ -550,6 +610,7 @@ const insertSessionExerciseLean = async (
       ...(withUserExerciseId ? { user_exercise_id: null } : {}),
       display_order: displayOrder,
       notes: exercise.reps ?? null,
+      complete: exercise.completed ?? false,
     })
     .select('id')
     .single();
@@ -559,7 +620,15 @@ const insertSessionExerciseRow = async (
   exercise: WorkoutSessionExercise,
   displayOrder: number
 ): Promise<string> => {
-  let insertRes = await insertSessionExerciseRich(sessionId, exercise, displayOrder);
+  let insertRes = await insertSessionExerciseRich(sessionId, exercise, displayOrder, true, true);
+
+  if (insertRes.error && isMissingColumnError(insertRes.error)) {
+    insertRes = await insertSessionExerciseRich(sessionId, exercise, displayOrder, true, false);
+  }
+
+  if (insertRes.error && isMissingColumnError(insertRes.error)) {
+    insertRes = await insertSessionExerciseRich(sessionId, exercise, displayOrder, false, false);
+  }
 
   if (insertRes.error && isMissingColumnError(insertRes.error)) {
     insertRes = await insertSessionExerciseLean(sessionId, exercise, displayOrder, true);
@@ -588,14 +657,17 @@ const buildSetPayloads = (exercise: WorkoutSessionExercise): WorkoutSetEntry[] =
     reps: set?.reps,
     rpe: set?.rpe,
     restSeconds: set?.restSeconds,
+    durationSeconds: set?.durationSeconds,
+    distanceMeters: set?.distanceMeters,
+    calories: set?.calories,
   }));
 };
 
 const buildDefaultSetPayloads = (
   exercise: WorkoutSessionExercise
 ): WorkoutSetInsert[] => {
-  const setCount = Math.max(1, exercise.sets ?? 3);
-  const repsValue = parseRepsValue(exercise.reps ?? '');
+  const setCount = Math.max(1, exercise.group?.rounds ?? exercise.sets ?? 3);
+  const repsValue = resolveRepsValue(exercise);
 
   return Array.from({ length: setCount }).map((_, idx) => ({
     session_exercise_id: exercise.id as string,
@@ -614,6 +686,10 @@ type WorkoutSetInsert = {
   reps: number | null;
   rpe: number | null;
   rest_seconds: number | null;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+  calories?: number | null;
+  is_warmup?: boolean;
 };
 
 const buildDateRange = (start: string, end: string): string[] => {
@@ -656,9 +732,28 @@ const addExercisesToSession = async (
   }
 };
 
+const stripOptionalSetColumns = ({
+  duration_seconds,
+  distance_meters,
+  calories,
+  is_warmup,
+  ...rest
+}: WorkoutSetInsert): WorkoutSetInsert => rest;
+
 const insertWorkoutSets = async (payload: WorkoutSetInsert[]): Promise<void> => {
   if (!payload.length) return;
-  const { error } = await supabase.from('fitarc_workout_sets').insert(payload);
+  let { error } = await supabase.from('fitarc_workout_sets').insert(payload);
+  if (error && isMissingColumnError(error)) {
+    // Schemas without the newer columns still keep the lifting values. Warm-ups
+    // are dropped there, since they would read back as working sets.
+    const fallback = payload.filter((row) => !row.is_warmup).map(stripOptionalSetColumns);
+    const droppedWarmups = payload.length - fallback.length;
+    if (droppedWarmups) {
+      console.warn(`Warm-up sets need the ${WARMUP_SET_COLUMN} column; ${droppedWarmups} not saved.`);
+    }
+    if (!fallback.length) return;
+    ({ error } = await supabase.from('fitarc_workout_sets').insert(fallback));
+  }
   if (error) throw error;
 };
 
@@ -666,11 +761,12 @@ const fetchSessionById = async (
   sessionId: string,
   planId: string
 ): Promise<WorkoutSessionEntry> => {
-  const { data, error } = await supabase
-    .from('fitarc_workout_sessions')
-    .select(SESSION_WITH_EXERCISES_SELECT)
-    .eq('id', sessionId)
-    .single();
+  const querySession = (select: string) =>
+    supabase.from('fitarc_workout_sessions').select(select).eq('id', sessionId).single();
+  let { data, error } = await querySession(buildSessionWithExercisesSelect(OPTIONAL_SET_COLUMNS));
+  if (error && isMissingColumnError(error)) {
+    ({ data, error } = await querySession(buildSessionWithExercisesSelect()));
+  }
 
   if (error) throw error;
   return mapSessionRow(data, planId, getAppTimeZone());
@@ -772,20 +868,35 @@ export const upsertWorkoutSessionWithExercises = async ({
   for (let index = 0; index < exercises.length; index += 1) {
     const exercise = exercises[index];
     const sessionExerciseId = await insertSessionExerciseRow(sessionId, exercise, index + 1);
-    const setRows = buildSetPayloads(exercise);
-    if (setRows.length) {
-      const payload = setRows.map((set, setIdx) => ({
-        session_exercise_id: sessionExerciseId,
-        set_number: set.setNumber ?? setIdx + 1,
-        weight: set.weight ?? null,
-        reps: set.reps ?? null,
-        rpe: set.rpe ?? null,
-        rest_seconds: set.restSeconds ?? null,
-      }));
+    const toSetRow = (set: WorkoutSetEntry, setIdx: number): WorkoutSetInsert => ({
+      session_exercise_id: sessionExerciseId,
+      set_number: set.setNumber ?? setIdx + 1,
+      weight: set.weight ?? null,
+      reps: set.reps ?? null,
+      rpe: set.rpe ?? null,
+      rest_seconds: set.restSeconds ?? null,
+      duration_seconds: set.durationSeconds ?? null,
+      distance_meters: set.distanceMeters ?? null,
+      calories: set.calories ?? null,
+    });
+    // Warm-ups count up to -1 so they sort first and never share a working set's number
+    const warmups = exercise.warmupSets ?? [];
+    const payload = [
+      ...warmups.map((set, setIdx) => ({
+        ...toSetRow(set, setIdx),
+        set_number: setIdx - warmups.length,
+        is_warmup: true,
+      })),
+      ...buildSetPayloads(exercise).map(toSetRow),
+    ];
+    if (payload.length) {
       await insertWorkoutSets(payload);
     }
   }
 
+  const allComplete = exercises.length > 0 && exercises.every((exercise) => exercise.completed === true);
+  await updateSessionCompletion(sessionId, allComplete);
+
   return fetchSessionById(sessionId, planId);
 };
 
@@ -814,8 +925,8 @@ export const addExerciseToSession = async ({
   }
 
   const sessionExerciseId = await insertSessionExerciseRow(sessionId, exercise, displayOrder);
-  const repsValue = parseRepsValue(exercise.reps ?? '');
-  const setCount = Math.max(0, exercise.sets ?? 0);
+  const repsValue = resolveRepsValue(exercise);
+  const setCount = Math.max(0, resolvePlannedSets(exercise));
   if (setCount > 0) {
     const payload = Array.from({ length: setCount }).map((_, setIdx) => ({
       session_exercise_id: sessionExerciseId,
@@ -833,7 +944,8 @@ export const addExerciseToSession = async ({
 
 /**
  * Returns true if any set in this session has logged weight or reps data,
- * indicating the user has already started tracking their workout.
+ * indicating the user has already started tracking their workout. Warm-ups,
+ * numbered below zero, do not count.
  */
 export const sessionHasLoggedProgress = async (sessionId: string): Promise<boolean> => {
   const { data: exerciseRows, error: exError } = await supabase
@@ -851,6 +963,7 @@ export const sessionHasLoggedProgress = async (sessionId: string): Promise<boole
     .from('fitarc_workout_sets')
     .select('id')
     .in('session_exercise_id', exerciseIds)
+    .gt('set_number', 0)
     .or('weight.not.is.null,reps.not.is.null')
     .limit(1);
   if (setError) {
@@ -1004,6 +1117,93 @@ export const toggleExerciseAndCheckSession = async (
   await updateSessionCompletion(sessionId, allComplete);
 };
 
+type SetExerciseCompletionForDateInput = {
+  userId: string;
+  planId: string;
+  date: string;
+  exerciseId?: string | null;
+  exerciseName: string;
+  completed: boolean;
+  exercises: WorkoutSessionExercise[];
+};
+
+/**
+ * Idempotent counterpart to toggleExerciseAndCheckSession, used when replaying
+ * offline edits: creates the session if it is still missing and writes an
+ * explicit completion state instead of flipping the stored one.
+ */
+export const setExerciseCompletionForDate = async ({
+  userId,
+  planId,
+  date,
+  exerciseId,
+  exerciseName,
+  completed,
+  exercises,
+}: SetExerciseCompletionForDateInput): Promise<void> => {
+  const sessionId = await createSessionFromPlanWorkout({ userId, planId, date, exercises });
+  const session = await fetchSessionById(sessionId, planId);
+  const normalizedName = exerciseName.toLowerCase().trim();
+  const target =
+    (exerciseId ? session.exercises.find((exercise) => exercise.exerciseId === exerciseId) : undefined) ??
+    session.exercises.find((exercise) => exercise.name.toLowerCase().trim() === normalizedName);
+  if (!target?.id) {
+    throw new Error('session_exercise_not_found');
+  }
+
+  if (completed) {
+    await ensureSetsForExercises([target]);
+  }
+  await toggleExerciseCompletion(target.id, completed);
+  const allComplete = await checkAllExercisesComplete(sessionId);
+  await updateSessionCompletion(sessionId, allComplete);
+};
+
+type SetRestForDateInput = {
+  userId: string;
+  planId: string;
+  date: string;
+  exerciseId?: string | null;
+  exerciseName: string;
+  setNumber: number;
+  restSeconds: number;
+};
+
+/**
+ * Writes a measured rest onto one set row. Unlike a session upsert it leaves
+ * every other row alone, so it cannot clobber sets logged in the meantime.
+ */
+export const setSetRestForDate = async ({
+  userId,
+  planId,
+  date,
+  exerciseId,
+  exerciseName,
+  setNumber,
+  restSeconds,
+}: SetRestForDateInput): Promise<void> => {
+  const existing = await findExistingSessionForDate(userId, planId, normalizeDate(date));
+  if (!existing?.id) {
+    throw new Error('session_not_found');
+  }
+  const session = await fetchSessionById(existing.id, planId);
+  const normalizedName = exerciseName.toLowerCase().trim();
+  const target =
+    (exerciseId ? session.exercises.find((exercise) => exercise.exerciseId === exerciseId) : undefined) ??
+    session.exercises.find((exercise) => exercise.name.toLowerCase().trim() === normalizedName);
+  if (!target?.id) {
+    throw new Error('session_exercise_not_found');
+  }
+
+  const { error } = await supabase
+    .from('fitarc_workout_sets')
+    .update({ rest_seconds: restSeconds })
+    .eq('session_exercise_id', target.id)
+    .eq('set_number', setNumber);
+
+  if (error) throw error;
+};
+
 export const fetchPhaseWorkoutSessions = async (
   userId: string,
   planId: string,
@@ -15,12 +15,28 @@ export type PrimaryGoal =
   | 'endurance'
   | 'general_fitness';
 export type EquipmentLevel = 'bodyweight' | 'dumbbells' | 'full_gym';
+export type AdaptationMode = 'balanced' | 'progressive' | 'recovery';
 
 export type PlanPreferences = {
   primaryGoal?: PrimaryGoal;
   daysPerWeek?: 3 | 4 | 5 | 6;
   equipmentLevel?: EquipmentLevel;
   injuries?: string[];
+  adaptationMode?: AdaptationMode;
+  /** Weekdays to train on (0 = Sunday); overrides the daysPerWeek pattern when set. */
+  trainingDays?: number[];
+  /** Ordered days of a user-built split; used when trainingSplit is 'custom'. */
+  customSplit?: CustomSplitDay[];
+};
+
+export type BodyPart = 'chest' | 'back' | 'legs' | 'shoulders' | 'arms' | 'core';
+
+export type CustomSplitDay = {
+  id: string;
+  name: string;
+  bodyParts: BodyPart[];
+  /** Template goal tags to pick workouts from; derived from bodyParts when empty. */
+  templateTags: string[];
 };
 
 export type MuscleGroup = string;
@@ -30,18 +46,77 @@ export type MovementPattern = string;
 export type LiftId = string;
 export type HabitType = 'steps' | 'sleep' | 'hydration';
 
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'lombardi' | 'rpe';
+
 export type TrackingPreferences = {
   lifts?: Record<string, string>;
   movements?: Record<string, string>;
   muscles?: Record<string, string>;
+  oneRepMaxFormula?: OneRepMaxFormula;
+  loading?: LoadingSetup;
+  unitSystem?: UnitSystem;
 };
 
+/** Display and input units. Values are always stored in kg and cm. */
+export type UnitSystem = 'metric' | 'imperial';
+
+export type PlateUnit = 'kg' | 'lb';
+
+/** The bar and plate sizes a user loads with, all in `unit`. */
+export type LoadingSetup = {
+  unit: PlateUnit;
+  barWeight: number;
+  plates: number[];
+};
+
+/** How sets of an exercise are measured; weight × reps when unset. */
+export type ExerciseMeasurementType =
+  | 'weight_reps'
+  | 'reps_only'
+  | 'time'
+  | 'distance_time'
+  | 'calories';
+
+/**
+ * What the logged weight means. `bodyweight_plus` adds it to the lifter's
+ * body weight (belt or vest), `assisted` subtracts it (band or machine).
+ */
+export type ExerciseLoadMode = 'external' | 'bodyweight_plus' | 'assisted';
+
 export type WorkoutSetEntry = {
   setNumber?: number | null;
   weight?: number | null;
   reps?: number | null;
   rpe?: number | null;
   restSeconds?: number | null;
+  durationSeconds?: number | null;
+  distanceMeters?: number | null;
+  calories?: number | null;
+};
+
+/**
+ * Structured rep target. The legacy `reps` string is still written next to
+ * it so older readers keep working.
+ */
+export type RepPrescription =
+  | { kind: 'fixed'; reps: number }
+  | { kind: 'range'; min: number; max: number }
+  | { kind: 'amrap'; minReps?: number | null }
+  /** Time under tension: reps at a four-part tempo such as "3-1-1-0". */
+  | { kind: 'tempo'; reps: number; tempo: string }
+  | { kind: 'hold'; seconds: number };
+
+export type ExerciseGroupType = 'superset' | 'circuit' | 'giant_set';
+
+/**
+ * Exercises sharing a group id run back to back as one round; rest comes
+ * after the round rather than after each exercise.
+ */
+export type ExerciseGroup = {
+  id: string;
+  type: ExerciseGroupType;
+  rounds: number;
+  restSeconds: number;
 };
 
 export type WorkoutSessionExercise = {
@@ -56,6 +131,12 @@ export type WorkoutSessionExercise = {
   displayOrder?: number;
   notes?: string;
   setDetails?: WorkoutSetEntry[];
+  /** Ramp-up sets before the working sets; never counted toward volume or completion. */
+  warmupSets?: WorkoutSetEntry[];
+  group?: ExerciseGroup | null;
+  repTarget?: RepPrescription | null;
+  measurementType?: ExerciseMeasurementType | null;
+  loadMode?: ExerciseLoadMode | null;
 };
 
 export type WorkoutSessionEntry = {
@@ -79,6 +160,10 @@ export type PlanWorkoutExercise = {
   displayOrder?: number;
   notes?: string;
   sourceTemplateExerciseId?: string | null;
+  group?: ExerciseGroup | null;
+  repTarget?: RepPrescription | null;
+  measurementType?: ExerciseMeasurementType | null;
+  loadMode?: ExerciseLoadMode | null;
 };
 
 export type PlanWorkout = {
@@ -146,7 +231,10 @@ export type PhotoCheckin = {
   date: string;
   phasePlanId: string;
   frontUri: string;
+  /** Storage object paths; the URIs above are short-lived signed URLs. */
+  frontPath?: string;
   sideUri?: string;
+  sidePath?: string;
   note?: string;
   createdAt: string;
 };
@@ -167,6 +255,8 @@ export type WorkoutLog = {
   isCompleted?: boolean;
   totalSets?: number;
   totalVolume?: number;
+  conditioningMinutes?: number;
+  distanceMeters?: number;
   musclesHit?: MuscleGroup[];
   movementPatternsHit?: MovementPattern[];
   muscleVolume: Record<MuscleGroup, number>;
@@ -189,9 +279,25 @@ export type StrengthSnapshot = {
   reps: number;
   totalSets?: number;
   totalReps?: number;
+  totalVolume?: number;
   estimated1RM?: number;
 };
 
+export type PersonalRecordType = 'rep_max' | 'e1rm' | 'volume' | 'best_set';
+
+/** A logged result that beat every earlier one of its kind for the exercise. */
+export type PersonalRecord = {
+  id: string;
+  exerciseId?: string;
+  exerciseName: string;
+  type: PersonalRecordType;
+  date: string;
+  value: number;
+  previousValue: number;
+  weight: number;
+  reps: number;
+};
+
 export type HabitLog = {
   id: string;
   date: string;
@@ -199,7 +305,18 @@ export type HabitLog = {
   habits: Record<HabitType, boolean>;
 };
 
-export const APP_STATE_VERSION = 3;
+/**
+ * One row per day: the weigh-in in kg and the day's calorie intake, either
+ * of which may be missing. Independent of phases so trends span them.
+ */
+export type BodyWeightEntry = {
+  id: string;
+  date: string;
+  weightKg: number | null;
+  intakeKcal?: number | null;
+};
+
+export const APP_STATE_VERSION = 6;
 
 export type AppState = {
   user: User | null;
@@ -209,6 +326,9 @@ export type AppState = {
   strengthSnapshots: StrengthSnapshot[];
   workoutSessions: WorkoutSessionEntry[];
   plannedWorkouts: PlanDay[];
+  habitLogs: HabitLog[];
+  personalRecords: PersonalRecord[];
+  bodyWeightLogs: BodyWeightEntry[];
   nextPhotoReminder: string | null;
   progressEstimate: ProgressEstimate | null;
   workoutDataVersion: number;
@@ -224,6 +344,9 @@ export const createEmptyAppState = (): AppState => ({
   strengthSnapshots: [],
   workoutSessions: [],
   plannedWorkouts: [],
+  habitLogs: [],
+  personalRecords: [],
+  bodyWeightLogs: [],
   nextPhotoReminder: null,
   progressEstimate: null,
   workoutDataVersion: 0,
@@ -0,0 +1,146 @@
+import { APP_STATE_VERSION, AppState } from '../types/domain';
+
+type StoredState = Record<string, unknown>;
+
+type AppStateMigration = {
+  from: number;
+  to: number;
+  migrate: (stored: StoredState) => StoredState;
+};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Step-wise upgrades, applied in order until the snapshot reaches
+ * APP_STATE_VERSION. Each step only reshapes data; it never fetches.
+ */
+const MIGRATIONS: AppStateMigration[] = [
+  {
+    // 1 → 2: core fields plus session tracking and derived analytics
+    from: 1,
+    to: 2,
+    migrate: (stored) => ({
+      ...stored,
+      user: stored.user ?? null,
+      currentPhase: stored.currentPhase ?? null,
+      photoCheckins: asArray(stored.photoCheckins),
+      lastModified:
+        typeof stored.lastModified === 'string' ? stored.lastModified : new Date().toISOString(),
+      workoutSessions: asArray(stored.workoutSessions),
+      workoutLogs: asArray(stored.workoutLogs),
+      strengthSnapshots: asArray(stored.strengthSnapshots),
+      progressEstimate: stored.progressEstimate ?? null,
+    }),
+  },
+  {
+    // 2 → 3: resolved plan days and the workout data change counter
+    from: 2,
+    to: 3,
+    migrate: (stored) => ({
+      ...stored,
+      plannedWorkouts: asArray(stored.plannedWorkouts),
+      workoutDataVersion:
+        typeof stored.workoutDataVersion === 'number' ? stored.workoutDataVersion : 0,
+      nextPhotoReminder:
+        typeof stored.nextPhotoReminder === 'string' ? stored.nextPhotoReminder : null,
+    }),
+  },
+  {
+    // 3 → 4: daily habit check-offs
+    from: 3,
+    to: 4,
+    migrate: (stored) => ({
+      ...stored,
+      habitLogs: asArray(stored.habitLogs),
+    }),
+  },
+  {
+    // 4 → 5: personal record history
+    from: 4,
+    to: 5,
+    migrate: (stored) => ({
+      ...stored,
+      personalRecords: asArray(stored.personalRecords),
+    }),
+  },
+  {
+    // 5 → 6: body-weight log
+    from: 5,
+    to: 6,
+    migrate: (stored) => ({
+      ...stored,
+      bodyWeightLogs: asArray(stored.bodyWeightLogs),
+    }),
+  },
+];
+
+const isRecord = (value: unknown): value is StoredState =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Structural check of a snapshot against the current AppState shape. */
+export const isValidAppState = (value: unknown): value is AppState => {
+  if (!isRecord(value)) return false;
+  if (value.version !== APP_STATE_VERSION) return false;
+  if (typeof value.lastModified !== 'string') return false;
+  if (typeof value.workoutDataVersion !== 'number') return false;
+
+  const arrayKeys = [
+    'photoCheckins',
+    'workoutLogs',
+    'strengthSnapshots',
+    'workoutSessions',
+    'plannedWorkouts',
+    'habitLogs',
+    'personalRecords',
+    'bodyWeightLogs',
+  ];
+  if (!arrayKeys.every((key) => Array.isArray(value[key]))) return false;
+
+  if (value.user !== null) {
+    if (!isRecord(value.user) || typeof value.user.id !== 'string') return false;
+  }
+  if (value.currentPhase !== null) {
+    if (
+      !isRecord(value.currentPhase) ||
+      typeof value.currentPhase.id !== 'string' ||
+      typeof value.currentPhase.startDate !== 'string'
+    ) {
+      return false;
+    }
+  }
+
+  const sessionsValid = (value.workoutSessions as unknown[]).every(
+    (session) =>
+      isRecord(session) &&
+      typeof session.id === 'string' &&
+      typeof session.date === 'string' &&
+      Array.isArray(session.exercises)
+  );
+  return sessionsValid;
+};
+
+/**
+ * Upgrades a stored snapshot of any known version to the current AppState.
+ * Returns null when the snapshot is from an unknown version, a step throws,
+ * or the result fails validation.
+ */
+export const migrateAppState = (stored: unknown): AppState | null => {
+  if (!isRecord(stored)) return null;
+  let version = typeof stored.version === 'number' ? stored.version : 1;
+  if (version > APP_STATE_VERSION) return null;
+
+  let current: StoredState = { ...stored, version };
+  try {
+    while (version < APP_STATE_VERSION) {
+      const step = MIGRATIONS.find((migration) => migration.from === version);
+      if (!step) return null;
+      current = { ...step.migrate(current), version: step.to };
+      version = step.to;
+    }
+  } catch (error) {
+    console.warn('App state migration failed:', error);
+    return null;
+  }
+
+  return isValidAppState(current) ? current : null;
+};
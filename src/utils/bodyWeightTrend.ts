@@ -0,0 +1,101 @@
+import { BodyWeightEntry, EatingMode } from '../types/domain';
+import { parseYMDToDate } from './date';
+import { BodyWeightLookup } from './exerciseLoad';
+
+/** Share of each new weigh-in taken into the trend; 0.1 smooths out water swings. */
+const TREND_SMOOTHING = 0.1;
+
+/** Trailing window the weekly rate is measured over. */
+const RATE_WINDOW_DAYS = 14;
+const MIN_RATE_SPAN_DAYS = 7;
+
+/** Days of weigh-ins before a phase starts that seed its trend. */
+export const TREND_SEED_DAYS = 28;
+
+/** Expected change per week as a share of body weight for each eating mode. */
+const EATING_MODE_WEEKLY_RATES: Record<EatingMode, number> = {
+  mild_deficit: -0.005,
+  recomp: 0,
+  lean_bulk: 0.0025,
+  maintenance: 0,
+};
+
+export type BodyWeightTrendPoint = {
+  date: string;
+  weightKg: number;
+  trendKg: number;
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((parseYMDToDate(to).getTime() - parseYMDToDate(from).getTime()) / MS_PER_DAY);
+
+const roundTrend = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Exponentially smoothed weight, oldest first. A gap of several days
+ * applies the smoothing once per missed day, so a weigh-in after a week
+ * away moves the trend further than one taken the next morning.
+ */
+export const buildBodyWeightTrend = (entries: BodyWeightEntry[]): BodyWeightTrendPoint[] => {
+  const byDate = new Map<string, number>();
+  entries.forEach((entry) => {
+    if (entry.weightKg != null && entry.weightKg > 0) byDate.set(entry.date, entry.weightKg);
+  });
+  const ordered = Array.from(byDate.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  const points: BodyWeightTrendPoint[] = [];
+  ordered.forEach(([date, weightKg], index) => {
+    const previous = points[index - 1];
+    if (!previous) {
+      points.push({ date, weightKg, trendKg: weightKg });
+      return;
+    }
+    const gap = Math.max(1, daysBetween(previous.date, date));
+    const smoothing = 1 - Math.pow(1 - TREND_SMOOTHING, gap);
+    const trendKg = previous.trendKg + (weightKg - previous.trendKg) * smoothing;
+    points.push({ date, weightKg, trendKg: roundTrend(trendKg) });
+  });
+  return points;
+};
+
+/**
+ * Trend change per week over the trailing window, in kg. Null until the
+ * window spans at least a week of weigh-ins.
+ */
+export const calculateWeeklyRate = (trend: BodyWeightTrendPoint[]): number | null => {
+  const last = trend[trend.length - 1];
+  if (!last) return null;
+  const first = trend.find((point) => daysBetween(point.date, last.date) <= RATE_WINDOW_DAYS);
+  if (!first) return null;
+  const span = daysBetween(first.date, last.date);
+  if (span < MIN_RATE_SPAN_DAYS) return null;
+  return roundTrend(((last.trendKg - first.trendKg) / span) * 7);
+};
+
+/** The weekly change in kg an eating mode aims for at the given weight. */
+export const getTargetWeeklyRate = (eatingMode: EatingMode, weightKg: number): number =>
+  roundTrend(weightKg * (EATING_MODE_WEEKLY_RATES[eatingMode] ?? 0));
+
+export const getLatestTrendWeight = (entries: BodyWeightEntry[]): number | null => {
+  const trend = buildBodyWeightTrend(entries);
+  return trend[trend.length - 1]?.trendKg ?? null;
+};
+
+/**
+ * Trend weight on or before each date. Dates before the first weigh-in use
+ * `fallbackKg`, typically the profile weight, then the earliest trend value.
+ */
+export const createBodyWeightLookup = (
+  entries: BodyWeightEntry[],
+  fallbackKg?: number | null
+): BodyWeightLookup => {
+  const trend = buildBodyWeightTrend(entries);
+  return (date) => {
+    for (let index = trend.length - 1; index >= 0; index -= 1) {
+      if (trend[index].date <= date) return trend[index].trendKg;
+    }
+    return fallbackKg ?? trend[0]?.trendKg ?? null;
+  };
+};
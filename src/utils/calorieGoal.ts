@@ -1,10 +1,14 @@
-import { User } from '../types/domain';
+import { BodyWeightEntry, User } from '../types/domain';
+import { getLatestTrendWeight } from './bodyWeightTrend';
+import { EnergyExpenditureEstimate, estimateEnergyExpenditure } from './energyExpenditure';
 
 type CalorieGoalResult = {
   bmr: number;
   activityFactor: number;
   maintenanceCalories: number;
   goalCalories: number;
+  /** How far the logged intake and trend moved maintenance off the formula. */
+  expenditure: EnergyExpenditureEstimate | null;
 };
 
 const getSexOffset = (sex: User['sex']) => {
@@ -47,20 +51,32 @@ const getGoalAdjustment = (mode: User['eatingMode']) => {
   }
 };
 
-export const estimateDailyCalories = (user: User, fallback = 2500): CalorieGoalResult => {
-  const { weightKg, heightCm, age } = user;
+/**
+ * Mifflin-St Jeor maintenance and goal calories. With a body-weight log the
+ * smoothed trend replaces the profile weight, and maintenance moves toward
+ * the expenditure learned from logged intake as confidence grows.
+ */
+export const estimateDailyCalories = (
+  user: User,
+  fallback = 2500,
+  bodyWeightLogs: BodyWeightEntry[] = []
+): CalorieGoalResult => {
+  const { heightCm, age } = user;
+  const weightKg = getLatestTrendWeight(bodyWeightLogs) ?? user.weightKg;
   if (!weightKg || weightKg <= 0 || heightCm <= 0 || age <= 0) {
     return {
       bmr: fallback,
       activityFactor: 1,
       maintenanceCalories: fallback,
       goalCalories: fallback,
+      expenditure: null,
     };
   }
 
   const bmr = 10 * weightKg + 6.25 * heightCm - 5 * age + getSexOffset(user.sex);
   const activityFactor = getActivityFactor(user);
-  const maintenanceCalories = bmr * activityFactor;
+  const expenditure = estimateEnergyExpenditure(bodyWeightLogs, bmr * activityFactor);
+  const { maintenanceCalories } = expenditure;
   const goalAdjustment = getGoalAdjustment(user.eatingMode);
   const rawGoal = maintenanceCalories * (1 + goalAdjustment);
 
@@ -71,7 +87,8 @@ export const estimateDailyCalories = (user: User, fallback = 2500): CalorieGoalR
   return {
     bmr: Math.round(bmr),
     activityFactor,
-    maintenanceCalories: Math.round(maintenanceCalories),
+    maintenanceCalories,
     goalCalories,
+    expenditure,
   };
 };
@@ -0,0 +1,90 @@
+import {
+  DailyConsistencyLog,
+  HabitLog,
+  HabitType,
+  PhasePlan,
+  PlanDay,
+  User,
+  WorkoutSessionEntry,
+} from '../types/domain';
+import { resolveWeekdaysForProfile, shouldTrainOnDate } from '../services/planningRules';
+import { formatLocalDateYMD, parseYMDToDate } from './date';
+
+/** Habit check-offs that keep a day consistent when no schedule is known. */
+const MIN_HABITS_FOR_CONSISTENCY = 2;
+
+const HABIT_KEYS: HabitType[] = ['steps', 'sleep', 'hydration'];
+
+const isSessionDone = (session: WorkoutSessionEntry) =>
+  session.completed === true ||
+  (session.exercises.length > 0 && session.exercises.every((exercise) => exercise.completed === true));
+
+/**
+ * One log per day from the phase start through `today`. A day is consistent
+ * when a session was completed or it was a rest day. Loaded plan days say
+ * which days rest; beyond them the user's training weekdays do, and only
+ * without a profile do most habits checked off stand in. Today only gets a
+ * log once it is consistent, since the day is not over yet.
+ */
+export const buildDailyConsistencyLogs = (params: {
+  phase: PhasePlan;
+  sessions: WorkoutSessionEntry[];
+  plannedWorkouts: PlanDay[];
+  habitLogs: HabitLog[];
+  user?: Pick<User, 'trainingSplit' | 'planPreferences'> | null;
+  today?: string;
+}): DailyConsistencyLog[] => {
+  const { phase } = params;
+  const todayKey = params.today ?? formatLocalDateYMD(new Date());
+  const lastKey = phase.expectedEndDate < todayKey ? phase.expectedEndDate : todayKey;
+  if (lastKey < phase.startDate) return [];
+
+  const doneDates = new Set(
+    params.sessions
+      .filter((session) => session.phasePlanId === phase.id && isSessionDone(session))
+      .map((session) => session.date)
+  );
+  const planByDate = new Map(
+    params.plannedWorkouts
+      .filter((day) => day.planId === phase.id)
+      .map((day) => [day.date, day])
+  );
+  const habitsByDate = new Map(
+    params.habitLogs
+      .filter((log) => log.phasePlanId === phase.id)
+      .map((log) => [log.date, log.habits])
+  );
+
+  const weekdays = params.user ? resolveWeekdaysForProfile(params.user) : null;
+
+  const logs: DailyConsistencyLog[] = [];
+  const cursor = parseYMDToDate(phase.startDate);
+  for (let key = phase.startDate; key <= lastKey; key = formatLocalDateYMD(cursor)) {
+    const planDay = planByDate.get(key);
+    const habits = habitsByDate.get(key);
+    const habitCount = habits ? HABIT_KEYS.filter((habit) => habits[habit]).length : 0;
+
+    let isConsistent: boolean;
+    if (doneDates.has(key)) {
+      isConsistent = true;
+    } else if (planDay) {
+      isConsistent = !planDay.workout?.exercises.length;
+    } else if (weekdays) {
+      isConsistent = !shouldTrainOnDate(cursor, weekdays);
+    } else {
+      isConsistent = habitCount >= MIN_HABITS_FOR_CONSISTENCY;
+    }
+
+    if (key !== todayKey || isConsistent) {
+      logs.push({
+        id: `consistency:${phase.id}:${key}`,
+        date: key,
+        phasePlanId: phase.id,
+        isConsistent,
+        createdAt: parseYMDToDate(key).toISOString(),
+      });
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return logs;
+};
@@ -0,0 +1,100 @@
+import { ExperienceLevel, PlanDay, PlanWorkoutExercise } from '../types/domain';
+import { DELOAD_INTERVAL_WEEKS, DELOAD_RULES } from '../services/planningRules';
+import type { SwapReasonSignal } from '../services/progressService';
+import { formatLocalDateYMD, parseYMDToDate } from './date';
+
+/** Prefix of the note line marking a deloaded day; other note text is kept. */
+export const DELOAD_NOTE_PREFIX = 'Deload week:';
+
+const DAY_MS = 86400000;
+
+const mondayOf = (date: Date) => {
+  const dow = date.getDay();
+  const next = new Date(date);
+  next.setDate(date.getDate() + (dow === 0 ? -6 : 1 - dow));
+  return next;
+};
+
+/**
+ * Zero-based Mon–Sun week of `date` within a phase, matching the weeks the
+ * Dashboard timeline groups days into.
+ */
+export const getPhaseWeekIndex = (phaseStartDate: string, date: string): number => {
+  const mon0 = mondayOf(parseYMDToDate(phaseStartDate));
+  const target = parseYMDToDate(date);
+  return Math.floor(Math.round((target.getTime() - mon0.getTime()) / DAY_MS) / 7);
+};
+
+/** Monday–Sunday date keys of a phase week. */
+export const getPhaseWeekDates = (phaseStartDate: string, weekIndex: number): string[] => {
+  const mon0 = mondayOf(parseYMDToDate(phaseStartDate));
+  return Array.from({ length: 7 }, (_, offset) => {
+    const date = new Date(mon0);
+    date.setDate(mon0.getDate() + weekIndex * 7 + offset);
+    return formatLocalDateYMD(date);
+  });
+};
+
+const hasDeloadNote = (exercises: PlanWorkoutExercise[]) =>
+  exercises.some((exercise) =>
+    (exercise.notes ?? '').split('\n').some((line) => line.startsWith(DELOAD_NOTE_PREFIX))
+  );
+
+export const isDeloadPlanDay = (day?: PlanDay | null): boolean =>
+  hasDeloadNote(day?.workout?.exercises ?? []);
+
+/**
+ * Deload weeks for a phase. Weeks already deloaded (for example pulled
+ * forward by recovery signals) restart the count, so the regular cadence
+ * resumes from the last actual deload.
+ */
+export const resolveDeloadWeeks = (params: {
+  startDate: string;
+  endDate: string;
+  experienceLevel: ExperienceLevel;
+  appliedWeeks?: Iterable<number>;
+}): Set<number> => {
+  const interval = DELOAD_INTERVAL_WEEKS[params.experienceLevel] ?? DELOAD_INTERVAL_WEEKS.intermediate;
+  const applied = new Set(params.appliedWeeks ?? []);
+  const lastWeek = getPhaseWeekIndex(params.startDate, params.endDate);
+  const deloads = new Set<number>();
+  let sinceDeload = 0;
+  for (let week = 0; week <= lastWeek; week += 1) {
+    sinceDeload += 1;
+    if (applied.has(week) || sinceDeload >= interval) {
+      deloads.add(week);
+      sinceDeload = 0;
+    }
+  }
+  return deloads;
+};
+
+/** Phase weeks that contain at least one deloaded plan day. */
+export const collectDeloadedWeeks = (phaseStartDate: string, planDays: PlanDay[]): Set<number> =>
+  new Set(
+    planDays
+      .filter((day) => isDeloadPlanDay(day))
+      .map((day) => getPhaseWeekIndex(phaseStartDate, day.date))
+  );
+
+export const isRecoverySignalSpike = (signals: SwapReasonSignal[]): boolean => {
+  const keys: readonly string[] = DELOAD_RULES.recoverySignalKeys;
+  const total = signals
+    .filter((signal) => keys.includes(signal.key))
+    .reduce((sum, signal) => sum + signal.count, 0);
+  return total >= DELOAD_RULES.recoverySignalThreshold;
+};
+
+/** Cuts each exercise's sets for a deload day. Returns null if already deloaded. */
+export const buildDeloadPlanExercises = (
+  exercises: PlanWorkoutExercise[]
+): PlanWorkoutExercise[] | null => {
+  if (!exercises.length || hasDeloadNote(exercises)) return null;
+  return exercises.map((exercise) => {
+    const planned = exercise.sets ?? 3;
+    const sets = Math.max(1, Math.round(planned * DELOAD_RULES.setFactor));
+    const note = `${DELOAD_NOTE_PREFIX} ${sets} of ${planned} sets`;
+    const kept = (exercise.notes ?? '').split('\n').filter((line) => line.trim());
+    return { ...exercise, sets, notes: [note, ...kept].join('\n') };
+  });
+};
@@ -0,0 +1,111 @@
+import { BodyWeightEntry } from '../types/domain';
+import { addDays, formatLocalDateYMD, parseYMDToDate } from './date';
+import { buildBodyWeightTrend } from './bodyWeightTrend';
+
+/** Energy in a kilogram of mixed fat and lean tissue change. */
+const KCAL_PER_KG = 7700;
+
+const WINDOW_DAYS = 14;
+/** Rolling windows looked back over; recent windows weigh more. */
+const MAX_WINDOWS = 4;
+/** A window needs this many days of logged intake and weigh-ins to count. */
+const MIN_INTAKE_DAYS = 10;
+const MIN_WEIGH_INS = 4;
+
+/** Guards against a mis-logged window swinging the estimate. */
+const ADAPTIVE_BOUNDS = { min: 1200, max: 5000 } as const;
+
+export type ExpenditureConfidence = 'none' | 'low' | 'medium' | 'high';
+
+export type EnergyExpenditureEstimate = {
+  /** Formula maintenance blended toward the adaptive figure by `confidence`. */
+  maintenanceCalories: number;
+  formulaCalories: number;
+  /** Expenditure implied by intake and trend change; null without a usable window. */
+  adaptiveCalories: number | null;
+  /** 0 keeps the formula, 1 uses the adaptive figure outright. */
+  confidence: number;
+  confidenceLevel: ExpenditureConfidence;
+  windowsUsed: number;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const shiftDate = (date: string, days: number) => formatLocalDateYMD(addDays(parseYMDToDate(date), days));
+
+const toConfidenceLevel = (confidence: number): ExpenditureConfidence => {
+  if (confidence >= 0.75) return 'high';
+  if (confidence >= 0.4) return 'medium';
+  if (confidence > 0) return 'low';
+  return 'none';
+};
+
+/**
+ * Learns maintenance from the log: over each window, average intake minus
+ * the energy stored or lost in the trend change is what was spent. The
+ * formula's figure gives way to it as more complete windows accumulate, and
+ * stands alone when no window has enough logging.
+ */
+export const estimateEnergyExpenditure = (
+  entries: BodyWeightEntry[],
+  formulaCalories: number
+): EnergyExpenditureEstimate => {
+  const trend = buildBodyWeightTrend(entries);
+  const trendAt = (date: string) => {
+    for (let index = trend.length - 1; index >= 0; index -= 1) {
+      if (trend[index].date <= date) return trend[index].trendKg;
+    }
+    return null;
+  };
+
+  const windows: Array<{ expenditure: number; coverage: number; weight: number }> = [];
+  const lastDate = trend[trend.length - 1]?.date;
+  for (let index = 0; lastDate && index < MAX_WINDOWS; index += 1) {
+    const end = shiftDate(lastDate, -index * WINDOW_DAYS);
+    const start = shiftDate(end, -WINDOW_DAYS);
+    const startTrend = trendAt(start);
+    const endTrend = trendAt(end);
+    if (startTrend === null || endTrend === null) break;
+
+    const inWindow = entries.filter((entry) => entry.date > start && entry.date <= end);
+    const intakes = inWindow
+      .map((entry) => entry.intakeKcal ?? 0)
+      .filter((kcal) => kcal > 0);
+    const weighIns = inWindow.filter((entry) => (entry.weightKg ?? 0) > 0).length;
+    if (intakes.length < MIN_INTAKE_DAYS || weighIns < MIN_WEIGH_INS) continue;
+
+    const averageIntake = intakes.reduce((sum, kcal) => sum + kcal, 0) / intakes.length;
+    const storedPerDay = ((endTrend - startTrend) * KCAL_PER_KG) / WINDOW_DAYS;
+    windows.push({
+      expenditure: clamp(averageIntake - storedPerDay, ADAPTIVE_BOUNDS.min, ADAPTIVE_BOUNDS.max),
+      coverage: Math.min(1, intakes.length / WINDOW_DAYS),
+      weight: MAX_WINDOWS - index,
+    });
+  }
+
+  if (!windows.length) {
+    return {
+      maintenanceCalories: Math.round(formulaCalories),
+      formulaCalories: Math.round(formulaCalories),
+      adaptiveCalories: null,
+      confidence: 0,
+      confidenceLevel: 'none',
+      windowsUsed: 0,
+    };
+  }
+
+  const totalWeight = windows.reduce((sum, window) => sum + window.weight, 0);
+  const adaptiveCalories =
+    windows.reduce((sum, window) => sum + window.expenditure * window.weight, 0) / totalWeight;
+  const coverage = windows.reduce((sum, window) => sum + window.coverage, 0) / windows.length;
+  const confidence = Math.round((windows.length / MAX_WINDOWS) * coverage * 100) / 100;
+
+  return {
+    maintenanceCalories: Math.round(formulaCalories + (adaptiveCalories - formulaCalories) * confidence),
+    formulaCalories: Math.round(formulaCalories),
+    adaptiveCalories: Math.round(adaptiveCalories),
+    confidence,
+    confidenceLevel: toConfidenceLevel(confidence),
+    windowsUsed: windows.length,
+  };
+};
@@ -0,0 +1,149 @@
+import { ExerciseGroup, ExerciseGroupType } from '../types/domain';
+
+export const EXERCISE_GROUP_LABELS: Record<ExerciseGroupType, string> = {
+  superset: 'Superset',
+  circuit: 'Circuit',
+  giant_set: 'Giant set',
+};
+
+export const DEFAULT_GROUP_ROUNDS = 3;
+export const DEFAULT_GROUP_REST_SECONDS = 90;
+
+type Groupable = { group?: ExerciseGroup | null; sets?: number | null };
+
+/** Column values shared by plan overrides and session exercises. */
+export type ExerciseGroupColumns = {
+  group_id: string | null;
+  group_type: string | null;
+  group_rounds: number | null;
+  group_rest_seconds: number | null;
+};
+
+export const GROUP_COLUMN_NAMES = 'group_id, group_type, group_rounds, group_rest_seconds';
+
+const isGroupType = (value: unknown): value is ExerciseGroupType =>
+  value === 'superset' || value === 'circuit' || value === 'giant_set';
+
+export const toExerciseGroupColumns = (group?: ExerciseGroup | null): ExerciseGroupColumns => ({
+  group_id: group?.id ?? null,
+  group_type: group?.type ?? null,
+  group_rounds: group?.rounds ?? null,
+  group_rest_seconds: group?.restSeconds ?? null,
+});
+
+export const parseExerciseGroupColumns = (
+  row: Partial<ExerciseGroupColumns> | null | undefined
+): ExerciseGroup | null => {
+  if (!row?.group_id) return null;
+  return {
+    id: row.group_id,
+    type: isGroupType(row.group_type) ? row.group_type : 'superset',
+    rounds: Math.max(1, row.group_rounds ?? DEFAULT_GROUP_ROUNDS),
+    restSeconds: Math.max(0, row.group_rest_seconds ?? DEFAULT_GROUP_REST_SECONDS),
+  };
+};
+
+export const areExerciseGroupsEqual = (a?: ExerciseGroup | null, b?: ExerciseGroup | null) =>
+  (a?.id ?? null) === (b?.id ?? null) &&
+  (a?.type ?? null) === (b?.type ?? null) &&
+  (a?.rounds ?? null) === (b?.rounds ?? null) &&
+  (a?.restSeconds ?? null) === (b?.restSeconds ?? null);
+
+/** A grouped exercise does one set per round. */
+export const resolvePlannedSets = (exercise: Groupable): number =>
+  exercise.group ? exercise.group.rounds : exercise.sets ?? 0;
+
+/** Consecutive runs of the list; ungrouped exercises form runs of one. */
+export const groupExercisesForDisplay = <T extends Groupable>(
+  exercises: T[]
+): Array<{ group: ExerciseGroup | null; startIndex: number; exercises: T[] }> => {
+  const runs: Array<{ group: ExerciseGroup | null; startIndex: number; exercises: T[] }> = [];
+  exercises.forEach((exercise, index) => {
+    const last = runs[runs.length - 1];
+    if (exercise.group && last?.group?.id === exercise.group.id) {
+      last.exercises.push(exercise);
+      return;
+    }
+    runs.push({ group: exercise.group ?? null, startIndex: index, exercises: [exercise] });
+  });
+  return runs;
+};
+
+/**
+ * Rest after a set of `exercises[index]`: null when the exercise is not
+ * grouped, 0 when the next exercise of the round follows straight away, and
+ * the group's rest once the round is finished.
+ */
+export const resolveGroupRestSeconds = (exercises: Groupable[], index: number): number | null => {
+  const group = exercises[index]?.group;
+  if (!group) return null;
+  const next = exercises[index + 1];
+  if (next?.group?.id === group.id) return 0;
+  return group.restSeconds;
+};
+
+const inferGroupType = (current: ExerciseGroupType, size: number): ExerciseGroupType => {
+  if (current === 'circuit') return current;
+  return size > 2 ? 'giant_set' : 'superset';
+};
+
+const withGroup = <T extends Groupable>(exercise: T, group: ExerciseGroup | null): T =>
+  ({ ...exercise, group, sets: group ? group.rounds : exercise.sets }) as T;
+
+/** Joins `exercises[index]` to the exercise after it, starting a group if neither has one. */
+export const linkExerciseWithNext = <T extends Groupable>(exercises: T[], index: number): T[] => {
+  const current = exercises[index];
+  const next = exercises[index + 1];
+  if (!current || !next) return exercises;
+
+  const base: ExerciseGroup = next.group ??
+    current.group ?? {
+      id: `grp-${Date.now()}-${index}`,
+      type: 'superset',
+      rounds: Math.max(1, current.sets ?? DEFAULT_GROUP_ROUNDS),
+      restSeconds: DEFAULT_GROUP_REST_SECONDS,
+    };
+  const mergedIds = new Set<string | undefined>([current.group?.id, next.group?.id, base.id]);
+  mergedIds.delete(undefined);
+  const size = exercises.filter(
+    (exercise, position) =>
+      position === index || position === index + 1 || mergedIds.has(exercise.group?.id)
+  ).length;
+  const group = { ...base, type: inferGroupType(base.type, size) };
+
+  return exercises.map((exercise, position) =>
+    position === index || position === index + 1 || mergedIds.has(exercise.group?.id)
+      ? withGroup(exercise, group)
+      : exercise
+  );
+};
+
+/** Takes `exercises[index]` out of its group; a group left with one exercise is dissolved. */
+export const unlinkExercise = <T extends Groupable>(exercises: T[], index: number): T[] => {
+  const groupId = exercises[index]?.group?.id;
+  if (!groupId) return exercises;
+  const remaining = exercises.filter(
+    (exercise, position) => position !== index && exercise.group?.id === groupId
+  );
+  return exercises.map((exercise, position) => {
+    if (position === index) return withGroup(exercise, null);
+    if (exercise.group?.id !== groupId) return exercise;
+    if (remaining.length < 2) return withGroup(exercise, null);
+    return withGroup(exercise, {
+      ...exercise.group,
+      type: inferGroupType(exercise.group.type, remaining.length),
+    });
+  });
+};
+
+export const updateExerciseGroup = <T extends Groupable>(
+  exercises: T[],
+  groupId: string,
+  patch: Partial<Omit<ExerciseGroup, 'id'>>
+): T[] =>
+  exercises.map((exercise) =>
+    exercise.group?.id === groupId ? withGroup(exercise, { ...exercise.group, ...patch }) : exercise
+  );
+
+export const formatExerciseGroupSummary = (group: ExerciseGroup): string =>
+  `${EXERCISE_GROUP_LABELS[group.type]} · ${group.rounds} round${group.rounds === 1 ? '' : 's'} · ${group.restSeconds}s rest`;
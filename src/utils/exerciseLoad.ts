@@ -0,0 +1,71 @@
+import { ExerciseLoadMode } from '../types/domain';
+
+type Loadable = {
+  name?: string | null;
+  loadMode?: ExerciseLoadMode | null;
+};
+
+/** Body weight in kg on a given date, or null when nothing is known. */
+export type BodyWeightLookup = (date: string) => number | null;
+
+export const LOAD_MODES: ExerciseLoadMode[] = ['external', 'bodyweight_plus', 'assisted'];
+
+export const LOAD_MODE_LABELS: Record<ExerciseLoadMode, string> = {
+  external: 'External',
+  bodyweight_plus: 'Bodyweight +',
+  assisted: 'Assisted',
+};
+
+/** Column storing the load mode on session exercises and plan overrides. */
+export const LOAD_MODE_COLUMN = 'load_mode';
+
+const ASSISTED_PATTERN = /\bassist(ed)?\b/i;
+const BODYWEIGHT_PATTERN =
+  /\b(pull-?ups?|chin-?ups?|dips?|push-?ups?|muscle-?ups?|inverted rows?)\b/i;
+
+/**
+ * Share of body weight moved per rep. Pull-ups, chin-ups and dips lift
+ * nearly all of it; push-ups and inverted rows keep the feet on the floor.
+ */
+const BODYWEIGHT_SHARES: Array<{ keywords: RegExp; share: number }> = [
+  { keywords: /push-?ups?/i, share: 0.64 },
+  { keywords: /inverted rows?/i, share: 0.6 },
+];
+
+export const isLoadMode = (value: unknown): value is ExerciseLoadMode =>
+  LOAD_MODES.includes(value as ExerciseLoadMode);
+
+export const parseLoadMode = (value: unknown): ExerciseLoadMode | null =>
+  isLoadMode(value) ? value : null;
+
+/** Best guess from the exercise name for exercises without a stored mode. */
+export const inferLoadMode = (exercise: Loadable): ExerciseLoadMode => {
+  const name = exercise.name ?? '';
+  if (ASSISTED_PATTERN.test(name)) return 'assisted';
+  if (BODYWEIGHT_PATTERN.test(name)) return 'bodyweight_plus';
+  return 'external';
+};
+
+export const resolveLoadMode = (exercise: Loadable): ExerciseLoadMode =>
+  exercise.loadMode ?? inferLoadMode(exercise);
+
+export const getBodyWeightShare = (name?: string | null): number =>
+  BODYWEIGHT_SHARES.find((entry) => entry.keywords.test(name ?? ''))?.share ?? 1;
+
+/**
+ * Load actually moved on a set. Without a known body weight only the
+ * logged weight counts, which keeps bodyweight lifts at their old values
+ * and assisted lifts at zero.
+ */
+export const resolveEffectiveLoad = (
+  weight: number,
+  mode: ExerciseLoadMode,
+  bodyWeight: number | null,
+  share = 1
+): number => {
+  if (mode === 'external') return weight;
+  if (bodyWeight == null || bodyWeight <= 0) return mode === 'assisted' ? 0 : weight;
+  const moved = bodyWeight * share;
+  const load = mode === 'assisted' ? Math.max(0, moved - weight) : moved + weight;
+  return Math.round(load * 10) / 10;
+};
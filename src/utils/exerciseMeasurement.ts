@@ -0,0 +1,105 @@
+import { ExerciseMeasurementType, WorkoutSetEntry } from '../types/domain';
+
+export type SetMeasureField = 'weight' | 'reps' | 'durationSeconds' | 'distanceMeters' | 'calories';
+
+type Measurable = {
+  name?: string | null;
+  movementPattern?: string | null;
+  measurementType?: ExerciseMeasurementType | null;
+};
+
+export const MEASUREMENT_TYPES: ExerciseMeasurementType[] = [
+  'weight_reps',
+  'reps_only',
+  'time',
+  'distance_time',
+  'calories',
+];
+
+export const MEASUREMENT_TYPE_LABELS: Record<ExerciseMeasurementType, string> = {
+  weight_reps: 'Weight × reps',
+  reps_only: 'Reps',
+  time: 'Time',
+  distance_time: 'Distance + time',
+  calories: 'Calories',
+};
+
+/** Set editor columns per type, in display order. */
+export const MEASUREMENT_FIELDS: Record<ExerciseMeasurementType, SetMeasureField[]> = {
+  weight_reps: ['weight', 'reps'],
+  reps_only: ['reps'],
+  time: ['durationSeconds'],
+  distance_time: ['distanceMeters', 'durationSeconds'],
+  calories: ['calories', 'durationSeconds'],
+};
+
+/** The value a set needs before it can be logged. */
+export const MEASUREMENT_PRIMARY_FIELD: Record<ExerciseMeasurementType, SetMeasureField> = {
+  weight_reps: 'reps',
+  reps_only: 'reps',
+  time: 'durationSeconds',
+  distance_time: 'distanceMeters',
+  calories: 'calories',
+};
+
+export const CONDITIONING_SET_COLUMNS = 'duration_seconds, distance_meters, calories';
+
+const CALORIE_PATTERN = /\b(assault|air ?bike|echo bike|calories?|cals?)\b/i;
+const DISTANCE_PATTERN =
+  /\b(run|running|jog|jogging|treadmill|rowing|rower|erg|ski ?erg|bike|cycling|cycle|swim|swimming|sprints?)\b/i;
+const TIME_PATTERN = /\b(plank|hold|wall sit|dead hang|hollow|l-sit|carry)\b/i;
+const BODYWEIGHT_PATTERN =
+  /\b(push-?ups?|pull-?ups?|chin-?ups?|dips?|burpees?|sit-?ups?|crunch(es)?|air squats?|mountain climbers?)\b/i;
+
+export const isMeasurementType = (value: unknown): value is ExerciseMeasurementType =>
+  MEASUREMENT_TYPES.includes(value as ExerciseMeasurementType);
+
+export const parseMeasurementType = (value: unknown): ExerciseMeasurementType | null =>
+  isMeasurementType(value) ? value : null;
+
+/** Best guess from the exercise name for exercises without a stored type. */
+export const inferMeasurementType = (exercise: Measurable): ExerciseMeasurementType => {
+  const pattern = exercise.movementPattern ?? '';
+  const text = `${exercise.name ?? ''} ${pattern}`;
+  if (CALORIE_PATTERN.test(text)) return 'calories';
+  if (DISTANCE_PATTERN.test(text) || /cardio|conditioning/i.test(pattern)) return 'distance_time';
+  if (TIME_PATTERN.test(text)) return 'time';
+  if (BODYWEIGHT_PATTERN.test(text) && !/weighted/i.test(text)) return 'reps_only';
+  return 'weight_reps';
+};
+
+export const resolveMeasurementType = (exercise: Measurable): ExerciseMeasurementType =>
+  exercise.measurementType ?? inferMeasurementType(exercise);
+
+/** Conditioning work is tracked by time, distance or calories rather than load. */
+export const isConditioningMeasurement = (type: ExerciseMeasurementType): boolean =>
+  type === 'time' || type === 'distance_time' || type === 'calories';
+
+/** Reads the type back from logged values, for rows that never stored one. */
+export const inferMeasurementFromSets = (
+  sets: WorkoutSetEntry[]
+): ExerciseMeasurementType | null => {
+  if (sets.some((set) => (set.distanceMeters ?? 0) > 0)) return 'distance_time';
+  if (sets.some((set) => (set.calories ?? 0) > 0)) return 'calories';
+  if (sets.some((set) => (set.durationSeconds ?? 0) > 0)) return 'time';
+  return null;
+};
+
+/** Accepts "90", "1:30" or "1:02:00" and returns seconds. */
+export const parseDurationInput = (text: string): number | null => {
+  const parts = text.trim().split(':');
+  if (!parts[0] || parts.length > 3) return null;
+  const numbers = parts.map((part) => Number(part.replace(',', '.')));
+  if (numbers.some((value) => !Number.isFinite(value) || value < 0)) return null;
+  const seconds = numbers.reduce((total, value) => total * 60 + value, 0);
+  return seconds > 0 ? Math.round(seconds) : null;
+};
+
+export const formatDuration = (seconds?: number | null): string => {
+  if (seconds == null || seconds <= 0) return '';
+  const whole = Math.round(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const rest = `${whole % 60}`.padStart(2, '0');
+  return hours > 0 ? `${hours}:${`${minutes}`.padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
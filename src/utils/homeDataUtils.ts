@@ -1,9 +1,12 @@
-import { WorkoutSessionEntry } from '../types/domain';
+import { HabitLog, HabitType, WorkoutSessionEntry } from '../types/domain';
 import { formatLocalDateYMD, parseYMDToDate } from './date';
 
+const TRACKED_HABITS: HabitType[] = ['steps', 'sleep', 'hydration'];
+
 export const buildConsistencySummary = (
   sessions: WorkoutSessionEntry[],
-  phaseStartDate?: string | null
+  phaseStartDate?: string | null,
+  habitLogs: HabitLog[] = []
 ) => {
   const completedSessions = sessions.filter((session) => session.completed);
   const dates = new Set(completedSessions.map((s) => s.date));
@@ -47,8 +50,29 @@ export const buildConsistencySummary = (
     return Math.min(100, (dates.size / daysSinceStart) * 100);
   })();
 
+  // Share of habit check-offs over the same window, counting today
+  const habitAdherencePercent = (() => {
+    const startDate = phaseStartDate ? parseYMDToDate(phaseStartDate) : null;
+    const windowDays =
+      startDate && !Number.isNaN(startDate.getTime())
+        ? Math.max(1, Math.floor((today.getTime() - startDate.getTime()) / 86400000) + 1)
+        : 14;
+    const windowStart = new Date(today);
+    windowStart.setDate(today.getDate() - (windowDays - 1));
+    const fromKey = formatLocalDateYMD(windowStart);
+    const todayKey = formatLocalDateYMD(today);
+    const checked = habitLogs
+      .filter((log) => log.date >= fromKey && log.date <= todayKey)
+      .reduce(
+        (sum, log) => sum + TRACKED_HABITS.filter((habit) => log.habits[habit]).length,
+        0
+      );
+    return Math.min(100, (checked / (windowDays * TRACKED_HABITS.length)) * 100);
+  })();
+
   return {
     streak,
     adherencePercent,
+    habitAdherencePercent,
   };
 };
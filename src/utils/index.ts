@@ -1,3 +1,4 @@
 export { calculateProgress, shouldPromptPhotoCheckin, isPhaseComplete } from './progressCalculator';
 export { getCurrentStreak, getAdherencePercentage, getLongestStreak } from './streakCalculator';
 export { getTodayFocusAreas, getBodyPartLabel, getBodyPartEmoji, isTrainingDay } from './trainingSplitHelper';
+export { buildDailyConsistencyLogs } from './consistencyLogs';
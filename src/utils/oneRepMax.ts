@@ -0,0 +1,54 @@
+import { OneRepMaxFormula } from '../types/domain';
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'epley';
+
+export const ONE_REP_MAX_FORMULAS: OneRepMaxFormula[] = ['epley', 'brzycki', 'lombardi', 'rpe'];
+
+export const ONE_REP_MAX_FORMULA_LABELS: Record<OneRepMaxFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+  lombardi: 'Lombardi',
+  rpe: 'RPE table',
+};
+
+/**
+ * Share of 1RM that can be lifted for 1–12 reps at RPE 10. Lower RPE adds
+ * the reps left in reserve, so 8 reps @ RPE 8 reads as 10 reps to failure.
+ */
+const RPE_10_PERCENTAGES = [1, 0.955, 0.922, 0.892, 0.863, 0.837, 0.811, 0.786, 0.762, 0.739, 0.707, 0.68];
+
+const epley = (weight: number, reps: number) => weight * (1 + reps / 30);
+
+const rpeTableOneRepMax = (weight: number, reps: number, rpe?: number | null) => {
+  const reserve = typeof rpe === 'number' && rpe > 0 ? Math.max(0, Math.min(4, 10 - rpe)) : 0;
+  const effectiveReps = reps + reserve;
+  if (effectiveReps > RPE_10_PERCENTAGES.length) return epley(weight, effectiveReps);
+  // Half-RPE steps land between two table rows
+  const lower = Math.floor(effectiveReps);
+  const upper = Math.ceil(effectiveReps);
+  const share =
+    RPE_10_PERCENTAGES[lower - 1] +
+    (RPE_10_PERCENTAGES[upper - 1] - RPE_10_PERCENTAGES[lower - 1]) * (effectiveReps - lower);
+  return weight / share;
+};
+
+export const estimateOneRepMax = (
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA,
+  rpe?: number | null
+): number => {
+  if (weight <= 0 || reps <= 0) return 0;
+  switch (formula) {
+    case 'brzycki':
+      // The curve breaks down near 37 reps; fall back to Epley well before that
+      return Math.round(reps > 12 ? epley(weight, reps) : (weight * 36) / (37 - reps));
+    case 'lombardi':
+      return Math.round(weight * Math.pow(reps, 0.1));
+    case 'rpe':
+      return Math.round(rpeTableOneRepMax(weight, reps, rpe));
+    case 'epley':
+    default:
+      return Math.round(epley(weight, reps));
+  }
+};
@@ -1,11 +1,28 @@
-import { StrengthSnapshot, WorkoutLog, LiftId, MuscleGroup, MovementPattern } from '../types/domain';
+import {
+  StrengthSnapshot,
+  WorkoutLog,
+  LiftId,
+  MuscleGroup,
+  MovementPattern,
+  PlateUnit,
+  UnitSystem,
+} from '../types/domain';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  getWeightUnit,
+  roundToPlateIncrement,
+  toDisplayLoad,
+  toDisplayWeight,
+} from './units';
 
 export type StrengthTrendView = {
   key: LiftId;
   lift: string;
+  /** Weekly best weights, in `unit`. */
   weights: number[];
-  deltaLbs: number;
+  delta: number;
   deltaPercent: number;
+  unit: PlateUnit;
 };
 
 export type VolumeEntryView = {
@@ -25,6 +42,7 @@ export type LiftHistoryView = {
   sparkline: string;
   startWeight: number;
   endWeight: number;
+  unit: PlateUnit;
   repHistory: { week: number; reps: number[] }[];
   insight: string;
 };
@@ -35,6 +53,9 @@ export type TrackingLabelMaps = {
   muscles?: Record<string, string>;
 };
 
+/** One small plate pair: 2.5 kg, shown as 5 lb for imperial users. */
+const SUGGESTED_STEP_KG = 2.5;
+
 const getLabel = (labels: Record<string, string> | undefined, key: string) =>
   labels?.[key] ?? key;
 
@@ -71,7 +92,8 @@ const buildGlyph = (weights: number[]): string => {
 
 export const buildStrengthTrends = (
   snapshots: StrengthSnapshot[],
-  labelMaps?: TrackingLabelMaps
+  labelMaps?: TrackingLabelMaps,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
 ): StrengthTrendView[] => {
   const grouped = snapshots.reduce<Record<LiftId, StrengthSnapshot[]>>((acc, snapshot) => {
     if (!snapshot.lift) {
@@ -102,16 +124,17 @@ export const buildStrengthTrends = (
         }
       });
       const recentWeeks = Array.from(weeklyMaxes.keys()).sort().slice(-4);
-      const weights = recentWeeks.map((key) => weeklyMaxes.get(key) ?? 0);
-      const deltaLbs = weights.length > 1 ? weights[weights.length - 1] - weights[0] : 0;
+      const weights = recentWeeks.map((key) => toDisplayWeight(weeklyMaxes.get(key) ?? 0, unitSystem));
+      const delta = weights.length > 1 ? Number((weights[weights.length - 1] - weights[0]).toFixed(1)) : 0;
       const deltaPercent =
-        weights.length > 1 ? Math.round((deltaLbs / Math.max(weights[0], 1)) * 100) : 0;
+        weights.length > 1 ? Math.round((delta / Math.max(weights[0], 1)) * 100) : 0;
       return {
         key: lift,
         lift: getLabel(labelMaps?.lifts, lift),
         weights,
-        deltaLbs,
+        delta,
         deltaPercent,
+        unit: getWeightUnit(unitSystem),
       };
     });
 };
@@ -203,14 +226,15 @@ export const buildMovementBalanceSummary = (
 export const buildLiftHistory = (
   snapshots: StrengthSnapshot[],
   lift: LiftId,
-  labelMaps?: TrackingLabelMaps
+  labelMaps?: TrackingLabelMaps,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
 ): LiftHistoryView => {
   const history = snapshots
     .filter((snapshot) => snapshot.lift === lift)
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
     .slice(-12);
 
-  const weights = history.map((entry) => entry.weight);
+  const weights = history.map((entry) => toDisplayWeight(entry.weight, unitSystem));
   const startWeight = weights[0] || 0;
   const endWeight = weights[weights.length - 1] || 0;
   const sparkline = buildGlyph(weights);
@@ -220,10 +244,12 @@ export const buildLiftHistory = (
     reps: [entry.reps, Math.max(entry.reps - 1, 1), Math.max(entry.reps - 2, 1)],
   }));
 
-  const delta = endWeight - startWeight;
+  const unit = getWeightUnit(unitSystem);
+  const delta = roundToPlateIncrement(endWeight - startWeight, unitSystem);
+  const nextStep = toDisplayLoad(SUGGESTED_STEP_KG, unitSystem);
   const insight =
     delta > 0
-      ? `You've added ${delta} lbs recently. Consider adding 5 lbs next week.`
+      ? `You've added ${delta} ${unit} recently. Consider adding ${nextStep} ${unit} next week.`
       : 'Keep building consistency to unlock more progress.';
 
   return {
@@ -231,6 +257,7 @@ export const buildLiftHistory = (
     sparkline,
     startWeight,
     endWeight,
+    unit,
     repHistory,
     insight,
   };
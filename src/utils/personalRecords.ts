@@ -0,0 +1,139 @@
+import { PersonalRecord, PersonalRecordType, StrengthSnapshot, UnitSystem } from '../types/domain';
+import { DEFAULT_UNIT_SYSTEM, formatVolume, formatWeight } from './units';
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  rep_max: 'Rep max',
+  e1rm: 'Estimated 1RM',
+  volume: 'Session volume',
+  best_set: 'Best set',
+};
+
+type RecordCandidate = { type: PersonalRecordType; key: string; value: number };
+
+const getExerciseKey = (entry: { exerciseId?: string; exerciseName?: string }) =>
+  entry.exerciseId || (entry.exerciseName ?? '').trim().toLowerCase();
+
+/** Rep maxes are tracked per rep count: a 5RM and a 3RM are separate records. */
+const getRecordKey = (exerciseKey: string, type: PersonalRecordType, reps: number) =>
+  type === 'rep_max' ? `${exerciseKey}:${type}:${reps}` : `${exerciseKey}:${type}`;
+
+const toCandidates = (snapshot: StrengthSnapshot): RecordCandidate[] => {
+  const exerciseKey = getExerciseKey(snapshot);
+  const candidates: RecordCandidate[] = [
+    { type: 'rep_max', key: getRecordKey(exerciseKey, 'rep_max', snapshot.reps), value: snapshot.weight },
+    { type: 'e1rm', key: getRecordKey(exerciseKey, 'e1rm', snapshot.reps), value: snapshot.estimated1RM ?? 0 },
+    { type: 'volume', key: getRecordKey(exerciseKey, 'volume', snapshot.reps), value: snapshot.totalVolume ?? 0 },
+    {
+      type: 'best_set',
+      key: getRecordKey(exerciseKey, 'best_set', snapshot.reps),
+      value: snapshot.weight * snapshot.reps,
+    },
+  ];
+  return candidates.filter((candidate) => candidate.value > 0);
+};
+
+/**
+ * Walks snapshots oldest first and reports every result that beats the best
+ * so far. The first session of an exercise only sets the baseline. `history`
+ * seeds the baseline with records from sessions that are no longer loaded.
+ */
+export const detectPersonalRecords = (
+  snapshots: StrengthSnapshot[],
+  history: PersonalRecord[] = []
+): PersonalRecord[] => {
+  const bests = new Map<string, number>();
+  const seeds = [...history].sort((a, b) => a.date.localeCompare(b.date));
+  const ordered = snapshots
+    .filter((snapshot) => snapshot.weight > 0 && snapshot.reps > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const records: PersonalRecord[] = [];
+  let seedIndex = 0;
+
+  ordered.forEach((snapshot) => {
+    while (seedIndex < seeds.length && seeds[seedIndex].date < snapshot.date) {
+      const seed = seeds[seedIndex];
+      const key = getRecordKey(getExerciseKey(seed), seed.type, seed.reps);
+      bests.set(key, Math.max(bests.get(key) ?? 0, seed.value));
+      seedIndex += 1;
+    }
+
+    toCandidates(snapshot).forEach(({ type, key, value }) => {
+      const previous = bests.get(key);
+      if (previous === undefined || value > previous) {
+        bests.set(key, value);
+      }
+      if (previous === undefined || value <= previous) return;
+      records.push({
+        id: `${key}:${snapshot.date}`,
+        exerciseId: snapshot.exerciseId,
+        exerciseName: snapshot.exerciseName ?? snapshot.lift ?? 'Exercise',
+        type,
+        date: snapshot.date,
+        value,
+        previousValue: previous,
+        weight: snapshot.weight,
+        reps: snapshot.reps,
+      });
+    });
+  });
+
+  return records;
+};
+
+/**
+ * Recomputes records for every date the snapshots cover and keeps the rest
+ * of the history as it was, newest first.
+ */
+export const updatePersonalRecordHistory = (
+  history: PersonalRecord[],
+  snapshots: StrengthSnapshot[]
+): PersonalRecord[] => {
+  const coveredDates = new Set(snapshots.map((snapshot) => snapshot.date));
+  const retained = history.filter((record) => !coveredDates.has(record.date));
+  const detected = detectPersonalRecords(snapshots, retained);
+  return [...retained, ...detected].sort(
+    (a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id)
+  );
+};
+
+/** Current best per record type for each exercise, ordered by latest record. */
+export const summarizePersonalRecords = (
+  records: PersonalRecord[]
+): Array<{ exerciseName: string; latestDate: string; records: PersonalRecord[] }> => {
+  const byExercise = new Map<string, PersonalRecord[]>();
+  records.forEach((record) => {
+    const key = getExerciseKey(record);
+    byExercise.set(key, [...(byExercise.get(key) ?? []), record]);
+  });
+
+  return Array.from(byExercise.values())
+    .map((entries) => {
+      const bestByType = new Map<PersonalRecordType, PersonalRecord>();
+      entries.forEach((record) => {
+        const current = bestByType.get(record.type);
+        if (!current || record.value > current.value) bestByType.set(record.type, record);
+      });
+      const latest = entries.reduce((a, b) => (b.date > a.date ? b : a));
+      return {
+        exerciseName: latest.exerciseName,
+        latestDate: latest.date,
+        records: Array.from(bestByType.values()),
+      };
+    })
+    .sort((a, b) => b.latestDate.localeCompare(a.latestDate));
+};
+
+export const formatPersonalRecordValue = (
+  record: PersonalRecord,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): string => {
+  switch (record.type) {
+    case 'rep_max':
+      return `${formatWeight(record.weight, unitSystem)} × ${record.reps}`;
+    case 'e1rm':
+      return formatWeight(record.value, unitSystem);
+    case 'volume':
+    case 'best_set':
+      return formatVolume(record.value, unitSystem);
+  }
+};
@@ -0,0 +1,80 @@
+import type { PlanExerciseInput } from '../services/planRuntimeService';
+import { areExerciseGroupsEqual } from './exerciseGroups';
+import { areRepPrescriptionsEqual } from './repPrescription';
+
+export type PlanEditKind = 'swap' | 'add' | 'delete' | 'reorder' | 'edit' | 'template';
+
+export type PlanEditEntry = {
+  id: string;
+  date: string;
+  kind: PlanEditKind;
+  label: string;
+  before: PlanExerciseInput[];
+  after: PlanExerciseInput[];
+  createdAt: string;
+};
+
+/** Per-date stacks, newest entry last. */
+export type PlanEditHistory = {
+  undo: PlanEditEntry[];
+  redo: PlanEditEntry[];
+};
+
+export const PLAN_EDIT_HISTORY_LIMIT = 20;
+
+export const EMPTY_PLAN_EDIT_HISTORY: PlanEditHistory = { undo: [], redo: [] };
+
+const exerciseKey = (exercise: PlanExerciseInput) => exercise.exerciseId || exercise.name;
+
+const describeNames = (exercises: PlanExerciseInput[]) =>
+  exercises.length === 1 ? exercises[0].name : `${exercises.length} exercises`;
+
+/** Names the change between two snapshots of the same day. */
+export const classifyPlanEdit = (
+  before: PlanExerciseInput[],
+  after: PlanExerciseInput[]
+): { kind: PlanEditKind; label: string } => {
+  const beforeKeys = before.map(exerciseKey);
+  const afterKeys = after.map(exerciseKey);
+
+  if (after.length > before.length) {
+    const added = after.filter((exercise) => !beforeKeys.includes(exerciseKey(exercise)));
+    return { kind: 'add', label: `Added ${describeNames(added.length ? added : after.slice(before.length))}` };
+  }
+  if (after.length < before.length) {
+    const removed = before.filter((exercise) => !afterKeys.includes(exerciseKey(exercise)));
+    return { kind: 'delete', label: `Removed ${describeNames(removed.length ? removed : before.slice(after.length))}` };
+  }
+
+  const changed = after
+    .map((exercise, index) => ({ previous: before[index], next: exercise }))
+    .filter(({ previous, next }) => exerciseKey(previous) !== exerciseKey(next));
+  if (!changed.length) {
+    if (after.some((exercise, index) => !areExerciseGroupsEqual(exercise.group, before[index].group))) {
+      return { kind: 'edit', label: 'Changed exercise groups' };
+    }
+    const edited = after.find(
+      (exercise, index) =>
+        exercise.sets !== before[index].sets ||
+        exercise.reps !== before[index].reps ||
+        exercise.notes !== before[index].notes ||
+        !areRepPrescriptionsEqual(exercise.repTarget ?? null, before[index].repTarget ?? null) ||
+        (exercise.measurementType ?? null) !== (before[index].measurementType ?? null) ||
+        (exercise.loadMode ?? null) !== (before[index].loadMode ?? null)
+    );
+    return { kind: 'edit', label: edited ? `Edited ${edited.name}` : 'Edited workout' };
+  }
+  if ([...beforeKeys].sort().join('|') === [...afterKeys].sort().join('|')) {
+    return { kind: 'reorder', label: 'Reordered exercises' };
+  }
+  if (changed.length === 1) {
+    return { kind: 'swap', label: `Swapped ${changed[0].previous.name} for ${changed[0].next.name}` };
+  }
+  return { kind: 'edit', label: `Changed ${changed.length} exercises` };
+};
+
+/** A new edit clears the redo stack, as in any editor. */
+export const pushPlanEdit = (history: PlanEditHistory, entry: PlanEditEntry): PlanEditHistory => ({
+  undo: [...history.undo, entry].slice(-PLAN_EDIT_HISTORY_LIMIT),
+  redo: [],
+});
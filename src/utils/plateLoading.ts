@@ -0,0 +1,151 @@
+import { isCompoundPattern } from '../services/planningRules';
+import { LoadingSetup, PlateUnit, WorkoutSessionExercise, WorkoutSetEntry } from '../types/domain';
+import { resolveMeasurementType } from './exerciseMeasurement';
+import { KG_PER_LB } from './units';
+
+export type LoadingPresetId = 'kg_standard' | 'kg_home' | 'lb_standard' | 'lb_home';
+
+export const LOADING_PRESETS: Array<{ id: LoadingPresetId; label: string; setup: LoadingSetup }> = [
+  {
+    id: 'kg_standard',
+    label: 'Gym · kg',
+    setup: { unit: 'kg', barWeight: 20, plates: [25, 20, 15, 10, 5, 2.5, 1.25] },
+  },
+  {
+    id: 'kg_home',
+    label: 'Home · kg',
+    setup: { unit: 'kg', barWeight: 20, plates: [20, 10, 5, 2.5, 1.25] },
+  },
+  {
+    id: 'lb_standard',
+    label: 'Gym · lb',
+    setup: { unit: 'lb', barWeight: 45, plates: [45, 35, 25, 10, 5, 2.5] },
+  },
+  {
+    id: 'lb_home',
+    label: 'Home · lb',
+    setup: { unit: 'lb', barWeight: 45, plates: [45, 25, 10, 5, 2.5] },
+  },
+];
+
+export const DEFAULT_LOADING_SETUP: LoadingSetup = LOADING_PRESETS[0].setup;
+
+/** Column flagging warm-up rows in fitarc_workout_sets. */
+export const WARMUP_SET_COLUMN = 'is_warmup';
+
+/** Share of the working weight and reps per ramp step; 0 is the empty bar. */
+const WARMUP_RAMP: Array<{ share: number; reps: number }> = [
+  { share: 0, reps: 10 },
+  { share: 0.4, reps: 5 },
+  { share: 0.6, reps: 3 },
+  { share: 0.8, reps: 2 },
+];
+
+export type PlateLoadout = {
+  /** Plates for one side of the bar, heaviest first. */
+  plates: number[];
+  loadedWeight: number;
+  /** What the available plates cannot make up; 0 when the target loads exactly. */
+  remainder: number;
+};
+
+const toHundredths = (value: number) => Math.round(value * 100);
+
+const greatestCommonDivisor = (a: number, b: number): number =>
+  b === 0 ? a : greatestCommonDivisor(b, a % b);
+
+const roundWeight = (value: number) => Math.round(value * 100) / 100;
+
+export const findLoadingPreset = (setup?: LoadingSetup | null) =>
+  setup
+    ? LOADING_PRESETS.find(
+        (preset) =>
+          preset.setup.unit === setup.unit &&
+          preset.setup.barWeight === setup.barWeight &&
+          preset.setup.plates.join(',') === setup.plates.join(',')
+      ) ?? null
+    : null;
+
+/** Session weights are stored in kg; plate math runs in the setup's unit. */
+export const toLoadingUnit = (kg: number, unit: PlateUnit): number =>
+  unit === 'lb' ? roundWeight(kg / KG_PER_LB) : kg;
+
+export const fromLoadingUnit = (value: number, unit: PlateUnit): number =>
+  unit === 'lb' ? roundWeight(value * KG_PER_LB) : value;
+
+/**
+ * Heaviest load up to `targetWeight` the plates can make, using as few
+ * plates as possible. Plates come in pairs, so each size is available on
+ * both sides without limit.
+ */
+export const calculatePlates = (targetWeight: number, setup: LoadingSetup): PlateLoadout => {
+  const bar = toHundredths(setup.barWeight);
+  const sizes = Array.from(new Set(setup.plates.map(toHundredths).filter((size) => size > 0)));
+  const perSide = Math.floor((toHundredths(targetWeight) - bar) / 2);
+  if (!sizes.length || perSide <= 0) {
+    const loadedWeight = setup.barWeight;
+    return { plates: [], loadedWeight, remainder: roundWeight(Math.max(0, targetWeight - loadedWeight)) };
+  }
+
+  // Work in steps of the common divisor so the table stays small
+  const step = sizes.reduce(greatestCommonDivisor);
+  const slots = Math.floor(perSide / step);
+  const counts = new Array<number>(slots + 1).fill(Infinity);
+  const lastPlate = new Array<number>(slots + 1).fill(0);
+  counts[0] = 0;
+  for (let slot = 1; slot <= slots; slot += 1) {
+    sizes.forEach((size) => {
+      const previous = slot - size / step;
+      if (previous >= 0 && counts[previous] + 1 < counts[slot]) {
+        counts[slot] = counts[previous] + 1;
+        lastPlate[slot] = size;
+      }
+    });
+  }
+
+  let slot = slots;
+  while (slot > 0 && counts[slot] === Infinity) slot -= 1;
+  const plates: number[] = [];
+  for (let cursor = slot; cursor > 0; cursor -= lastPlate[cursor] / step) {
+    plates.push(lastPlate[cursor] / 100);
+  }
+  plates.sort((a, b) => b - a);
+
+  const loadedWeight = (bar + slot * step * 2) / 100;
+  return { plates, loadedWeight, remainder: roundWeight(Math.max(0, targetWeight - loadedWeight)) };
+};
+
+export const formatPlates = (plates: number[]): string =>
+  plates.length ? plates.join(' + ') : 'Bar only';
+
+/**
+ * Ramp from the empty bar to the working weight, each step rounded down to
+ * what the plates can load. Steps that would repeat a load or reach the
+ * working weight are dropped. Weights are in the setup's unit.
+ */
+export const generateWarmupSets = (workingWeight: number, setup: LoadingSetup): WorkoutSetEntry[] => {
+  if (workingWeight <= setup.barWeight) return [];
+  const sets: WorkoutSetEntry[] = [];
+  let previousWeight = 0;
+  WARMUP_RAMP.forEach(({ share, reps }) => {
+    const weight = calculatePlates(Math.max(setup.barWeight, workingWeight * share), setup).loadedWeight;
+    if (weight >= workingWeight || weight <= previousWeight) return;
+    previousWeight = weight;
+    sets.push({
+      setNumber: sets.length + 1,
+      weight,
+      reps,
+      rpe: null,
+      restSeconds: null,
+    });
+  });
+  return sets;
+};
+
+/** Warm-ups go before the first compound lift of the day that is loaded by weight. */
+export const findWarmupExerciseIndex = (exercises: WorkoutSessionExercise[]): number =>
+  exercises.findIndex(
+    (exercise) =>
+      isCompoundPattern(exercise.movementPattern) &&
+      resolveMeasurementType(exercise) === 'weight_reps'
+  );
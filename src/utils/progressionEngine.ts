@@ -0,0 +1,237 @@
+import {
+  AdaptationMode,
+  PlanWorkoutExercise,
+  RepPrescription,
+  StrengthSnapshot,
+  UnitSystem,
+  WorkoutSessionEntry,
+} from '../types/domain';
+import { ProgressionRules, resolveProgressionRules } from '../services/planningRules';
+import { isSameExercise } from './setLogging';
+import {
+  formatRepPrescription,
+  getRepRange,
+  resolveRepPrescription,
+  withRepRange,
+} from './repPrescription';
+import { DEFAULT_UNIT_SYSTEM, fromDisplayWeight, toDisplayLoad, toDisplayWeight } from './units';
+
+export type ProgressionAction = 'increase_weight' | 'increase_reps' | 'deload' | 'hold';
+
+export type ProgressionTarget = {
+  exerciseId: string;
+  name: string;
+  action: ProgressionAction;
+  sets: number;
+  reps: string;
+  repTarget: RepPrescription;
+  weight: number | null;
+  note: string;
+};
+
+/** Prefix of the note line the engine owns; other note text is left untouched. */
+export const PROGRESSION_NOTE_PREFIX = 'Progression:';
+
+const HISTORY_WINDOW = 6;
+
+type ExerciseRef = { exerciseId?: string; name: string };
+
+export type ProgressionContext = {
+  snapshots: StrengthSnapshot[];
+  sessions: WorkoutSessionEntry[];
+  /** The planned day being targeted; only history before it is considered. */
+  date: string;
+  mode: AdaptationMode;
+  /** Loads are rounded to this system's plates; metric when unset. */
+  unitSystem?: UnitSystem;
+};
+
+const toRepTarget = (prescription: RepPrescription | null, min: number, max: number) => {
+  const repTarget = withRepRange(prescription, min, max);
+  return { reps: formatRepPrescription(repTarget), repTarget };
+};
+
+const roundToIncrement = (value: number, increment: number) =>
+  increment > 0 ? Math.round(value / increment) * increment : value;
+
+// Metric notes stay unitless as they always were; pounds are labelled.
+const formatWeight = (weight: number, unitSystem: UnitSystem) =>
+  `${Number(weight.toFixed(1))}${unitSystem === 'imperial' ? ' lb' : ''}`;
+
+const snapshotMatches = (snapshot: StrengthSnapshot, target: ExerciseRef) =>
+  isSameExercise(
+    { exerciseId: snapshot.exerciseId, name: snapshot.exerciseName ?? '' },
+    target
+  );
+
+/** Best snapshot per session date for the exercise, newest first. */
+const collectHistory = (
+  snapshots: StrengthSnapshot[],
+  target: ExerciseRef,
+  beforeDate: string
+): StrengthSnapshot[] => {
+  const byDate = new Map<string, StrengthSnapshot>();
+  snapshots.forEach((snapshot) => {
+    if (snapshot.date >= beforeDate || snapshot.weight <= 0 || snapshot.reps <= 0) return;
+    if (!snapshotMatches(snapshot, target)) return;
+    const existing = byDate.get(snapshot.date);
+    if (!existing || (snapshot.estimated1RM ?? 0) > (existing.estimated1RM ?? 0)) {
+      byDate.set(snapshot.date, snapshot);
+    }
+  });
+  return Array.from(byDate.values())
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, HISTORY_WINDOW);
+};
+
+/** Average logged RPE for the exercise in the session the snapshot came from. */
+const resolveSessionRpe = (
+  sessions: WorkoutSessionEntry[],
+  target: ExerciseRef,
+  date: string
+): number | null => {
+  const session = sessions.find((entry) => entry.date === date);
+  const exercise = session?.exercises.find((entry) => isSameExercise(entry, target));
+  const rpes = (exercise?.setDetails ?? [])
+    .map((set) => set.rpe)
+    .filter((rpe): rpe is number => typeof rpe === 'number' && rpe > 0);
+  if (!rpes.length) return null;
+  return rpes.reduce((sum, rpe) => sum + rpe, 0) / rpes.length;
+};
+
+/**
+ * Sessions logged after the most recent deload, newest first. A session
+ * whose load fell by at least half a deload step counts as one; it and
+ * everything before it are measured against the heavier block, so keeping
+ * them would read the lighter sessions as a stall and deload again.
+ */
+const sinceLastDeload = (history: StrengthSnapshot[], rules: ProgressionRules) => {
+  const deloadIndex = history.findIndex(
+    (snapshot, index) =>
+      index + 1 < history.length &&
+      snapshot.weight <= history[index + 1].weight * (1 - rules.deloadPercent / 2)
+  );
+  return deloadIndex < 0 ? history : history.slice(0, deloadIndex);
+};
+
+const hasStalled = (history: StrengthSnapshot[], rules: ProgressionRules) => {
+  const recent = sinceLastDeload(history, rules);
+  if (recent.length < rules.stallSessions) return false;
+  const window = recent.slice(0, rules.stallSessions);
+  const baseline = window[window.length - 1].estimated1RM ?? 0;
+  return window.slice(0, -1).every((snapshot) => (snapshot.estimated1RM ?? 0) <= baseline);
+};
+
+/**
+ * Double progression: add reps inside the prescribed range, then add load
+ * and restart at the bottom of the range. High RPE or a run of sessions
+ * without an estimated-1RM gain triggers a deload instead. Targets depend
+ * only on logged history, so re-running the engine for a day is stable.
+ */
+export const proposeProgressionTarget = (
+  exercise: PlanWorkoutExercise,
+  context: ProgressionContext
+): ProgressionTarget | null => {
+  const rules = resolveProgressionRules(context.mode);
+  const history = collectHistory(context.snapshots, exercise, context.date);
+  const last = history[0];
+  if (!last) return null;
+
+  const prescription = resolveRepPrescription(exercise);
+  // Timed holds log seconds in the reps field, which load progression can't read.
+  if (prescription?.kind === 'hold') return null;
+  const range = getRepRange(prescription) ?? { min: last.reps, max: last.reps };
+  const lastSets = last.totalSets || exercise.sets || 3;
+  const plannedSets = exercise.sets ?? lastSets;
+  const rpe = resolveSessionRpe(context.sessions, exercise, last.date);
+  const rpeLabel = rpe !== null ? ` @ RPE ${Number(rpe.toFixed(1))}` : '';
+  const base = { exerciseId: exercise.exerciseId, name: exercise.name };
+  // Load math runs in the user's unit so targets land on plates they own
+  const unitSystem = context.unitSystem ?? DEFAULT_UNIT_SYSTEM;
+  const increment = toDisplayLoad(rules.weightIncrementKg, unitSystem);
+  const lastLoad = toDisplayWeight(last.weight, unitSystem);
+  const format = (weight: number) => formatWeight(weight, unitSystem);
+
+  if ((rpe !== null && rpe >= rules.deloadRpe) || hasStalled(history, rules)) {
+    const load = roundToIncrement(lastLoad * (1 - rules.deloadPercent), increment);
+    return {
+      ...base,
+      action: 'deload',
+      sets: Math.max(1, lastSets - rules.deloadSetReduction),
+      ...toRepTarget(prescription, range.min, range.max),
+      weight: fromDisplayWeight(load, unitSystem),
+      note: `${PROGRESSION_NOTE_PREFIX} deload to ${format(load)} × ${range.min} (last ${format(lastLoad)} × ${last.reps}${rpeLabel})`,
+    };
+  }
+
+  const canProgress = rpe === null || rpe <= rules.maxProgressRpe;
+  if (canProgress && last.reps >= range.max && rules.weightIncreasePercent > 0) {
+    const load = Math.max(
+      roundToIncrement(lastLoad * (1 + rules.weightIncreasePercent), increment),
+      lastLoad + increment
+    );
+    const min = Math.max(1, range.max - rules.repRangeSpan);
+    return {
+      ...base,
+      action: 'increase_weight',
+      sets: plannedSets,
+      ...toRepTarget(prescription, min, range.max),
+      weight: fromDisplayWeight(load, unitSystem),
+      note: `${PROGRESSION_NOTE_PREFIX} ${format(load)} × ${min} (+${format(load - lastLoad)})`,
+    };
+  }
+
+  if (canProgress && last.reps < range.max) {
+    const targetReps = Math.min(range.max, last.reps + rules.repIncrement);
+    return {
+      ...base,
+      action: 'increase_reps',
+      sets: plannedSets,
+      ...toRepTarget(prescription, Math.max(range.min, targetReps), range.max),
+      weight: last.weight,
+      note: `${PROGRESSION_NOTE_PREFIX} ${format(lastLoad)} × ${targetReps} (+${targetReps - last.reps} reps)`,
+    };
+  }
+
+  return {
+    ...base,
+    action: 'hold',
+    sets: plannedSets,
+    ...toRepTarget(prescription, range.min, range.max),
+    weight: last.weight,
+    note: `${PROGRESSION_NOTE_PREFIX} repeat ${format(lastLoad)} × ${last.reps}${rpeLabel}`,
+  };
+};
+
+const mergeProgressionNote = (notes: string | undefined, note: string) => {
+  const kept = (notes ?? '')
+    .split('\n')
+    .filter((line) => line.trim() && !line.startsWith(PROGRESSION_NOTE_PREFIX));
+  return [note, ...kept].join('\n');
+};
+
+/**
+ * Applies engine targets to a planned day. Exercises without usable history
+ * pass through unchanged. Returns null when nothing would change.
+ */
+export const buildProgressedPlanExercises = (
+  exercises: PlanWorkoutExercise[],
+  context: ProgressionContext
+): { exercises: PlanWorkoutExercise[]; targets: ProgressionTarget[] } | null => {
+  const targets: ProgressionTarget[] = [];
+  let changed = false;
+
+  const progressed = exercises.map((exercise) => {
+    const target = proposeProgressionTarget(exercise, context);
+    if (!target) return exercise;
+    targets.push(target);
+
+    const notes = mergeProgressionNote(exercise.notes, target.note);
+    if (target.sets !== exercise.sets || target.reps !== exercise.reps || notes !== exercise.notes) {
+      changed = true;
+    }
+    return { ...exercise, sets: target.sets, reps: target.reps, repTarget: target.repTarget, notes };
+  });
+
+  return changed ? { exercises: progressed, targets } : null;
+};
@@ -0,0 +1,174 @@
+import { RepPrescription } from '../types/domain';
+
+type RepCarrier = { reps?: string | null; repTarget?: RepPrescription | null };
+
+const RANGE_PATTERN = /^(\d+)\s*(?:-|–|to)\s*(\d+)$/;
+const AMRAP_PATTERN = /^(?:amrap(?:\s*(\d+)\s*\+?)?|(\d+)\s*\+|(\d+)\s*\+?\s*amrap)$/;
+const HOLD_PATTERN = /^(\d+)\s*(?:s|sec|secs|seconds?)(?:\s*hold)?$|^hold\s*(\d+)\s*(?:s|sec|secs|seconds?)?$/;
+const TEMPO_PATTERN = /^(\d+)\s*(?:@|x|×|\()\s*(\d)[-\s]?(\d|x)[-\s]?(\d)[-\s]?(\d|x)\)?(?:\s*tempo)?$/;
+
+const toPositiveInt = (value?: string): number | null => {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Reads a legacy reps string: "8", "8-12", "AMRAP", "10+", "30s",
+ * "8 @ 3-1-1-0". Returns null for text that is not a rep target.
+ */
+export const parseRepPrescription = (text?: string | null): RepPrescription | null => {
+  const value = (text ?? '').trim().toLowerCase();
+  if (!value) return null;
+
+  if (/^\d+$/.test(value)) {
+    const reps = toPositiveInt(value);
+    return reps ? { kind: 'fixed', reps } : null;
+  }
+
+  const range = value.match(RANGE_PATTERN);
+  if (range) {
+    const first = toPositiveInt(range[1]);
+    const second = toPositiveInt(range[2]);
+    if (!first || !second) return null;
+    const min = Math.min(first, second);
+    const max = Math.max(first, second);
+    return min === max ? { kind: 'fixed', reps: min } : { kind: 'range', min, max };
+  }
+
+  const amrap = value.match(AMRAP_PATTERN);
+  if (amrap) {
+    return { kind: 'amrap', minReps: toPositiveInt(amrap[1] ?? amrap[2] ?? amrap[3]) };
+  }
+
+  const hold = value.match(HOLD_PATTERN);
+  if (hold) {
+    const seconds = toPositiveInt(hold[1] ?? hold[2]);
+    return seconds ? { kind: 'hold', seconds } : null;
+  }
+
+  const tempo = value.match(TEMPO_PATTERN);
+  if (tempo) {
+    const reps = toPositiveInt(tempo[1]);
+    return reps ? { kind: 'tempo', reps, tempo: tempo.slice(2, 6).join('-').toUpperCase() } : null;
+  }
+
+  return null;
+};
+
+export const formatRepPrescription = (prescription: RepPrescription): string => {
+  switch (prescription.kind) {
+    case 'fixed':
+      return `${prescription.reps}`;
+    case 'range':
+      return `${prescription.min}-${prescription.max}`;
+    case 'amrap':
+      return prescription.minReps ? `AMRAP ${prescription.minReps}+` : 'AMRAP';
+    case 'hold':
+      return `${prescription.seconds}s`;
+    case 'tempo':
+      return `${prescription.reps} @ ${prescription.tempo}`;
+  }
+};
+
+/** Validates a stored JSON value; anything malformed reads as missing. */
+export const parseStoredRepPrescription = (value: unknown): RepPrescription | null => {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Record<string, unknown>;
+  const isCount = (entry: unknown): entry is number => typeof entry === 'number' && entry > 0;
+  switch (candidate.kind) {
+    case 'fixed':
+      return isCount(candidate.reps) ? { kind: 'fixed', reps: candidate.reps } : null;
+    case 'range':
+      return isCount(candidate.min) && isCount(candidate.max)
+        ? { kind: 'range', min: candidate.min, max: candidate.max }
+        : null;
+    case 'amrap':
+      return { kind: 'amrap', minReps: isCount(candidate.minReps) ? candidate.minReps : null };
+    case 'hold':
+      return isCount(candidate.seconds) ? { kind: 'hold', seconds: candidate.seconds } : null;
+    case 'tempo':
+      return isCount(candidate.reps) && typeof candidate.tempo === 'string'
+        ? { kind: 'tempo', reps: candidate.reps, tempo: candidate.tempo }
+        : null;
+    default:
+      return null;
+  }
+};
+
+/** The structured target wins; older rows only have the string. */
+export const resolveRepPrescription = (exercise: RepCarrier): RepPrescription | null =>
+  exercise.repTarget ?? parseRepPrescription(exercise.reps);
+
+/**
+ * Single number to pre-fill a set with. Ranges start at the bottom; holds
+ * are logged as seconds in the reps field.
+ */
+export const getRepTargetValue = (prescription: RepPrescription | null): number | null => {
+  if (!prescription) return null;
+  switch (prescription.kind) {
+    case 'fixed':
+    case 'tempo':
+      return prescription.reps;
+    case 'range':
+      return prescription.min;
+    case 'amrap':
+      return prescription.minReps ?? null;
+    case 'hold':
+      return prescription.seconds;
+  }
+};
+
+/** Rep bounds for load progression; null when the target is not rep-based. */
+export const getRepRange = (
+  prescription: RepPrescription | null
+): { min: number; max: number } | null => {
+  if (!prescription) return null;
+  switch (prescription.kind) {
+    case 'fixed':
+    case 'tempo':
+      return { min: prescription.reps, max: prescription.reps };
+    case 'range':
+      return { min: prescription.min, max: prescription.max };
+    case 'amrap':
+      return prescription.minReps ? { min: prescription.minReps, max: prescription.minReps } : null;
+    case 'hold':
+      return null;
+  }
+};
+
+/**
+ * Moves a rep-count target to a new range. AMRAP, tempo and hold targets
+ * keep their shape, since only the load progresses for them.
+ */
+export const withRepRange = (
+  prescription: RepPrescription | null,
+  min: number,
+  max: number
+): RepPrescription => {
+  if (prescription && prescription.kind !== 'fixed' && prescription.kind !== 'range') {
+    return prescription;
+  }
+  return min >= max ? { kind: 'fixed', reps: max } : { kind: 'range', min, max };
+};
+
+export const areRepPrescriptionsEqual = (
+  a: RepPrescription | null,
+  b: RepPrescription | null
+): boolean =>
+  (a ? formatRepPrescription(a) : null) === (b ? formatRepPrescription(b) : null);
+
+/**
+ * Whether a swap keeps a comparable rep scheme: timed holds only swap for
+ * holds, and rep counts stay within half to double of the original.
+ */
+export const areRepPrescriptionsCompatible = (
+  current: RepPrescription | null,
+  next: RepPrescription | null
+): boolean => {
+  if (!current || !next) return true;
+  if ((current.kind === 'hold') !== (next.kind === 'hold')) return false;
+  const currentValue = getRepTargetValue(current);
+  const nextValue = getRepTargetValue(next);
+  if (!currentValue || !nextValue) return true;
+  return nextValue >= currentValue / 2 && nextValue <= currentValue * 2;
+};
@@ -0,0 +1,106 @@
+import type { ExerciseDefault } from '../services/workoutService';
+import { WorkoutSessionEntry, WorkoutSessionExercise, WorkoutSetEntry } from '../types/domain';
+import { getRepTargetValue, resolveRepPrescription } from './repPrescription';
+import { resolveMeasurementType } from './exerciseMeasurement';
+
+export type SetPrefill = {
+  weight: number | null;
+  reps: number | null;
+  rpe: number | null;
+  restSeconds: number | null;
+  durationSeconds: number | null;
+  distanceMeters: number | null;
+  calories: number | null;
+};
+
+type ExerciseRef = Pick<WorkoutSessionExercise, 'exerciseId' | 'name'>;
+
+export const isSameExercise = (candidate: ExerciseRef, target: ExerciseRef): boolean =>
+  target.exerciseId
+    ? candidate.exerciseId === target.exerciseId
+    : candidate.name.toLowerCase().trim() === target.name.toLowerCase().trim();
+
+const isPositive = (value?: number | null): boolean => typeof value === 'number' && value > 0;
+
+/** A set counts as logged once it has reps, time, distance or calories recorded. */
+export const isSetLogged = (set?: WorkoutSetEntry | null): boolean =>
+  isPositive(set?.reps) ||
+  isPositive(set?.durationSeconds) ||
+  isPositive(set?.distanceMeters) ||
+  isPositive(set?.calories);
+
+export const areAllSetsLogged = (sets: WorkoutSetEntry[], expectedCount = sets.length): boolean =>
+  expectedCount > 0 &&
+  sets.length >= expectedCount &&
+  sets.slice(0, expectedCount).every((set) => isSetLogged(set));
+
+/** Pads or trims logged sets to the prescribed count, keeping set numbers in order. */
+export const resizeSetDetails = (sets: WorkoutSetEntry[], count: number): WorkoutSetEntry[] =>
+  Array.from({ length: Math.max(0, count) }).map((_, index) => {
+    const existing = sets.find((set, setIndex) => (set.setNumber ?? setIndex + 1) === index + 1);
+    return existing
+      ? { ...existing, setNumber: index + 1 }
+      : { setNumber: index + 1, weight: null, reps: null, rpe: null, restSeconds: null };
+  });
+
+export const findSessionExercise = (
+  session: WorkoutSessionEntry | undefined,
+  target: ExerciseRef
+): WorkoutSessionExercise | undefined =>
+  session?.exercises.find((exercise) => isSameExercise(exercise, target));
+
+/** Logged sets from the most recent earlier session that included this exercise. */
+export const findPreviousExerciseSets = (
+  sessions: WorkoutSessionEntry[],
+  target: ExerciseRef,
+  beforeDate: string
+): WorkoutSetEntry[] => {
+  const previous = sessions
+    .filter((session) => session.date < beforeDate)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  for (const session of previous) {
+    const exercise = findSessionExercise(session, target);
+    const logged = (exercise?.setDetails ?? []).filter((set) => isSetLogged(set));
+    if (logged.length) return logged;
+  }
+  return [];
+};
+
+/**
+ * Suggested values per set: the matching set from the previous session wins,
+ * then the user's saved exercise default, then the prescribed rep target.
+ */
+export const buildSetPrefills = (
+  exercise: WorkoutSessionExercise,
+  options: {
+    previousSets?: WorkoutSetEntry[];
+    exerciseDefault?: ExerciseDefault | null;
+  } = {}
+): SetPrefill[] => {
+  const count = Math.max(1, exercise.sets ?? 4);
+  const previousSets = options.previousSets ?? [];
+  const exerciseDefault = options.exerciseDefault ?? null;
+  const prescription = resolveRepPrescription(exercise);
+  const isTimed = resolveMeasurementType(exercise) === 'time';
+  // Timed exercises take a hold prescription as their duration, not as reps
+  const durationTarget = isTimed && prescription?.kind === 'hold' ? prescription.seconds : null;
+  const repsTarget = isTimed
+    ? null
+    : getRepTargetValue(exerciseDefault?.defaultRepTarget ?? null) ??
+      exerciseDefault?.defaultReps ??
+      getRepTargetValue(prescription);
+
+  return Array.from({ length: count }).map((_, index) => {
+    const previous = previousSets[index] ?? previousSets[previousSets.length - 1];
+    return {
+      weight: previous?.weight ?? exerciseDefault?.defaultWeight ?? null,
+      reps: previous?.reps ?? repsTarget,
+      rpe: previous?.rpe ?? null,
+      restSeconds: previous?.restSeconds ?? exerciseDefault?.defaultRestSeconds ?? null,
+      durationSeconds: previous?.durationSeconds ?? durationTarget,
+      distanceMeters: previous?.distanceMeters ?? null,
+      calories: previous?.calories ?? null,
+    };
+  });
+};
@@ -1,19 +1,69 @@
-import { TrainingSplit } from '../types/domain';
+import { BodyPart, PlanPreferences, TrainingSplit } from '../types/domain';
+import {
+  TRAINING_WEEKDAYS,
+  normalizeTrainingDays,
+  resolveCustomSplitDaysPerWeek,
+  resolveTrainingDayIndex,
+} from '../services/planningRules';
 
-export type BodyPart = 'chest' | 'back' | 'legs' | 'shoulders' | 'arms' | 'core';
+export type { BodyPart };
+
+type SchedulePreferences = Pick<PlanPreferences, 'customSplit' | 'daysPerWeek' | 'trainingDays'>;
+
+/** The day being asked about and the start of the phase its split rotates from. */
+type RotationAnchor = { phaseStartDate: string; date: string };
+
+const ALL_BODY_PARTS: BodyPart[] = ['chest', 'back', 'legs', 'shoulders', 'arms', 'core'];
+
+/** Focus of each training day in rotation order, for splits placed on chosen weekdays. */
+const SPLIT_ROTATION: Record<Exclude<TrainingSplit, 'custom'>, BodyPart[][]> = {
+  full_body: [ALL_BODY_PARTS],
+  upper_lower: [['chest', 'back', 'shoulders', 'arms'], ['legs', 'core']],
+  push_pull_legs: [['chest', 'shoulders', 'arms'], ['back', 'arms'], ['legs', 'core']],
+  bro_split: [['chest'], ['back'], ['shoulders'], ['arms'], ['legs', 'core']],
+};
 
 /**
  * Get today's focus body parts based on training split and day of week
  * @param trainingSplit - User's training split preference
  * @param dayIndex - Day of week (0 = Sunday, 1 = Monday, etc.)
+ * @param preferences - Chosen weekdays and custom split days, when set
+ * @param anchor - Date and phase start, so rotations continue across weeks
  * @returns Array of body parts to focus on today
  */
 export const getTodayFocusAreas = (
   trainingSplit: TrainingSplit,
-  dayIndex: number
+  dayIndex: number,
+  preferences?: SchedulePreferences | null,
+  anchor?: RotationAnchor | null
 ): BodyPart[] => {
   // Normalize to 0-6 (Sunday-Saturday)
   const day = dayIndex % 7;
+  const customSplit = preferences?.customSplit;
+  // Counts training days since the phase began, as plan days do; the slot
+  // within the week stands in when there is no phase to count from.
+  const rotationIndex = (weekdays: number[]) => {
+    const slot = weekdays.indexOf(day);
+    if (slot < 0) return null;
+    const index = anchor
+      ? resolveTrainingDayIndex(anchor.phaseStartDate, anchor.date, weekdays)
+      : null;
+    return index ?? slot;
+  };
+
+  // Chosen weekdays: the split's days fill those slots in order
+  const trainingDays = normalizeTrainingDays(preferences?.trainingDays);
+  if (trainingDays.length) {
+    const index = rotationIndex(trainingDays);
+    if (index === null) return [];
+    const rotation =
+      trainingSplit === 'custom'
+        ? customSplit?.length
+          ? customSplit.map((entry) => entry.bodyParts)
+          : [ALL_BODY_PARTS]
+        : SPLIT_ROTATION[trainingSplit] ?? [ALL_BODY_PARTS];
+    return rotation[index % rotation.length];
+  }
 
   switch (trainingSplit) {
     case 'full_body':
@@ -55,8 +105,16 @@ export const getTodayFocusAreas = (
       if (day === 5) return ['legs', 'core'];
       return [];
 
-    case 'custom':
-      // For custom, rotate through body parts based on day
+    case 'custom': {
+      // Custom days fill the week's training slots in order
+      if (customSplit?.length) {
+        const weekdays =
+          TRAINING_WEEKDAYS[preferences?.daysPerWeek ?? resolveCustomSplitDaysPerWeek(customSplit.length)];
+        const index = rotationIndex(weekdays);
+        if (index === null) return [];
+        return customSplit[index % customSplit.length].bodyParts;
+      }
+      // No days defined yet: rotate through body parts based on day
       const rotation: BodyPart[][] = [
         [], // Sunday - rest
         ['chest', 'arms'], // Monday
@@ -67,6 +125,7 @@ export const getTodayFocusAreas = (
         [], // Saturday - rest
       ];
       return rotation[day] || [];
+    }
 
     default:
       return [];
@@ -108,7 +167,9 @@ export const getBodyPartEmoji = (bodyPart: BodyPart): string => {
  */
 export const isTrainingDay = (
   trainingSplit: TrainingSplit,
-  dayIndex: number
+  dayIndex: number,
+  preferences?: SchedulePreferences | null,
+  anchor?: RotationAnchor | null
 ): boolean => {
-  return getTodayFocusAreas(trainingSplit, dayIndex).length > 0;
+  return getTodayFocusAreas(trainingSplit, dayIndex, preferences, anchor).length > 0;
 };
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { PlateUnit, UnitSystem, User } from '../types/domain';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  metric: 'Metric (kg, cm)',
+  imperial: 'Imperial (lb, ft)',
+};
+
+export const KG_PER_LB = 0.45359237;
+const CM_PER_INCH = 2.54;
+
+/** Lightest common plate per unit; loads move in pairs of these. */
+const PLATE_INCREMENTS: Record<PlateUnit, number> = { kg: 1.25, lb: 2.5 };
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const getUnitSystem = (user?: Pick<User, 'trackingPreferences'> | null): UnitSystem =>
+  user?.trackingPreferences?.unitSystem ?? DEFAULT_UNIT_SYSTEM;
+
+export const getWeightUnit = (system: UnitSystem): PlateUnit => (system === 'imperial' ? 'lb' : 'kg');
+
+/** Stored kilograms in the user's unit, to one decimal. */
+export const toDisplayWeight = (kg: number, system: UnitSystem): number =>
+  roundTo(system === 'imperial' ? kg / KG_PER_LB : kg, 1);
+
+/** A typed weight back to kilograms. Kept at two decimals so lb values round-trip. */
+export const fromDisplayWeight = (value: number, system: UnitSystem): number =>
+  roundTo(system === 'imperial' ? value * KG_PER_LB : value, 2);
+
+/** Nearest load the user can put on a bar in their unit. */
+export const roundToPlateIncrement = (value: number, system: UnitSystem): number => {
+  const increment = PLATE_INCREMENTS[getWeightUnit(system)];
+  return roundTo(Math.round(value / increment) * increment, 2);
+};
+
+/**
+ * Suggested loads in the user's unit. Kilograms are shown as stored; a
+ * converted load lands on the nearest plate increment so 100 kg reads as
+ * 220 lb rather than 220.5.
+ */
+export const toDisplayLoad = (kg: number, system: UnitSystem): number =>
+  system === 'metric'
+    ? toDisplayWeight(kg, system)
+    : roundToPlateIncrement(toDisplayWeight(kg, system), system);
+
+export const formatWeight = (kg: number, system: UnitSystem): string =>
+  `${toDisplayWeight(kg, system)} ${getWeightUnit(system)}`;
+
+export const formatVolume = (kg: number, system: UnitSystem): string =>
+  `${Math.round(toDisplayWeight(kg, system)).toLocaleString()} ${getWeightUnit(system)}`;
+
+/** Parses a typed weight in the user's unit and returns kilograms. */
+export const parseWeightInput = (text: string, system: UnitSystem): number | null => {
+  const value = parseFloat(text.trim().replace(',', '.'));
+  return Number.isFinite(value) && value > 0 ? fromDisplayWeight(value, system) : null;
+};
+
+export const formatWeightInput = (kg: number | null | undefined, system: UnitSystem): string =>
+  kg == null || kg <= 0 ? '' : String(toDisplayWeight(kg, system));
+
+export const formatHeight = (cm: number, system: UnitSystem): string => {
+  if (system === 'metric') return `${Math.round(cm)} cm`;
+  const totalInches = Math.round(cm / CM_PER_INCH);
+  return `${Math.floor(totalInches / 12)}'${totalInches % 12}"`;
+};
+
+/** Metric takes centimeters; imperial takes 5'11", 5 11 or plain inches. */
+export const parseHeightInput = (text: string, system: UnitSystem): number | null => {
+  const value = text.trim();
+  if (!value) return null;
+  if (system === 'metric') {
+    const cm = parseInt(value, 10);
+    return Number.isFinite(cm) && cm > 0 ? cm : null;
+  }
+  // A bare space only separates feet from inches when a second number follows
+  const feetInches = value.match(
+    /^(\d+)\s*(?:'|ft)\s*(\d+(?:\.\d+)?)?\s*(?:"|in)?$|^(\d+)\s+(\d+(?:\.\d+)?)$/
+  );
+  const feet = feetInches?.[1] ?? feetInches?.[3];
+  const extraInches = feetInches?.[2] ?? feetInches?.[4];
+  const inches = feet
+    ? parseInt(feet, 10) * 12 + (extraInches ? parseFloat(extraInches) : 0)
+    : parseFloat(value.replace(/(?:"|in)$/, ''));
+  return Number.isFinite(inches) && inches > 0 ? Math.round(inches * CM_PER_INCH) : null;
+};
+
+export const formatHeightInput = (cm: number | null | undefined, system: UnitSystem): string =>
+  cm == null || cm <= 0 ? '' : system === 'metric' ? String(Math.round(cm)) : formatHeight(cm, system);
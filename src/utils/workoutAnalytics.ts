@@ -2,11 +2,21 @@ import {
   LiftId,
   MovementPattern,
   MuscleGroup,
+  OneRepMaxFormula,
   StrengthSnapshot,
   WorkoutLog,
   WorkoutSessionEntry,
   WorkoutSetEntry,
 } from '../types/domain';
+import { resolvePlannedSets } from './exerciseGroups';
+import { isConditioningMeasurement, resolveMeasurementType } from './exerciseMeasurement';
+import {
+  BodyWeightLookup,
+  getBodyWeightShare,
+  resolveEffectiveLoad,
+  resolveLoadMode,
+} from './exerciseLoad';
+import { DEFAULT_ONE_REP_MAX_FORMULA, estimateOneRepMax } from './oneRepMax';
 
 const MUSCLE_REMAPPINGS: Record<string, MuscleGroup> = {
   chest: 'chest',
@@ -91,11 +101,6 @@ export const createEmptyMovementVolume = (): Record<MovementPattern, number> =>
   vertical_pull: 0,
 });
 
-const estimateOneRepMax = (weight: number, reps: number): number => {
-  if (weight <= 0 || reps <= 0) return 0;
-  return Math.round(weight * (1 + reps / 30));
-};
-
 const normalizeSetDetails = (set?: WorkoutSetEntry | null): WorkoutSetEntry => ({
   setNumber: typeof set?.setNumber === 'number' ? set?.setNumber : set?.setNumber ?? undefined,
   weight: typeof set?.weight === 'number' ? set.weight : set?.weight ?? undefined,
@@ -103,6 +108,9 @@ const normalizeSetDetails = (set?: WorkoutSetEntry | null): WorkoutSetEntry => (
   rpe: typeof set?.rpe === 'number' ? set.rpe : set?.rpe ?? undefined,
   restSeconds:
     typeof set?.restSeconds === 'number' ? set.restSeconds : set?.restSeconds ?? undefined,
+  durationSeconds: set?.durationSeconds ?? undefined,
+  distanceMeters: set?.distanceMeters ?? undefined,
+  calories: set?.calories ?? undefined,
 });
 
 type WorkoutAnalyticsResult = {
@@ -129,7 +137,9 @@ const inferMusclesFromName = (name: string): MuscleGroup[] => {
 
 export const buildWorkoutAnalytics = (
   sessions: WorkoutSessionEntry[],
-  defaultWeights?: Record<string, number>
+  defaultWeights?: Record<string, number>,
+  oneRepMaxFormula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA,
+  bodyWeightAt?: BodyWeightLookup
 ): WorkoutAnalyticsResult => {
   const workoutLogs: WorkoutLog[] = [];
   const strengthSnapshots: StrengthSnapshot[] = [];
@@ -142,8 +152,11 @@ export const buildWorkoutAnalytics = (
     const lifts: WorkoutLog['lifts'] = [];
     let totalSets = 0;
     let totalVolume = 0;
+    let conditioningSeconds = 0;
+    let distanceMeters = 0;
 
     const bestLiftSets = new Map<LiftId, { weight: number; reps: number }>();
+    const bodyWeight = bodyWeightAt?.(session.date) ?? null;
 
     session.exercises.forEach((exercise) => {
       const setDetails = (exercise.setDetails || []).map(normalizeSetDetails);
@@ -151,8 +164,19 @@ export const buildWorkoutAnalytics = (
         exercise.exerciseId && defaultWeights
           ? defaultWeights[exercise.exerciseId]
           : undefined;
+      // Bodyweight and assisted lifts count the load actually moved
+      const loadMode = resolveLoadMode(exercise);
+      const bodyWeightShare = getBodyWeightShare(exercise.name);
+      const getSetLoad = (set: WorkoutSetEntry) =>
+        resolveEffectiveLoad(
+          Number(set.weight ?? fallbackWeight ?? 0),
+          loadMode,
+          bodyWeight,
+          bodyWeightShare
+        );
+      // Grouped exercises log one set per round, whatever `sets` says
       const setCount =
-        setDetails.length || (exercise.completed ? exercise.sets || 0 : 0);
+        setDetails.length || (exercise.completed ? resolvePlannedSets(exercise) : 0);
       totalSets += setCount;
 
       if (setCount > 0) {
@@ -168,31 +192,39 @@ export const buildWorkoutAnalytics = (
         });
       }
 
+      setDetails.forEach((set) => {
+        conditioningSeconds += Math.max(0, Number(set.durationSeconds ?? 0));
+        distanceMeters += Math.max(0, Number(set.distanceMeters ?? 0));
+      });
+      // Runs, rows and holds count toward muscles hit and conditioning only
+      const isConditioning = isConditioningMeasurement(resolveMeasurementType(exercise));
+
       const movement =
         (exercise.movementPattern as MovementPattern | undefined | null) ||
         inferMovementPatternFromName(exercise.name);
-      if (movement && setCount > 0) {
+      if (movement && setCount > 0 && !isConditioning) {
         movementHit.add(movement);
         movementVolume[movement] += setCount;
       }
 
+      let exerciseVolume = 0;
       setDetails.forEach((set) => {
-        const weight = Number(set.weight ?? fallbackWeight ?? 0);
+        const weight = getSetLoad(set);
         const reps = Number(set.reps ?? 0);
         if (weight > 0 && reps > 0) {
-          totalVolume += weight * reps;
+          exerciseVolume += weight * reps;
         }
       });
+      totalVolume += exerciseVolume;
 
       const liftId = inferLiftIdFromName(exercise.name) ?? normalizeLiftId(exercise.name);
-      if (liftId && setDetails.length) {
-        const bestSet = setDetails.reduce((best, candidate) => {
-          const candidateWeight = Number(candidate.weight ?? fallbackWeight ?? 0);
-          const bestWeight = Number(best.weight ?? fallbackWeight ?? 0);
-          return candidateWeight > bestWeight ? candidate : best;
-        }, setDetails[0]);
-
-        const bestWeight = Number(bestSet.weight ?? fallbackWeight ?? 0);
+      if (liftId && setDetails.length && !isConditioning) {
+        const bestSet = setDetails.reduce(
+          (best, candidate) => (getSetLoad(candidate) > getSetLoad(best) ? candidate : best),
+          setDetails[0]
+        );
+
+        const bestWeight = getSetLoad(bestSet);
         const bestReps = Number(bestSet.reps ?? 0);
         const currentBest = bestLiftSets.get(liftId);
         if (!currentBest || bestWeight > currentBest.weight) {
@@ -214,7 +246,8 @@ export const buildWorkoutAnalytics = (
           reps: bestReps,
           totalSets: setCount,
           totalReps: totalExerciseReps,
-          estimated1RM: estimateOneRepMax(bestWeight, bestReps),
+          totalVolume: exerciseVolume,
+          estimated1RM: estimateOneRepMax(bestWeight, bestReps, oneRepMaxFormula, bestSet.rpe),
         });
       }
     });
@@ -237,6 +270,8 @@ export const buildWorkoutAnalytics = (
       isCompleted: totalSets > 0,
       totalSets,
       totalVolume,
+      conditioningMinutes: Math.round(conditioningSeconds / 6) / 10,
+      distanceMeters: Math.round(distanceMeters),
       musclesHit: Array.from(musclesHit),
       movementPatternsHit: Array.from(movementHit),
       muscleVolume,
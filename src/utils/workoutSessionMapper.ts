@@ -1,6 +1,10 @@
 import { formatDateInTimeZone } from '../utils/time';
 import { formatLocalDateYMD } from '../utils/date';
 import { mapMuscleNameToGroup } from '../utils/workoutAnalytics';
+import { parseExerciseGroupColumns } from '../utils/exerciseGroups';
+import { parseRepPrescription } from '../utils/repPrescription';
+import { inferMeasurementFromSets } from '../utils/exerciseMeasurement';
+import { parseLoadMode } from '../utils/exerciseLoad';
 import { MuscleGroup, WorkoutSessionEntry, WorkoutSessionExercise } from '../types/domain';
 
 const extractBodyParts = (exerciseRow: any): MuscleGroup[] => {
@@ -57,19 +61,32 @@ export const mapSessionRow = (
   }
 
   const mappedExercises: WorkoutSessionExercise[] = sessionExercises.map((se: any) => {
-    const setDetails: Array<{
+    const toSetEntry = (s: any): {
       setNumber: number | null;
       reps: number | null;
       weight: number | null;
       rpe: number | null;
       restSeconds: number | null;
-    }> = (se.sets || []).map((s: any) => ({
+      durationSeconds: number | null;
+      distanceMeters: number | null;
+      calories: number | null;
+    } => ({
       setNumber: s.set_number,
       reps: s.reps,
       weight: s.weight,
       rpe: s.rpe,
       restSeconds: s.rest_seconds,
-    }));
+      durationSeconds: s.duration_seconds ?? null,
+      distanceMeters: s.distance_meters ?? null,
+      calories: s.calories ?? null,
+    });
+    const setRows: any[] = se.sets || [];
+    const setDetails = setRows.filter((s) => s.is_warmup !== true).map(toSetEntry);
+    // Warm-ups are stored below zero; the app numbers them from 1
+    const warmupSets = setRows
+      .filter((s) => s.is_warmup === true)
+      .sort((a, b) => (a.set_number ?? 0) - (b.set_number ?? 0))
+      .map((s, index) => ({ ...toSetEntry(s), setNumber: index + 1 }));
     const repsFromSets = setDetails.find((s) => s.reps != null)?.reps;
     const repsNote =
       typeof se.notes === 'string' && se.notes.trim().length > 0 ? se.notes : null;
@@ -87,6 +104,11 @@ export const mapSessionRow = (
       displayOrder: se.display_order,
       notes: se.notes,
       setDetails,
+      ...(warmupSets.length ? { warmupSets } : {}),
+      group: parseExerciseGroupColumns(se),
+      repTarget: parseRepPrescription(derivedReps),
+      measurementType: inferMeasurementFromSets(setDetails),
+      loadMode: parseLoadMode(se.load_mode),
     };
   });
 